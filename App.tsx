@@ -1,75 +1,348 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useDeferredValue } from 'react';
 import { ChatInterface } from './components/ChatInterface';
 import { LiveInterface } from './components/LiveInterface';
-import { AppMode, ChatSession, Message } from './types';
-import { WARVI_INITIAL_GREETING } from './constants';
+import { AuthModal } from './components/AuthModal';
+import { SyncStatusBar } from './components/SyncStatusBar';
+import { SearchResults } from './components/SearchResults';
+import { TransferPanel } from './components/TransferPanel';
+import { PersonaPanel } from './components/PersonaPanel';
+import { AppMode, AuthUser, ChatSession, GenerationSettings, Message, MessageNode, Persona } from './types';
+import { createSessionStore, migrateLegacySessions, moveSessions, SessionStore, SessionSummary, StorageQuotaError } from './services/storage';
+import { AuthProvider, createAuthProvider, setActiveAuthProvider } from './services/auth';
+import { SyncManager, SyncStatus } from './services/sync';
+import { activePath, applyPath, createMessageId, latestLeaf, siblingIds } from './services/messageTree';
+import { indexStoredSessions, SearchIndex, SearchResult } from './services/search';
+import { downloadBlob, exportSessions, ExportFormat, importSessions } from './services/transfer';
+import { DEFAULT_GENERATION_SETTINGS } from './services/generationConfig';
+import { DEFAULT_PERSONA, PersonaStore } from './services/personas';
+import { ToolContext } from './services/tools';
+import { createKnowledgeBase, KnowledgeBase } from './services/knowledge';
+import { createSpeechPlayer, SpeechPlayer } from './services/speech';
 
-const SESSIONS_STORAGE_KEY = 'waso_sessions_v2';
+const LIVE_CALL_TITLE = 'Live Call';
 
-const App: React.FC = () => {
+const stores = new Map<string, SessionStore>();
+// One history per account; chats made while signed out are kept apart under ''
+const defaultOpenStore = (uid: string | null) => {
+  const key = uid ?? '';
+  if (!stores.has(key)) stores.set(key, createSessionStore(uid));
+  return stores.get(key)!;
+};
+const defaultAuth = createAuthProvider();
+const defaultPersonaStore = new PersonaStore();
+const defaultKnowledgeBase = createKnowledgeBase();
+const defaultSpeechPlayer = createSpeechPlayer();
+
+// Ids of signed-out chats a user chose not to add to their account
+const declinedGuestKey = (uid: string) => `waso_guest_declined_${uid}`;
+
+interface AppProps {
+  openStore?: (uid: string | null) => SessionStore;
+  auth?: AuthProvider;
+  personaStore?: PersonaStore;
+  knowledgeBase?: KnowledgeBase;
+  speechPlayer?: SpeechPlayer;
+}
+
+const App: React.FC<AppProps> = ({ openStore = defaultOpenStore, auth = defaultAuth, personaStore = defaultPersonaStore, knowledgeBase = defaultKnowledgeBase, speechPlayer = defaultSpeechPlayer }) => {
   const [mode, setMode] = useState<AppMode>(AppMode.CHAT);
-  const [sessions, setSessions] = useState<ChatSession[]>(() => {
-    const saved = localStorage.getItem(SESSIONS_STORAGE_KEY);
-    if (saved) {
-      try {
-        return JSON.parse(saved);
-      } catch (e) {
-        return [];
-      }
-    }
-    return [];
-  });
-  
-  const [currentSessionId, setCurrentSessionId] = useState<string | null>(() => {
-    return sessions.length > 0 ? sessions[0].id : null;
-  });
+  // The history list only holds summaries; full sessions are loaded when opened
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [loadedSessions, setLoadedSessions] = useState<Record<string, ChatSession>>({});
+  const loadedRef = useRef<Record<string, ChatSession>>({});
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
   
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // undefined until the provider reports the initial auth state
+  const [user, setUser] = useState<AuthUser | null | undefined>(undefined);
+  const [isAuthOpen, setIsAuthOpen] = useState(false);
+  const store = useMemo(() => openStore(user?.uid ?? null), [openStore, user?.uid]);
+  // Chats in this browser that belong to no account, offered to the signed-in user
+  const [guestSessionIds, setGuestSessionIds] = useState<string[]>([]);
+  const syncRef = useRef<SyncManager | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+
+  const searchRef = useRef(new SearchIndex());
+  // Bumped whenever the index changes so open search results refresh
+  const [searchVersion, setSearchVersion] = useState(0);
+  const [searchQuery, setSearchQuery] = useState('');
+  const deferredQuery = useDeferredValue(searchQuery);
+  const [focusTarget, setFocusTarget] = useState<{ sessionId: string; messageId: string } | null>(null);
+
+  const [personas, setPersonas] = useState<Persona[]>(() => personaStore.list());
+  // Persona for new chats and Live calls
+  const [selectedPersonaId, setSelectedPersonaId] = useState(() => personaStore.selectedId());
+  const [isPersonasOpen, setIsPersonasOpen] = useState(false);
 
   useEffect(() => {
-    localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
-  }, [sessions]);
+    setActiveAuthProvider(auth);
+    return auth.onAuthStateChanged(setUser);
+  }, [auth]);
 
-  const createNewChat = () => {
-    const newId = Date.now().toString();
+  const reportStorageError = (error: unknown) => {
+    console.error('Session storage error:', error);
+    setStorageError(error instanceof StorageQuotaError ? error.message : 'Unable to save chat history in this browser.');
+  };
+
+  useEffect(() => {
+    // Wait for the auth state, so one account's history never flashes up for another
+    if (user === undefined) return;
+    let cancelled = false;
+    loadedRef.current = {};
+    setLoadedSessions({});
+    setSessions([]);
+    setCurrentSessionId(null);
+    searchRef.current = new SearchIndex();
+    const init = async () => {
+      // Sessions from before accounts existed belong to no account
+      await migrateLegacySessions(openStore(null));
+      const list = await store.listSessions();
+      if (cancelled) return;
+      setSessions(list);
+      setCurrentSessionId(prev => prev ?? (list[0]?.id || null));
+      const index = searchRef.current;
+      await indexStoredSessions(index, store);
+      setSearchVersion(v => v + 1);
+    };
+    init().catch(reportStorageError);
+    return () => { cancelled = true; };
+  }, [store, user === undefined]);
+
+  useEffect(() => {
+    if (!currentSessionId || loadedRef.current[currentSessionId]) return;
+    store.loadSession(currentSessionId).then(session => {
+      if (session) cacheSession(session);
+      else setCurrentSessionId(null);
+    }).catch(reportStorageError);
+  }, [currentSessionId, store]);
+
+  const indexSession = (session: ChatSession) => {
+    searchRef.current.updateSession(session);
+    setSearchVersion(v => v + 1);
+  };
+
+  const cacheSession = (session: ChatSession) => {
+    loadedRef.current = { ...loadedRef.current, [session.id]: session };
+    setLoadedSessions(loadedRef.current);
+  };
+
+  const persistSession = (session: ChatSession) => {
+    cacheSession(session);
+    indexSession(session);
+    const { nodes, activeLeafId, ...summary } = session;
+    setSessions(prev => prev.some(s => s.id === session.id)
+      ? prev.map(s => s.id === session.id ? summary : s)
+      : [summary, ...prev]);
+    store.saveSession(session)
+      .then(() => syncRef.current?.markDirty(session.id))
+      .catch(reportStorageError);
+  };
+
+  // Sync wrote remote changes into the store: refresh the list and any open copies
+  const refreshFromStore = async (ids: string[]) => {
+    setSessions(await store.listSessions());
+    for (const id of ids) {
+      const session = await store.loadSession(id);
+      if (session) {
+        indexSession(session);
+        if (loadedRef.current[id]) cacheSession(session);
+      } else {
+        searchRef.current.removeSession(id);
+        setSearchVersion(v => v + 1);
+        if (!loadedRef.current[id]) continue;
+        const { [id]: _removed, ...rest } = loadedRef.current;
+        loadedRef.current = rest;
+        setLoadedSessions(rest);
+        setCurrentSessionId(prev => prev === id ? null : prev);
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    const manager = new SyncManager(store, user.uid, (ids) => { refreshFromStore(ids).catch(reportStorageError); });
+    syncRef.current = manager;
+    const unsubscribe = manager.subscribe(setSyncStatus);
+    const guestStore = openStore(null);
+    const offerGuestSessions = async () => {
+      const declined: string[] = JSON.parse(localStorage.getItem(declinedGuestKey(user.uid)) || '[]');
+      const ids = (await guestStore.listSessions()).map(s => s.id);
+      if (syncRef.current === manager) setGuestSessionIds(ids.some(id => !declined.includes(id)) ? ids : []);
+    };
+    manager.start().then(offerGuestSessions).catch(reportStorageError);
+    return () => {
+      setGuestSessionIds([]);
+      unsubscribe();
+      manager.stop();
+      syncRef.current = null;
+      setSyncStatus(null);
+    };
+  }, [user?.uid, store]);
+
+  const adoptGuestSessions = async () => {
+    setGuestSessionIds([]);
+    const moved = await moveSessions(openStore(null), store);
+    await refreshFromStore(moved);
+    moved.forEach(id => syncRef.current?.markDirty(id));
+  };
+
+  const declineGuestSessions = () => {
+    if (user) localStorage.setItem(declinedGuestKey(user.uid), JSON.stringify(guestSessionIds));
+    setGuestSessionIds([]);
+  };
+
+  const findPersona = (id: string | undefined) => personas.find(p => p.id === id) || DEFAULT_PERSONA;
+
+  const selectPersona = (id: string) => {
+    personaStore.select(id);
+    setSelectedPersonaId(id);
+  };
+
+  const savePersona = (persona: Persona) => {
+    personaStore.save(persona);
+    setPersonas(personaStore.list());
+  };
+
+  const deletePersona = (id: string) => {
+    personaStore.delete(id);
+    setPersonas(personaStore.list());
+    setSelectedPersonaId(personaStore.selectedId());
+  };
+
+  // A new session with the selected persona's greeting; a custom title is kept when the first message arrives
+  const addSession = (title = 'New Chat') => {
+    const persona = findPersona(selectedPersonaId);
+    const greeting: MessageNode = { id: createMessageId(), parentId: null, role: 'model', parts: [{ text: persona.greeting }], timestamp: Date.now() };
     const newSession: ChatSession = {
-      id: newId,
-      title: 'New Chat',
-      messages: [{ role: 'model', parts: [{ text: WARVI_INITIAL_GREETING }], timestamp: Date.now() }],
-      timestamp: Date.now()
+      id: Date.now().toString(),
+      title,
+      nodes: [greeting],
+      activeLeafId: greeting.id,
+      timestamp: Date.now(),
+      personaId: persona.id
     };
-    setSessions(prev => [newSession, ...prev]);
-    setCurrentSessionId(newId);
-    setMode(AppMode.CHAT);
-    setIsHistoryOpen(false);
+    persistSession(newSession);
+    return newSession;
   };
 
+  const createNewChat = () => openSession(addSession().id);
+
   const handleUpdateMessages = (sessionId: string, messages: Message[]) => {
-    setSessions(prev => prev.map(s => {
-      if (s.id === sessionId) {
-        let newTitle = s.title;
-        if (s.title === 'New Chat' || s.title === 'Chat Session') {
-          const firstUserMsg = messages.find(m => m.role === 'user');
-          if (firstUserMsg) {
-            newTitle = firstUserMsg.parts[0].text.slice(0, 30) + (firstUserMsg.parts[0].text.length > 30 ? '...' : '');
-          }
-        }
-        return { ...s, messages, title: newTitle, timestamp: Date.now() };
+    const s = loadedRef.current[sessionId];
+    if (!s) return;
+    let newTitle = s.title;
+    if (s.title === 'New Chat' || s.title === 'Chat Session' || s.title === LIVE_CALL_TITLE) {
+      const firstUserMsg = messages.find(m => m.role === 'user');
+      if (firstUserMsg) {
+        newTitle = firstUserMsg.parts[0].text.slice(0, 30) + (firstUserMsg.parts[0].text.length > 30 ? '...' : '');
       }
-      return s;
-    }));
+    }
+    persistSession({ ...s, ...applyPath(s, messages), title: newTitle, timestamp: Date.now() });
+  };
+
+  // Shows another version of a message, continuing down its most recent branch
+  const handleSelectBranch = (sessionId: string, messageId: string) => {
+    const s = loadedRef.current[sessionId];
+    if (!s) return;
+    persistSession({ ...s, activeLeafId: latestLeaf(s.nodes, messageId) });
+  };
+
+  const handleUpdateSettings = (sessionId: string, settings: GenerationSettings) => {
+    const s = loadedRef.current[sessionId];
+    if (!s) return;
+    persistSession({ ...s, settings, timestamp: Date.now() });
+  };
+
+  // Each Live call is stored as its own session the first time a turn is transcribed
+  const handleLiveTranscript = (callId: string, messages: Message[]) => {
+    if (!loadedRef.current[callId]) {
+      cacheSession({ id: callId, title: LIVE_CALL_TITLE, nodes: [], activeLeafId: null, timestamp: Date.now(), origin: 'live', personaId: selectedPersonaId });
+    }
+    handleUpdateMessages(callId, messages);
   };
 
   const deleteSession = (sessionId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setSessions(prev => prev.filter(s => s.id !== sessionId));
+    searchRef.current.removeSession(sessionId);
+    setSearchVersion(v => v + 1);
+    const { [sessionId]: _removed, ...rest } = loadedRef.current;
+    loadedRef.current = rest;
+    setLoadedSessions(rest);
+    store.deleteSession(sessionId)
+      .then(() => syncRef.current?.markDeleted(sessionId))
+      .catch(reportStorageError);
+    knowledgeBase.deleteSession(sessionId).catch(console.error);
+    speechPlayer.deleteSession(sessionId).catch(console.error);
     if (currentSessionId === sessionId) {
       setCurrentSessionId(null);
     }
   };
 
-  const currentSession = sessions.find(s => s.id === currentSessionId);
+  const handleExport = async (scope: 'current' | 'all', format: ExportFormat) => {
+    const ids = scope === 'current' && currentSessionId ? [currentSessionId] : sessions.map(s => s.id);
+    const loaded = await Promise.all(ids.map(id => loadedRef.current[id] || store.loadSession(id)));
+    const toExport = loaded.filter((s): s is ChatSession => !!s);
+    if (toExport.length === 0) throw new Error('There are no chats to export.');
+    const { blob, name } = await exportSessions(toExport, format);
+    downloadBlob(blob, name);
+  };
+
+  const handleImport = async (file: File) => {
+    const { added, merged } = await importSessions(store, await file.text());
+    const ids = [...added, ...merged];
+    await refreshFromStore(ids);
+    ids.forEach(id => syncRef.current?.markDirty(id));
+    return `Imported ${added.length} new, merged ${merged.length} existing`;
+  };
+
+  const openSession = (sessionId: string) => {
+    setCurrentSessionId(sessionId);
+    setFocusTarget(null);
+    setMode(AppMode.CHAT);
+    setIsHistoryOpen(false);
+  };
+
+  const jumpToResult = (result: SearchResult) => {
+    openSession(result.sessionId);
+    setFocusTarget({ sessionId: result.sessionId, messageId: result.messageId });
+  };
+
+  // A result can sit on an inactive branch: switch to it once the session is loaded
+  useEffect(() => {
+    const session = focusTarget && loadedSessions[focusTarget.sessionId];
+    if (!session || !session.nodes.some(n => n.id === focusTarget.messageId)) return;
+    if (!activePath(session).some(n => n.id === focusTarget.messageId)) {
+      handleSelectBranch(session.id, focusTarget.messageId);
+    }
+  }, [focusTarget, loadedSessions]);
+
+  const searchResults = useMemo(
+    () => deferredQuery.trim() ? searchRef.current.search(deferredQuery) : [],
+    [deferredQuery, searchVersion]
+  );
+
+  const toolContext = useMemo<ToolContext>(() => ({
+    searchSessions: (query, limit) => searchRef.current.search(query, limit).map(result => ({
+      sessionId: result.sessionId,
+      title: sessions.find(s => s.id === result.sessionId)?.title || 'Untitled chat',
+      role: result.role,
+      timestamp: result.timestamp,
+      snippet: result.snippet.map(part => part.text).join('')
+    })),
+    // Selected for the chat screen, but a Live call asking for it keeps running
+    createSession: (title) => {
+      const session = addSession(title);
+      setCurrentSessionId(session.id);
+      setFocusTarget(null);
+      return { sessionId: session.id, title: session.title };
+    }
+  }), [sessions, selectedPersonaId]);
+
+  const currentSession = currentSessionId ? loadedSessions[currentSessionId] : undefined;
+  const currentPath = currentSession ? activePath(currentSession) : [];
 
   return (
     <div className="flex h-screen w-screen bg-warvi-gradient text-white overflow-hidden font-['Inter'] flex-col relative">
@@ -91,15 +364,33 @@ const App: React.FC = () => {
             </button>
           </div>
 
+          {syncStatus && <SyncStatusBar status={syncStatus} onSyncNow={() => syncRef.current?.syncNow()} />}
+
+          {guestSessionIds.length > 0 && (
+            <div className="mb-4 p-3 rounded-xl border border-blue-500/30 bg-blue-500/10 text-[10px] text-gray-300">
+              <p className="mb-2">{guestSessionIds.length} chat{guestSessionIds.length === 1 ? '' : 's'} in this browser belong to no account.</p>
+              <div className="flex gap-2">
+                <button onClick={() => adoptGuestSessions().catch(reportStorageError)} className="px-2 py-1 rounded-lg bg-blue-600 hover:bg-blue-500 font-bold uppercase tracking-widest transition-colors">Add to my account</button>
+                <button onClick={declineGuestSessions} className="px-2 py-1 rounded-lg border border-white/10 hover:bg-white/10 font-bold uppercase tracking-widest transition-colors">Keep apart</button>
+              </div>
+            </div>
+          )}
+
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search chats..."
+            className="mb-4 w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500/40"
+          />
+
           <div className="flex-1 overflow-y-auto space-y-2 pr-2">
-            {sessions.map(s => (
+            {searchQuery.trim() ? (
+              <SearchResults results={searchResults} sessions={sessions} onSelect={jumpToResult} />
+            ) : sessions.map(s => (
               <div 
                 key={s.id}
-                onClick={() => {
-                  setCurrentSessionId(s.id);
-                  setMode(AppMode.CHAT);
-                  setIsHistoryOpen(false);
-                }}
+                onClick={() => openSession(s.id)}
                 className={`group flex items-center justify-between p-3 rounded-xl border cursor-pointer transition-all duration-200 ${
                   currentSessionId === s.id 
                     ? 'bg-blue-600/20 border-blue-500/40 text-white' 
@@ -107,7 +398,11 @@ const App: React.FC = () => {
                 }`}
               >
                 <div className="flex items-center gap-3 overflow-hidden">
-                  <svg className="w-4 h-4 shrink-0 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" /></svg>
+                  {s.origin === 'live' ? (
+                    <svg className="w-4 h-4 shrink-0 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
+                  ) : (
+                    <svg className="w-4 h-4 shrink-0 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" /></svg>
+                  )}
                   <span className="text-xs font-bold truncate">{s.title}</span>
                 </div>
                 <button 
@@ -118,14 +413,33 @@ const App: React.FC = () => {
                 </button>
               </div>
             ))}
-            {sessions.length === 0 && (
+            {!searchQuery.trim() && sessions.length === 0 && (
               <div className="text-center py-10 opacity-30 italic text-sm uppercase tracking-widest">No history detected</div>
             )}
           </div>
 
+          <TransferPanel canExportCurrent={!!currentSessionId} onExport={handleExport} onImport={handleImport} />
+
+          <div className="mt-6 flex items-center gap-2">
+            <select
+              value={selectedPersonaId}
+              onChange={(e) => selectPersona(e.target.value)}
+              title="Persona for new chats"
+              className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold text-gray-300 focus:outline-none"
+            >
+              {personas.map(p => <option key={p.id} value={p.id} className="bg-black">{p.name}</option>)}
+            </select>
+            <button
+              onClick={() => setIsPersonasOpen(true)}
+              className="px-3 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-[10px] font-bold uppercase tracking-widest transition-all"
+            >
+              Manage
+            </button>
+          </div>
+
           <button 
             onClick={createNewChat}
-            className="mt-6 flex items-center justify-center gap-3 w-full py-4 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-black uppercase tracking-widest text-xs transition-all active:scale-95 shadow-lg shadow-blue-500/20"
+            className="mt-3 flex items-center justify-center gap-3 w-full py-4 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-black uppercase tracking-widest text-xs transition-all active:scale-95 shadow-lg shadow-blue-500/20"
           >
             <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M12 4v16m8-8H4" /></svg>
             New Chat
@@ -190,16 +504,82 @@ const App: React.FC = () => {
           </button>
         </nav>
         
-        <div className="hidden lg:block lg:w-1/3"></div>
+        <div className="flex items-center justify-end lg:w-1/3">
+          {user ? (
+            <div className="flex items-center gap-2 md:gap-3">
+              <div className="hidden md:flex flex-col items-end leading-none gap-1">
+                <span className="text-xs font-bold text-white truncate max-w-[160px]">{user.displayName || user.email}</span>
+                <button onClick={() => auth.signOut()} className="text-[8px] text-gray-500 hover:text-red-400 font-bold uppercase tracking-widest transition-colors">Sign out</button>
+              </div>
+              {user.photoURL ? (
+                <img src={user.photoURL} alt="" className="w-8 h-8 md:w-10 md:h-10 rounded-full border border-white/10" />
+              ) : (
+                <button onClick={() => auth.signOut()} title="Sign out" className="w-8 h-8 md:w-10 md:h-10 rounded-full bg-blue-600/30 border border-blue-500/40 flex items-center justify-center text-xs font-black uppercase">
+                  {(user.displayName || user.email || '?').charAt(0)}
+                </button>
+              )}
+            </div>
+          ) : user === null ? (
+            <button onClick={() => setIsAuthOpen(true)} className="px-3 md:px-5 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-[10px] md:text-xs font-black uppercase tracking-widest transition-all">
+              Sign In
+            </button>
+          ) : null}
+        </div>
       </header>
 
+      <AuthModal isOpen={isAuthOpen} onClose={() => setIsAuthOpen(false)} auth={auth} />
+      <PersonaPanel
+        isOpen={isPersonasOpen}
+        onClose={() => setIsPersonasOpen(false)}
+        personas={personas}
+        selectedId={selectedPersonaId}
+        onSave={savePersona}
+        onDelete={deletePersona}
+      />
+
       <main className="flex-1 overflow-hidden relative">
-        {mode === AppMode.CHAT ? (
-          currentSessionId ? (
+        {storageError && (
+          <div className="absolute top-3 left-1/2 -translate-x-1/2 z-30 flex items-center gap-3 max-w-[90%] px-4 py-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-300 text-[10px] md:text-xs font-bold uppercase tracking-widest backdrop-blur-md">
+            <span>{storageError}</span>
+            <button onClick={() => setStorageError(null)} className="p-1 hover:text-white transition-colors" title="Dismiss">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+        )}
+        {user === undefined ? (
+          <div className="flex items-center justify-center h-full text-xs font-black text-blue-400 uppercase tracking-widest animate-pulse">Verifying session...</div>
+        ) : user === null ? (
+          <div className="flex flex-col items-center justify-center h-full text-center p-8 space-y-6 animate-in fade-in zoom-in-95 duration-700">
+            <div className="space-y-2">
+              <h2 className="text-2xl md:text-4xl font-black text-white uppercase tracking-widest">Sign In Required</h2>
+              <p className="text-gray-500 text-xs md:text-sm font-bold uppercase tracking-[0.3em]">Sign in to chat and talk with WASO</p>
+            </div>
+            <button
+              onClick={() => setIsAuthOpen(true)}
+              className="px-10 py-4 bg-blue-600 hover:bg-blue-500 text-white rounded-2xl font-black uppercase tracking-widest text-sm transition-all shadow-[0_10px_30px_rgba(37,99,235,0.2)]"
+            >
+              Sign In
+            </button>
+          </div>
+        ) : mode === AppMode.CHAT ? (
+          currentSessionId && !currentSession ? (
+            <div className="flex items-center justify-center h-full text-xs font-black text-blue-400 uppercase tracking-widest animate-pulse">Loading session...</div>
+          ) : currentSessionId ? (
             <ChatInterface 
               sessionId={currentSessionId}
-              initialMessages={currentSession?.messages || []}
+              initialMessages={currentPath}
+              branches={currentPath.map(node => siblingIds(currentSession!.nodes, node))}
+              showTimestamps={currentSession?.origin === 'live'}
               onUpdateMessages={(msgs) => handleUpdateMessages(currentSessionId, msgs)}
+              onSelectBranch={(messageId) => handleSelectBranch(currentSessionId, messageId)}
+              focusMessageId={focusTarget?.sessionId === currentSessionId ? focusTarget.messageId : undefined}
+              onFocusHandled={() => setFocusTarget(null)}
+              settings={currentSession?.settings ?? DEFAULT_GENERATION_SETTINGS}
+              onUpdateSettings={(settings) => handleUpdateSettings(currentSessionId, settings)}
+              persona={findPersona(currentSession?.personaId)}
+              toolContext={toolContext}
+              knowledgeBase={knowledgeBase}
+              speechPlayer={speechPlayer}
             />
           ) : (
             <div className="flex flex-col items-center justify-center h-full text-center p-8 space-y-6 animate-in fade-in zoom-in-95 duration-700">
@@ -219,7 +599,13 @@ const App: React.FC = () => {
             </div>
           )
         ) : (
-          <LiveInterface />
+          <LiveInterface
+            onTranscript={handleLiveTranscript}
+            personas={personas}
+            persona={findPersona(selectedPersonaId)}
+            onSelectPersona={selectPersona}
+            toolContext={toolContext}
+          />
         )}
       </main>
     </div>
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { encodeMockToken } from '../../services/auth/mockToken';
+import { requireUser, setTokenVerifier } from './auth';
+
+const response = () => {
+  const res: any = { statusCode: 0, body: null };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (body: unknown) => { res.body = body; return res; };
+  return res;
+};
+
+const request = () => ({
+  headers: { authorization: `Bearer ${encodeMockToken({ uid: 'u1', email: null, name: null, exp: Date.now() / 1000 + 60 })}` }
+});
+
+describe('requireUser with AUTH_PROVIDER=mock', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    setTokenVerifier(null);
+  });
+
+  it('accepts mock tokens in development', async () => {
+    vi.stubEnv('AUTH_PROVIDER', 'mock');
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('VERCEL_ENV', '');
+    expect(await requireUser(request(), response())).toEqual({ uid: 'u1', email: undefined });
+  });
+
+  it.each([['NODE_ENV', 'production'], ['VERCEL_ENV', 'production'], ['VERCEL_ENV', 'preview']])('refuses them when %s is %s', async (name, value) => {
+    vi.stubEnv('AUTH_PROVIDER', 'mock');
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv(name, value);
+    const res = response();
+    expect(await requireUser(request(), res)).toBeNull();
+    expect(res.statusCode).toBe(500);
+    expect(res.body.code).toBe('internal');
+  });
+});
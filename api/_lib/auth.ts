@@ -0,0 +1,101 @@
+import { createRemoteJWKSet, jwtVerify, decodeJwt } from "jose";
+import { decodeMockToken } from "../../services/auth/mockToken";
+import { sendError } from "./errors";
+import { isProduction } from "./env";
+
+export interface VerifiedUser {
+  uid: string;
+  email?: string;
+}
+
+export interface TokenVerifier {
+  verify(token: string): Promise<VerifiedUser>;
+}
+
+export class AuthTokenError extends Error {}
+
+const FIREBASE_JWKS_URL = 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+
+/**
+ * Verifies Firebase ID tokens against Google's public keys. When FIREBASE_AUTH_EMULATOR_HOST
+ * is set the emulator's unsigned tokens are accepted, matching firebase-admin's behaviour.
+ */
+export class FirebaseTokenVerifier implements TokenVerifier {
+  private jwks = createRemoteJWKSet(new URL(FIREBASE_JWKS_URL));
+
+  constructor(private projectId: string, private emulator = false) {}
+
+  async verify(token: string): Promise<VerifiedUser> {
+    const issuer = `https://securetoken.google.com/${this.projectId}`;
+    let payload;
+    try {
+      if (this.emulator) {
+        payload = decodeJwt(token);
+        if (payload.iss !== issuer || payload.aud !== this.projectId) throw new Error('wrong project');
+        if (!payload.exp || payload.exp * 1000 < Date.now()) throw new Error('expired');
+      } else {
+        payload = (await jwtVerify(token, this.jwks, { issuer, audience: this.projectId })).payload;
+      }
+    } catch (error: any) {
+      throw new AuthTokenError(`Invalid session token: ${error.message}`);
+    }
+    if (!payload.sub) throw new AuthTokenError('Invalid session token: missing subject.');
+    return { uid: payload.sub, email: payload.email as string | undefined };
+  }
+}
+
+// Accepts the unsigned tokens of the offline mock provider. Refused in production and preview.
+export class MockTokenVerifier implements TokenVerifier {
+  async verify(token: string): Promise<VerifiedUser> {
+    const claims = decodeMockToken(token);
+    if (!claims) throw new AuthTokenError('Invalid session token.');
+    if (claims.exp * 1000 < Date.now()) throw new AuthTokenError('Session token expired.');
+    return { uid: claims.uid, email: claims.email || undefined };
+  }
+}
+
+let verifier: TokenVerifier | null = null;
+
+export function getTokenVerifier(): TokenVerifier {
+  if (!verifier) {
+    if (process.env.AUTH_PROVIDER === 'mock') {
+      // Anyone can forge a mock token, so a deployment with this setting rejects every request
+      if (isProduction()) throw new Error('Server configuration error: AUTH_PROVIDER=mock is not allowed in production.');
+      verifier = new MockTokenVerifier();
+    } else {
+      const projectId = process.env.FIREBASE_PROJECT_ID;
+      if (!projectId) throw new Error('Server configuration error: FIREBASE_PROJECT_ID missing.');
+      verifier = new FirebaseTokenVerifier(projectId, !!process.env.FIREBASE_AUTH_EMULATOR_HOST);
+    }
+  }
+  return verifier;
+}
+
+// Test hook: swap the verifier without touching environment variables
+export function setTokenVerifier(next: TokenVerifier | null) {
+  verifier = next;
+}
+
+/**
+ * Resolves the signed-in user from the `Authorization: Bearer` header. On failure the
+ * error response has already been sent and null is returned.
+ */
+export async function requireUser(req: any, res: any): Promise<VerifiedUser | null> {
+  const header: string = req.headers?.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  if (!token) {
+    sendError(res, 'unauthorized', 'Sign in required.');
+    return null;
+  }
+  try {
+    return await getTokenVerifier().verify(token);
+  } catch (error: any) {
+    if (error instanceof AuthTokenError) {
+      sendError(res, 'unauthorized', error.message);
+    } else {
+      console.error('Auth Verification Error:', error);
+      sendError(res, 'internal', error.message || 'Unable to verify session.');
+    }
+    return null;
+  }
+}
@@ -0,0 +1,3 @@
+// Deployed builds, where development stand-ins (mock auth, file sync storage) must not run
+export const isProduction = () =>
+  process.env.NODE_ENV === 'production' || ['production', 'preview'].includes(process.env.VERCEL_ENV || '');
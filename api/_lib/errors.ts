@@ -0,0 +1,74 @@
+import { ApiError as GenAiApiError } from "@google/genai";
+import { ApiErrorCode } from "../../types";
+import { withRetry } from "../../services/retry";
+
+const STATUS: Record<ApiErrorCode, number> = {
+  invalid_input: 400,
+  unauthorized: 401,
+  safety_blocked: 422,
+  quota_exceeded: 429,
+  missing_api_key: 500,
+  internal: 500,
+  upstream_error: 502,
+  upstream_timeout: 504
+};
+
+// A failure with a code from the error contract; thrown by helpers and sent by the handlers
+export class ApiError extends Error {
+  constructor(readonly code: ApiErrorCode, message: string, readonly retryable = false) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Sends `{ error, code }`; `status` overrides the code's default (405, 409, 413)
+export function sendError(res: any, code: ApiErrorCode, error: string, status = STATUS[code], extra: Record<string, unknown> = {}) {
+  res.status(status).json({ error, code, ...extra });
+}
+
+export function sendApiError(res: any, error: ApiError) {
+  sendError(res, error.code, error.message, STATUS[error.code], error.retryable ? { retryable: true } : {});
+}
+
+const isAbort = (error: any) => error?.name === 'AbortError' || error?.name === 'TimeoutError';
+
+// Maps anything thrown while calling Gemini onto the error contract
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof GenAiApiError) {
+    if (error.status === 429) return new ApiError('quota_exceeded', 'Gemini is receiving too many requests. Try again in a minute.', true);
+    if (error.status === 400) return new ApiError('invalid_input', error.message);
+    if (error.status === 401 || error.status === 403) return new ApiError('missing_api_key', 'The server\'s Gemini API key was rejected.');
+    if (error.status === 408 || error.status === 504) return new ApiError('upstream_timeout', 'Gemini took too long to answer.', true);
+    if (error.status >= 500) return new ApiError('upstream_error', 'Gemini is temporarily unavailable.', true);
+  }
+  if (isAbort(error)) return new ApiError('upstream_timeout', 'Gemini took too long to answer.', true);
+  // undici reports refused and reset connections as "fetch failed"
+  if (error instanceof TypeError && /fetch failed/i.test(error.message)) {
+    return new ApiError('upstream_error', 'Gemini could not be reached.', true);
+  }
+  return new ApiError('internal', (error as any)?.message || 'AI processing failed.');
+}
+
+// Retries transient upstream failures with backoff; whatever still fails is thrown as ApiError
+export async function retryUpstream<T>(task: () => Promise<T>, signal?: AbortSignal, canRetry: () => boolean = () => true): Promise<T> {
+  try {
+    return await withRetry(task, { shouldRetry: (error) => canRetry() && toApiError(error).retryable, signal });
+  } catch (error) {
+    throw toApiError(error);
+  }
+}
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+// The safety error for a response whose prompt or answer was blocked, or null
+export function safetyBlock(response: any): ApiError | null {
+  if (response?.promptFeedback?.blockReason) {
+    return new ApiError('safety_blocked', 'The request was blocked by the safety filters.');
+  }
+  const reason = response?.candidates?.[0]?.finishReason;
+  if (reason && BLOCKED_FINISH_REASONS.includes(reason)) {
+    return new ApiError('safety_blocked', 'The answer was blocked by the safety filters.');
+  }
+  return null;
+}
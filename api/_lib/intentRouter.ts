@@ -0,0 +1,134 @@
+import { GoogleGenAI } from "@google/genai";
+import { DocumentFormat } from "../../types";
+import { CLASSIFIER_MODEL } from "../../services/generationConfig";
+
+export type RoutedIntent =
+  | { type: 'chat' }
+  | { type: 'image' }
+  | { type: 'document'; format: DocumentFormat };
+
+export interface RuleResult {
+  intent: RoutedIntent;
+  // Low confidence results are handed to the classifier when it is enabled
+  confident: boolean;
+}
+
+const IMAGE_VERBS = 'generate|create|make|draw|paint|render|design|produce|sketch|illustrate|imagine';
+const IMAGE_NOUNS = 'image|picture|photo|photograph|illustration|drawing|painting|logo|wallpaper|artwork|art|portrait|poster|icon|sketch';
+const IMAGE_NOUN = new RegExp(`\\b(${IMAGE_NOUNS})s?\\b`, 'i');
+const DRAW_VERB = /^\s*(please\s+)?((can|could|would|will)\s+you\s+(please\s+)?)?(draw|paint|sketch|illustrate)\b/i;
+const BN_IMAGE_NOUN = /(ছবি|চিত্র|লোগো|পোস্টার|ওয়ালপেপার)/;
+const BN_IMAGE_VERB = /(তৈরি|বানাও|বানিয়ে|আঁকো|আঁক|এঁকে)/;
+
+const DOC_VERBS = 'generate|create|make|prepare|export|build|write|give me';
+const PDF_NOUNS = 'pdf|report document';
+const PPTX_NOUNS = 'pptx|powerpoint|slide deck|slides?|presentation|deck';
+const DOC_VERB = new RegExp(`\\b(${DOC_VERBS})\\b`, 'i');
+const PDF_NOUN = new RegExp(`\\b(${PDF_NOUNS})s?\\b|পিডিএফ`, 'i');
+const PPTX_NOUN = new RegExp(`\\b(${PPTX_NOUNS})\\b|স্লাইড|প্রেজেন্টেশন`, 'i');
+const BN_DOC_VERB = /(তৈরি|বানাও|বানিয়ে)/;
+
+// The noun has to be what the verb makes: "make me a short PDF", not "write a function that merges PDFs".
+// Up to three words may sit between them, none of which starts a clause or a prepositional phrase.
+const objectOf = (verbs: string, nouns: string) => new RegExp(
+  `\\b(${verbs})\\s+(me\\s+)?((?!(that|which|who|to|for|in|of|on|with|from|and|using|about)\\b)[\\w'-]+\\s+){0,3}?(${nouns})s?\\b(?!\\s+(transition|layer|component|gallery|viewer|parser|library|api|file\\s+format)s?\\b)`,
+  'i'
+);
+const IMAGE_OBJECT = objectOf(IMAGE_VERBS, IMAGE_NOUNS);
+const PDF_OBJECT = objectOf(DOC_VERBS, PDF_NOUNS);
+const PPTX_OBJECT = objectOf(DOC_VERBS, PPTX_NOUNS);
+// "summarize this as a PDF", "turn my notes into slides"
+const AS_FORMAT = /\b(as|into|in)\s+(an?\s+)?(pdf|pptx|powerpoint|slides|slide deck|presentation)\b/i;
+// Programming requests mention files and images without wanting one made
+const CODE_CONTEXT = /\b(code|function|script|program|class|method|component|module|library|api|endpoint|css|html|javascript|typescript|python|java|react|sql|regex|cli|bash|algorithm|folder|directory)\b|```/i;
+
+// Questions about images ("how do I make a logo in Figma?") should stay in chat
+const QUESTION = /^\s*(how|what|why|which|who|where|when|explain|describe|analy[sz]e|is|are|does|do)\b|[?？]\s*$/i;
+const POLITE_REQUEST = /^\s*(please\s+)?(can|could|would|will)\s+you\s+(please\s+)?(generate|create|make|draw|paint|render|design|produce|sketch|prepare|export|build|write|give)\b/i;
+const BN_QUESTION = /(কিভাবে|কীভাবে|কেন|বর্ণনা করো|ব্যাখ্যা)/;
+const ANALYSIS = /\b(this|the|attached|uploaded|my)\s+(image|picture|photo|file|pdf)\b|\b(in|from)\s+(this|the)\s+(image|picture|photo)\b/i;
+
+/**
+ * Deterministic routing used when the classifier is disabled, fails, or is not needed.
+ * Only a verb acting on a file or image noun is confident; a loose mention of both stays in
+ * chat unless the classifier says otherwise.
+ */
+export function classifyWithRules(text: string, hasAttachments = false): RuleResult {
+  const prompt = text.trim();
+  if (!prompt) return { intent: { type: 'chat' }, confident: true };
+
+  const isQuestion = !POLITE_REQUEST.test(prompt) && (QUESTION.test(prompt) || BN_QUESTION.test(prompt));
+  const isCode = CODE_CONTEXT.test(prompt);
+  // Editing an uploaded photo is still image generation, but less certainly so
+  const refersToExisting = ANALYSIS.test(prompt) || hasAttachments;
+
+  const wantsPptx = PPTX_OBJECT.test(prompt);
+  const wantsPdf = PDF_OBJECT.test(prompt);
+  const banglaDoc = BN_DOC_VERB.test(prompt) && (PDF_NOUN.test(prompt) || PPTX_NOUN.test(prompt));
+  const asFormat = AS_FORMAT.exec(prompt);
+  if (!isCode && (wantsPdf || wantsPptx || banglaDoc || asFormat)) {
+    const pptx = wantsPptx || (!wantsPdf && (asFormat ? !/pdf/i.test(asFormat[3]) : PPTX_NOUN.test(prompt)));
+    const intent: RoutedIntent = { type: 'document', format: pptx ? 'pptx' : 'pdf' };
+    return { intent, confident: !isQuestion };
+  }
+
+  const englishImage = DRAW_VERB.test(prompt) || IMAGE_OBJECT.test(prompt);
+  const banglaImage = BN_IMAGE_NOUN.test(prompt) && BN_IMAGE_VERB.test(prompt);
+  if (!isCode && (englishImage || banglaImage)) {
+    if (isQuestion) return { intent: { type: 'chat' }, confident: false };
+    return { intent: { type: 'image' }, confident: !refersToExisting };
+  }
+
+  // A file or image noun near a creation verb, in code, or without a verb is ambiguous
+  const mentionsFile = PDF_NOUN.test(prompt) || PPTX_NOUN.test(prompt);
+  const mentionsImage = IMAGE_NOUN.test(prompt) || BN_IMAGE_NOUN.test(prompt);
+  const loose = (mentionsFile && DOC_VERB.test(prompt)) || mentionsImage;
+  return { intent: { type: 'chat' }, confident: !loose || (mentionsImage && refersToExisting && !mentionsFile) };
+}
+
+const CLASSIFIER_SCHEMA = {
+  type: 'object',
+  properties: {
+    intent: { type: 'string', enum: ['chat', 'image', 'document'] },
+    format: { type: 'string', enum: ['pdf', 'pptx'] }
+  },
+  required: ['intent']
+};
+
+async function classifyWithModel(ai: GoogleGenAI, text: string): Promise<RoutedIntent | null> {
+  const response = await ai.models.generateContent({
+    model: CLASSIFIER_MODEL,
+    contents: [{ role: 'user', parts: [{ text }] }],
+    config: {
+      systemInstruction: 'Classify what the user wants. "image": they want a new picture generated. '
+        + '"document": they want a PDF or PowerPoint file produced. "chat": anything else, including questions about images or files. '
+        + 'Messages may be in English or Bangla.',
+      responseMimeType: 'application/json',
+      responseJsonSchema: CLASSIFIER_SCHEMA,
+      temperature: 0
+    }
+  });
+  const parsed = JSON.parse(response.text || '{}');
+  if (parsed.intent === 'image' || parsed.intent === 'chat') return { type: parsed.intent };
+  if (parsed.intent === 'document') return { type: 'document', format: parsed.format === 'pptx' ? 'pptx' : 'pdf' };
+  return null;
+}
+
+/**
+ * Routes a prompt to chat, image or document generation. The model classifier only
+ * runs for prompts the rules find ambiguous, and any failure falls back to the rules.
+ */
+export async function routeIntent(
+  ai: GoogleGenAI,
+  text: string,
+  options: { useClassifier: boolean; hasAttachments?: boolean }
+): Promise<RoutedIntent> {
+  const rules = classifyWithRules(text, options.hasAttachments);
+  if (rules.confident || !options.useClassifier) return rules.intent;
+  try {
+    return (await classifyWithModel(ai, text)) || rules.intent;
+  } catch (error) {
+    console.warn('Intent classifier failed, using rules:', error);
+    return rules.intent;
+  }
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryRateLimitStore, enforceDailyQuota, enforceRateLimit, refundDailyQuota, setRateLimitStore } from './rateLimit';
+
+const response = () => {
+  const res: any = { statusCode: 0, body: null, headers: {} };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (body: unknown) => { res.body = body; return res; };
+  res.setHeader = (name: string, value: string) => { res.headers[name] = value; };
+  return res;
+};
+
+describe('MemoryRateLimitStore', () => {
+  const bucket = { capacity: 2, refillPerSecond: 0.5 };
+
+  it('allows a burst, then refills one token per interval', async () => {
+    const store = new MemoryRateLimitStore();
+    expect(await store.consumeToken('k', bucket, 0)).toEqual({ allowed: true, retryAfterMs: 0 });
+    expect(await store.consumeToken('k', bucket, 0)).toEqual({ allowed: true, retryAfterMs: 0 });
+    expect(await store.consumeToken('k', bucket, 0)).toEqual({ allowed: false, retryAfterMs: 2000 });
+    expect(await store.consumeToken('k', bucket, 1500)).toEqual({ allowed: false, retryAfterMs: 500 });
+    expect((await store.consumeToken('k', bucket, 2000)).allowed).toBe(true);
+    // Never refills beyond the capacity
+    expect((await store.consumeToken('k', bucket, 60_000)).allowed).toBe(true);
+    expect((await store.consumeToken('k', bucket, 60_000)).allowed).toBe(true);
+    expect((await store.consumeToken('k', bucket, 60_000)).allowed).toBe(false);
+    expect((await store.consumeToken('other', bucket, 60_000)).allowed).toBe(true);
+  });
+
+  it('counts quota up to the limit and releases it without going below zero', async () => {
+    const store = new MemoryRateLimitStore();
+    expect(await store.consumeQuota('q', 2, 3)).toEqual({ allowed: true, used: 2 });
+    expect(await store.consumeQuota('q', 2, 3)).toEqual({ allowed: false, used: 2 });
+    await store.releaseQuota('q', 5);
+    expect(await store.consumeQuota('q', 3, 3)).toEqual({ allowed: true, used: 3 });
+    // Releasing a counter that was never charged creates nothing
+    await store.releaseQuota('unknown', 1);
+    expect(await store.consumeQuota('unknown', 1, 1)).toEqual({ allowed: true, used: 1 });
+  });
+});
+
+describe('rate limit enforcement', () => {
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+    vi.stubEnv('RATE_LIMIT', '');
+    vi.stubEnv('RATE_LIMIT_BURST', '2');
+    vi.stubEnv('RATE_LIMIT_PER_MINUTE', '6');
+    vi.stubEnv('DAILY_QUOTA_CHAT', '2');
+    store = new MemoryRateLimitStore();
+    setRateLimitStore(store);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    setRateLimitStore(null);
+  });
+
+  it('answers an empty bucket with a 429 and Retry-After in seconds', async () => {
+    expect(await enforceRateLimit(response(), 'user:u1')).toBe(true);
+    expect(await enforceRateLimit(response(), 'user:u1')).toBe(true);
+    const res = response();
+    expect(await enforceRateLimit(res, 'user:u1')).toBe(false);
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe('10');
+    expect(res.body).toMatchObject({ code: 'quota_exceeded', retryAfter: 10 });
+
+    vi.advanceTimersByTime(10_000);
+    expect(await enforceRateLimit(response(), 'user:u1')).toBe(true);
+  });
+
+  it('retries a used-up daily quota after midnight UTC and starts over the next day', async () => {
+    expect(await enforceDailyQuota(response(), 'user:u1', 'chat')).toBe(true);
+    expect(await enforceDailyQuota(response(), 'user:u1', 'chat')).toBe(true);
+    const res = response();
+    expect(await enforceDailyQuota(res, 'user:u1', 'chat')).toBe(false);
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe(String(12 * 3600));
+    // Other request types have their own quota
+    expect(await enforceDailyQuota(response(), 'user:u1', 'image')).toBe(true);
+
+    vi.setSystemTime(new Date('2026-03-02T00:00:01Z'));
+    expect(await enforceDailyQuota(response(), 'user:u1', 'chat')).toBe(true);
+  });
+
+  it('gives back quota for failed requests', async () => {
+    expect(await enforceDailyQuota(response(), 'user:u1', 'chat', 2)).toBe(true);
+    await refundDailyQuota('user:u1', 'chat', 1);
+    expect(await enforceDailyQuota(response(), 'user:u1', 'chat')).toBe(true);
+    expect(await enforceDailyQuota(response(), 'user:u1', 'chat')).toBe(false);
+  });
+
+  it('never fails a request because the refund failed', async () => {
+    vi.spyOn(store, 'releaseQuota').mockRejectedValueOnce(new Error('store down'));
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(refundDailyQuota('user:u1', 'chat')).resolves.toBeUndefined();
+    expect(logged).toHaveBeenCalled();
+    logged.mockRestore();
+  });
+
+  it('lets everything through with RATE_LIMIT=off', async () => {
+    vi.stubEnv('RATE_LIMIT', 'off');
+    for (let i = 0; i < 5; i++) {
+      expect(await enforceRateLimit(response(), 'user:u1')).toBe(true);
+      expect(await enforceDailyQuota(response(), 'user:u1', 'chat')).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,192 @@
+import { RequestType } from "../../types";
+import { sendError } from "./errors";
+
+// Daily quotas are kept per request type; Live sessions are counted by the token endpoint
+export type QuotaType = RequestType | 'live';
+
+export interface BucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface UsageRecord {
+  subject: string;
+  type: QuotaType;
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  timestamp: number;
+}
+
+export interface RateLimitStore {
+  // Takes one token from the subject's bucket; when empty, says how long until the next one
+  consumeToken(key: string, bucket: BucketConfig, now: number): Promise<{ allowed: boolean; retryAfterMs: number }>;
+  // Adds `amount` to a daily counter unless that would exceed `limit`
+  consumeQuota(key: string, amount: number, limit: number): Promise<{ allowed: boolean; used: number }>;
+  // Gives back `amount` taken by consumeQuota, never going below zero
+  releaseQuota(key: string, amount: number): Promise<void>;
+  recordUsage(record: UsageRecord): Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_BUCKETS = 10000;
+const MAX_USAGE_RECORDS = 5000;
+
+/**
+ * Per-process store. On serverless hosts every instance keeps its own counters, so limits
+ * are approximate there; plug in a shared store (e.g. Redis) with setRateLimitStore.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number; idleMs: number }>();
+  private quotas = new Map<string, number>();
+  readonly usage: UsageRecord[] = [];
+
+  async consumeToken(key: string, bucket: BucketConfig, now: number) {
+    if (this.buckets.size > MAX_BUCKETS) this.sweep(now);
+    const state = this.buckets.get(key);
+    const elapsed = state ? (now - state.updatedAt) / 1000 : 0;
+    const tokens = Math.min(bucket.capacity, state ? state.tokens + elapsed * bucket.refillPerSecond : bucket.capacity);
+    const allowed = tokens >= 1;
+    const idleMs = (bucket.capacity / bucket.refillPerSecond) * 1000;
+    this.buckets.set(key, { tokens: allowed ? tokens - 1 : tokens, updatedAt: now, idleMs });
+    return { allowed, retryAfterMs: allowed ? 0 : Math.ceil(((1 - tokens) / bucket.refillPerSecond) * 1000) };
+  }
+
+  async consumeQuota(key: string, amount: number, limit: number) {
+    const used = this.quotas.get(key) || 0;
+    if (used + amount > limit) return { allowed: false, used };
+    this.quotas.set(key, used + amount);
+    return { allowed: true, used: used + amount };
+  }
+
+  async releaseQuota(key: string, amount: number) {
+    const used = this.quotas.get(key);
+    if (used !== undefined) this.quotas.set(key, Math.max(0, used - amount));
+  }
+
+  async recordUsage(record: UsageRecord) {
+    this.usage.push(record);
+    if (this.usage.length > MAX_USAGE_RECORDS) this.usage.splice(0, this.usage.length - MAX_USAGE_RECORDS);
+  }
+
+  // Drops buckets that have refilled completely and counters from previous days
+  private sweep(now: number) {
+    this.buckets.forEach((state, key) => {
+      if (now - state.updatedAt > state.idleMs) this.buckets.delete(key);
+    });
+    const today = dayKey(now);
+    this.quotas.forEach((_, key) => {
+      if (!key.endsWith(`:${today}`)) this.quotas.delete(key);
+    });
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) store = new MemoryRateLimitStore();
+  return store;
+}
+
+export function setRateLimitStore(next: RateLimitStore | null) {
+  store = next;
+}
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Limits can be tuned per deployment; RATE_LIMIT=off disables them for local development
+export const rateLimitConfig = () => ({
+  enabled: process.env.RATE_LIMIT !== 'off',
+  bucket: {
+    capacity: envNumber('RATE_LIMIT_BURST', 10),
+    refillPerSecond: envNumber('RATE_LIMIT_PER_MINUTE', 20) / 60
+  },
+  dailyQuota: {
+    chat: envNumber('DAILY_QUOTA_CHAT', 300),
+    image: envNumber('DAILY_QUOTA_IMAGE', 40),
+    tts: envNumber('DAILY_QUOTA_TTS', 300),
+    document: envNumber('DAILY_QUOTA_DOCUMENT', 30),
+    embed: envNumber('DAILY_QUOTA_EMBED', 500),
+    live: envNumber('DAILY_QUOTA_LIVE', 20)
+  } as Record<QuotaType, number>
+});
+
+const dayKey = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+const quotaKey = (subject: string, type: QuotaType, now: number) => `quota:${subject}:${type}:${dayKey(now)}`;
+
+// Every limited endpoint requires sign-in, so callers are limited per account
+export const rateLimitSubject = (user: { uid: string }) => `user:${user.uid}`;
+
+function tooManyRequests(res: any, retryAfterMs: number, error: string) {
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  res.setHeader('Retry-After', String(retryAfter));
+  sendError(res, 'quota_exceeded', error, 429, { retryAfter });
+}
+
+/**
+ * Token-bucket check for one request. Sends a 429 with Retry-After and returns false when
+ * the subject is over the limit.
+ */
+export async function enforceRateLimit(res: any, subject: string): Promise<boolean> {
+  const config = rateLimitConfig();
+  if (!config.enabled) return true;
+  const { allowed, retryAfterMs } = await getRateLimitStore().consumeToken(`rate:${subject}`, config.bucket, Date.now());
+  if (!allowed) tooManyRequests(res, retryAfterMs, 'Too many requests. Please slow down.');
+  return allowed;
+}
+
+/**
+ * Charges `amount` units of the subject's daily quota for `type` (UTC days). Sends a 429
+ * that retries after midnight UTC and returns false when the quota is used up.
+ */
+export async function enforceDailyQuota(res: any, subject: string, type: QuotaType, amount = 1): Promise<boolean> {
+  const config = rateLimitConfig();
+  if (!config.enabled) return true;
+  const now = Date.now();
+  const limit = config.dailyQuota[type];
+  const { allowed } = await getRateLimitStore().consumeQuota(quotaKey(subject, type, now), amount, limit);
+  if (!allowed) {
+    const untilMidnight = DAY_MS - (now % DAY_MS);
+    tooManyRequests(res, untilMidnight, `Daily ${type} limit of ${limit} reached. It resets at midnight UTC.`);
+  }
+  return allowed;
+}
+
+/**
+ * Gives back quota charged by enforceDailyQuota for a request that failed, so errors and
+ * timeouts do not use up the allowance. Like usage accounting, it never fails the request.
+ */
+export async function refundDailyQuota(subject: string, type: QuotaType, amount = 1) {
+  if (!rateLimitConfig().enabled) return;
+  try {
+    await getRateLimitStore().releaseQuota(quotaKey(subject, type, Date.now()), amount);
+  } catch (error) {
+    console.error('Quota refund failed:', error);
+  }
+}
+
+/**
+ * Records token usage reported by Gemini. Accounting must never fail a request, so
+ * errors are only logged.
+ */
+export async function recordUsage(subject: string, type: QuotaType, model: string, usage: any) {
+  if (!usage) return;
+  try {
+    await getRateLimitStore().recordUsage({
+      subject,
+      type,
+      model,
+      promptTokens: usage.promptTokenCount || 0,
+      outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+      totalTokens: usage.totalTokenCount || 0,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    console.error('Usage accounting failed:', error);
+  }
+}
@@ -0,0 +1,28 @@
+// Minimal server-sent events helpers for streaming Gemini output to the browser.
+
+export function openEventStream(res: any) {
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable proxy buffering so chunks reach the client immediately
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders?.();
+}
+
+export function sendEvent(res: any, event: string, data: unknown) {
+  if (res.writableEnded) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Returns an AbortSignal that fires when the client goes away, so the upstream
+ * generation can be cancelled instead of running to completion for nobody.
+ */
+export function clientDisconnectSignal(res: any): AbortSignal {
+  const controller = new AbortController();
+  res.on?.('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+}
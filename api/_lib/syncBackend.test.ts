@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ChatSession } from '../../types';
+import { MemorySyncBackend } from './syncBackend';
+
+const session = (id: string, title = 'Chat'): ChatSession => ({ id, title, nodes: [], activeLeafId: null, timestamp: 1 });
+
+describe('MemorySyncBackend', () => {
+  it('numbers writes with the user revision and rejects stale updates', async () => {
+    const backend = new MemorySyncBackend();
+    const first = await backend.put('u1', 'a', session('a'), 0);
+    expect(first).toMatchObject({ ok: true, record: { id: 'a', revision: 1, deleted: false } });
+
+    const second = await backend.put('u1', 'a', session('a', 'Renamed'), 1);
+    expect(second).toMatchObject({ ok: true, record: { revision: 2 } });
+
+    const stale = await backend.put('u1', 'a', session('a', 'Stale'), 1);
+    expect(stale.ok).toBe(false);
+    if ('current' in stale) expect(stale.current).toMatchObject({ revision: 2, session: { title: 'Renamed' } });
+  });
+
+  it('lets deletions win over a stale base and keeps them as tombstones', async () => {
+    const backend = new MemorySyncBackend();
+    await backend.put('u1', 'a', session('a'), 0);
+    await backend.put('u1', 'a', session('a', 'Renamed'), 1);
+
+    const deleted = await backend.put('u1', 'a', null, 0);
+    expect(deleted).toMatchObject({ ok: true, record: { id: 'a', revision: 3, deleted: true, session: null } });
+  });
+
+  it('lists only records changed after a revision', async () => {
+    const backend = new MemorySyncBackend();
+    await backend.put('u1', 'a', session('a'), 0);
+    await backend.put('u1', 'b', session('b'), 0);
+    await backend.put('u1', 'a', null, 1);
+
+    expect(await backend.listSince('u1', 0)).toMatchObject({ revision: 3, records: expect.arrayContaining([{ id: 'a', revision: 3, deleted: true, session: null }]) });
+    const { records, revision } = await backend.listSince('u1', 2);
+    expect(revision).toBe(3);
+    expect(records.map(r => r.id)).toEqual(['a']);
+    expect((await backend.listSince('u1', 3)).records).toEqual([]);
+  });
+
+  it('keeps users apart', async () => {
+    const backend = new MemorySyncBackend();
+    await backend.put('u1', 'a', session('a'), 0);
+    expect(await backend.listSince('u2', 0)).toEqual({ records: [], revision: 0 });
+  });
+});
@@ -0,0 +1,130 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ChatSession } from "../../types";
+import { isProduction } from "./env";
+
+// One stored session per id; deletions are kept as tombstones so other devices learn about them
+export interface SyncRecord {
+  id: string;
+  revision: number;
+  deleted: boolean;
+  session: ChatSession | null;
+}
+
+export type PutResult =
+  | { ok: true; record: SyncRecord }
+  | { ok: false; current: SyncRecord };
+
+export interface SyncBackend {
+  // Records changed after `since`, plus the user's latest revision
+  listSince(uid: string, since: number): Promise<{ records: SyncRecord[]; revision: number }>;
+  // Optimistic concurrency: writes only succeed when baseRevision matches the stored record
+  put(uid: string, id: string, session: ChatSession | null, baseRevision: number): Promise<PutResult>;
+}
+
+interface UserData {
+  revision: number;
+  records: Record<string, SyncRecord>;
+}
+
+/**
+ * Shared logic for backends that load and save a user's whole data set at once.
+ * Writes are serialised per user so revisions stay monotonic.
+ */
+abstract class DocumentSyncBackend implements SyncBackend {
+  private locks = new Map<string, Promise<unknown>>();
+
+  protected abstract load(uid: string): Promise<UserData>;
+  protected abstract save(uid: string, data: UserData): Promise<void>;
+
+  private withLock<T>(uid: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(uid) || Promise.resolve();
+    const run = previous.then(task, task);
+    this.locks.set(uid, run.catch(() => {}));
+    return run;
+  }
+
+  async listSince(uid: string, since: number) {
+    const data = await this.load(uid);
+    const records = Object.values(data.records).filter(r => r.revision > since);
+    return { records, revision: data.revision };
+  }
+
+  put(uid: string, id: string, session: ChatSession | null, baseRevision: number): Promise<PutResult> {
+    return this.withLock(uid, async () => {
+      const data = await this.load(uid);
+      const current = data.records[id];
+      // Deletions always win; updates must be based on the latest stored revision
+      if (session && current && current.revision !== baseRevision) {
+        return { ok: false as const, current };
+      }
+      data.revision += 1;
+      const record: SyncRecord = { id, revision: data.revision, deleted: !session, session };
+      data.records[id] = record;
+      await this.save(uid, data);
+      return { ok: true as const, record };
+    });
+  }
+}
+
+export class MemorySyncBackend extends DocumentSyncBackend {
+  private users = new Map<string, UserData>();
+
+  protected async load(uid: string): Promise<UserData> {
+    return structuredClone(this.users.get(uid) || { revision: 0, records: {} });
+  }
+
+  protected async save(uid: string, data: UserData) {
+    this.users.set(uid, structuredClone(data));
+  }
+}
+
+// Development stand-in: one JSON file per user under SYNC_DATA_DIR (default .data/sync)
+export class FileSyncBackend extends DocumentSyncBackend {
+  constructor(private dir: string) {
+    super();
+  }
+
+  private fileFor(uid: string) {
+    return path.join(this.dir, `${encodeURIComponent(uid)}.json`);
+  }
+
+  protected async load(uid: string): Promise<UserData> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(uid), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return { revision: 0, records: {} };
+      throw error;
+    }
+  }
+
+  protected async save(uid: string, data: UserData) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = this.fileFor(uid);
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(data));
+    await fs.rename(`${file}.tmp`, file);
+  }
+}
+
+let backend: SyncBackend | null = null;
+
+/**
+ * The configured backend. Deployments have no writable disk and lose memory between
+ * invocations, so they must plug in a shared store with setSyncBackend; the file and memory
+ * backends are only picked in development (SYNC_BACKEND=file, the default, or memory).
+ */
+export function getSyncBackend(): SyncBackend {
+  if (!backend) {
+    if (isProduction()) {
+      throw new Error('Session sync has no storage configured. Register a shared SyncBackend with setSyncBackend.');
+    }
+    backend = process.env.SYNC_BACKEND === 'memory'
+      ? new MemorySyncBackend()
+      : new FileSyncBackend(process.env.SYNC_DATA_DIR || path.join(process.cwd(), '.data', 'sync'));
+  }
+  return backend;
+}
+
+export function setSyncBackend(next: SyncBackend | null) {
+  backend = next;
+}
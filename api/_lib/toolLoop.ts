@@ -0,0 +1,151 @@
+import { FunctionCallingConfigMode, GoogleGenAI } from "@google/genai";
+import { GeminiContent, GeminiPart, ToolCall, ToolStep } from "../../types";
+import { toolRegistry, toolResponsePart } from "../../services/tools";
+import { MAX_TOOL_ROUNDS, UPSTREAM_TIMEOUT_MS } from "../../constants";
+import { ApiError, retryUpstream, safetyBlock } from "./errors";
+
+export interface ToolLoopOptions {
+  model: string;
+  contents: GeminiContent[];
+  // Generation config without tools or abort signal; they are added here
+  config: Record<string, any>;
+  tools: string[];
+  signal?: AbortSignal;
+  onText?: (delta: string) => void;
+  onStep?: (step: ToolStep) => void;
+  onUsage: (usage: unknown) => Promise<void>;
+}
+
+export interface PendingToolCalls {
+  calls: ToolCall[];
+  // Turns added during this request, ending with the model turn that made the calls
+  continuation: GeminiContent[];
+  // Responses to the server tools of that last turn; the browser adds its own and sends them together
+  responses: GeminiPart[];
+}
+
+export interface ToolLoopResult {
+  text: string;
+  steps: ToolStep[];
+  pending?: PendingToolCalls;
+}
+
+// Keeps the parts Gemini needs back; consecutive plain text chunks are merged into one part
+function appendPart(parts: GeminiPart[], part: any) {
+  if (part.thought) return;
+  const last = parts[parts.length - 1];
+  const plainText = typeof part.text === 'string' && !part.thoughtSignature && !part.functionCall;
+  if (plainText && last && typeof last.text === 'string' && !last.thoughtSignature && !last.functionCall) {
+    last.text += part.text;
+    return;
+  }
+  const kept: GeminiPart = {};
+  if (typeof part.text === 'string') kept.text = part.text;
+  if (part.functionCall) {
+    kept.functionCall = { ...(part.functionCall.id ? { id: part.functionCall.id } : {}), name: part.functionCall.name, args: part.functionCall.args || {} };
+  }
+  if (part.thoughtSignature) kept.thoughtSignature = part.thoughtSignature;
+  if (Object.keys(kept).length > 0) parts.push(kept);
+}
+
+interface RoundResult {
+  parts: GeminiPart[];
+  usage: unknown;
+}
+
+/**
+ * Streams one model call. Each attempt gets UPSTREAM_TIMEOUT_MS; failures are retried until
+ * the first text reaches the client, since repeating after that would duplicate output.
+ */
+async function streamRound(ai: GoogleGenAI, options: ToolLoopOptions, contents: GeminiContent[], config: Record<string, any>, onPart: (part: any) => void): Promise<RoundResult> {
+  let emitted = false;
+  return retryUpstream(async () => {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    options.signal?.addEventListener('abort', abort);
+    const timer = setTimeout(abort, UPSTREAM_TIMEOUT_MS);
+    try {
+      const responseStream = await ai.models.generateContentStream({
+        model: options.model,
+        contents,
+        config: { ...config, abortSignal: controller.signal }
+      });
+      const parts: GeminiPart[] = [];
+      let usage: unknown;
+      let blocked: ApiError | null = null;
+      for await (const chunk of responseStream) {
+        // The final chunk carries the totals for the whole response
+        if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        blocked = blocked || safetyBlock(chunk);
+        if (options.signal?.aborted) break;
+        for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+          appendPart(parts, part);
+          if (typeof part.text === 'string' && !part.thought && part.text) emitted = true;
+          onPart(part);
+        }
+      }
+      if (blocked && !options.signal?.aborted) {
+        await options.onUsage(usage);
+        throw blocked;
+      }
+      return { parts, usage };
+    } catch (error) {
+      // The client went away; whatever arrived is kept and nothing more is sent
+      if (options.signal?.aborted) return { parts: [], usage: undefined };
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
+    }
+  }, options.signal, () => !emitted);
+}
+
+/**
+ * Runs a chat turn with function calling. Server tools are executed here and fed back until the
+ * model answers in text. When it calls a client tool, the loop stops and returns the calls as
+ * `pending` so the browser can run them and continue with a new request.
+ */
+export async function runToolLoop(ai: GoogleGenAI, options: ToolLoopOptions): Promise<ToolLoopResult> {
+  const declarations = toolRegistry.declarations(options.tools);
+  const continuation: GeminiContent[] = [];
+  const steps: ToolStep[] = [];
+  let text = '';
+
+  for (let round = 0; ; round++) {
+    const config = declarations.length === 0 ? options.config : {
+      ...options.config,
+      tools: [{ functionDeclarations: declarations }],
+      // The last round has to produce an answer
+      ...(round >= MAX_TOOL_ROUNDS - 1 ? { toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } } : {})
+    };
+    let roundText = '';
+    const { parts, usage } = await streamRound(ai, options, [...options.contents, ...continuation], config, (part) => {
+      if (typeof part.text !== 'string' || part.thought || !part.text) return;
+      // Text from separate rounds becomes separate paragraphs
+      const delta = !roundText && text ? `\n\n${part.text}` : part.text;
+      roundText += part.text;
+      text += delta;
+      options.onText?.(delta);
+    });
+    await options.onUsage(usage);
+
+    const calls: ToolCall[] = parts.filter(p => p.functionCall).map(p => p.functionCall!);
+    if (options.signal?.aborted || calls.length === 0) return { text, steps };
+    continuation.push({ role: 'model', parts });
+
+    const responses: GeminiPart[] = [];
+    const clientCalls: ToolCall[] = [];
+    for (const call of calls) {
+      if (toolRegistry.get(call.name)?.runsOn === 'client') {
+        clientCalls.push(call);
+        continue;
+      }
+      const step = await toolRegistry.execute(call);
+      steps.push(step);
+      options.onStep?.(step);
+      responses.push(toolResponsePart(step));
+    }
+    if (clientCalls.length > 0) return { text, steps, pending: { calls: clientCalls, continuation, responses } };
+    continuation.push({ role: 'user', parts: responses });
+  }
+}
@@ -0,0 +1,120 @@
+// Shared request validation for the /api handlers. Files under api/_lib are not deployed as routes.
+import { MAX_ATTACHMENT_BYTES, MAX_REQUEST_ATTACHMENT_BYTES } from "../../constants";
+import { toolRegistry } from "../../services/tools";
+import { base64Bytes, isAllowedMimeType } from "../../services/attachments/attachmentPolicy";
+
+export const MAX_TURNS = 200;
+export const MAX_PARTS_PER_TURN = 32;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks a multi-turn `contents` payload. Returns a human readable error, or null when valid.
+ */
+export function validateContents(contents: unknown): string | null {
+  if (!Array.isArray(contents) || contents.length === 0) {
+    return 'contents must be a non-empty array of turns.';
+  }
+  if (contents.length > MAX_TURNS) {
+    return `contents may hold at most ${MAX_TURNS} turns.`;
+  }
+
+  for (let i = 0; i < contents.length; i++) {
+    const turn = contents[i];
+    if (!isObject(turn)) return `contents[${i}] must be an object.`;
+    if (turn.role !== 'user' && turn.role !== 'model') {
+      return `contents[${i}].role must be "user" or "model".`;
+    }
+    if (i > 0 && contents[i - 1].role === turn.role) {
+      return `contents[${i}] repeats the "${turn.role}" role; turns must alternate.`;
+    }
+    if (!Array.isArray(turn.parts) || turn.parts.length === 0 || turn.parts.length > MAX_PARTS_PER_TURN) {
+      return `contents[${i}].parts must hold between 1 and ${MAX_PARTS_PER_TURN} parts.`;
+    }
+    for (let j = 0; j < turn.parts.length; j++) {
+      const part = turn.parts[j];
+      const hasText = isObject(part) && typeof part.text === 'string';
+      const hasInline = isObject(part) && isObject(part.inlineData)
+        && typeof part.inlineData.data === 'string'
+        && typeof part.inlineData.mimeType === 'string';
+      // Tool rounds echo the model's calls and answer them in the following user turn
+      const hasCall = turn.role === 'model' && isObject(part) && isObject(part.functionCall)
+        && typeof part.functionCall.name === 'string';
+      const hasResponse = turn.role === 'user' && isObject(part) && isObject(part.functionResponse)
+        && typeof part.functionResponse.name === 'string'
+        && isObject(part.functionResponse.response);
+      if (!hasText && !hasInline && !hasCall && !hasResponse) {
+        return `contents[${i}].parts[${j}] must carry text, inlineData, a functionCall (model) or a functionResponse (user).`;
+      }
+      if (hasInline && !isAllowedMimeType(part.inlineData.mimeType)) {
+        return `contents[${i}].parts[${j}] has unsupported inlineData type "${part.inlineData.mimeType}".`;
+      }
+      if (part.thoughtSignature !== undefined && typeof part.thoughtSignature !== 'string') {
+        return `contents[${i}].parts[${j}].thoughtSignature must be a string.`;
+      }
+    }
+  }
+
+  if (contents[0].role !== 'user' || contents[contents.length - 1].role !== 'user') {
+    return 'contents must start and end with a user turn.';
+  }
+  return null;
+}
+
+// Text of the most recent user turn, used for prompt-based routing
+export function latestUserText(contents: any[]): string {
+  for (let i = contents.length - 1; i >= 0; i--) {
+    if (contents[i].role !== 'user') continue;
+    return contents[i].parts
+      .filter((p: any) => typeof p.text === 'string')
+      .map((p: any) => p.text)
+      .join('\n');
+  }
+  return '';
+}
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Checks the inline attachments of a validated `contents` payload against the per-file and
+ * per-request limits. Returns a human readable error, or null when within limits.
+ */
+export function validateInlineDataSize(contents: any[]): string | null {
+  let total = 0;
+  for (let i = 0; i < contents.length; i++) {
+    for (const part of contents[i].parts) {
+      if (!part.inlineData) continue;
+      const bytes = base64Bytes(part.inlineData.data);
+      if (bytes > MAX_ATTACHMENT_BYTES) {
+        return `contents[${i}] has an attachment of ${formatMb(bytes)}; the limit is ${formatMb(MAX_ATTACHMENT_BYTES)}.`;
+      }
+      total += bytes;
+    }
+  }
+  if (total > MAX_REQUEST_ATTACHMENT_BYTES) {
+    return `Attachments total ${formatMb(total)}; the limit per request is ${formatMb(MAX_REQUEST_ATTACHMENT_BYTES)}.`;
+  }
+  return null;
+}
+
+// Checks the optional list of tool names a chat request may use
+export function validateToolNames(tools: unknown): string | null {
+  if (tools === undefined) return null;
+  const known = toolRegistry.names();
+  if (!Array.isArray(tools) || tools.some(name => !known.includes(name))) {
+    return `tools must be a list of: ${known.join(', ')}.`;
+  }
+  return null;
+}
+
+// Knowledge base excerpts go in front of the user's question, after routing has read it. Tool
+// continuations end with function responses, so the excerpts go to the turn that asked.
+export function withKnowledge(contents: any[], knowledge: string): any[] {
+  for (let i = contents.length - 1; i >= 0; i--) {
+    const turn = contents[i];
+    if (turn.role !== 'user' || turn.parts.some((p: any) => p.functionResponse)) continue;
+    return contents.map((c, j) => j === i ? { ...c, parts: [{ text: knowledge }, ...c.parts] } : c);
+  }
+  return contents;
+}
@@ -1,59 +1,263 @@
-
 import { GoogleGenAI, Modality } from "@google/genai";
+import { validateContents, validateInlineDataSize, validateToolNames, latestUserText, withKnowledge } from "./_lib/validation";
+import { openEventStream, sendEvent, clientDisconnectSignal } from "./_lib/sse";
+import { routeIntent } from "./_lib/intentRouter";
+import { runToolLoop } from "./_lib/toolLoop";
+import { ApiError, retryUpstream, safetyBlock, sendApiError, sendError, toApiError } from "./_lib/errors";
+import { requireUser } from "./_lib/auth";
+import { enforceDailyQuota, enforceRateLimit, QuotaType, rateLimitSubject, recordUsage, refundDailyQuota } from "./_lib/rateLimit";
+import { DOCUMENT_SCHEMA, documentPrompt, validateDocumentSpec } from "../services/documents/schema";
+import {
+  EMBEDDING_DIMENSIONS, EMBEDDING_MODEL, generationConfig, IMAGE_MODEL, safetySettings, TTS_MODEL, validateGenerationSettings
+} from "../services/generationConfig";
+import {
+  DEFAULT_VOICE, IMAGE_ASPECT_RATIOS, MAX_EMBED_BATCH, MAX_EMBED_TEXT_CHARS, MAX_IMAGES_PER_REQUEST, MAX_KNOWLEDGE_CHARS,
+  MAX_SPEECH_TEXT_CHARS, MAX_SYSTEM_INSTRUCTION_CHARS, PERSONA_VOICES, UPSTREAM_TIMEOUT_MS
+} from "../constants";
+import { GenerationSettings, RequestType } from "../types";
+
+// Gemini reports no token counts for embeddings, so usage is estimated from the text length
+const CHARS_PER_TOKEN = 4;
+
+const REQUEST_TYPES: (RequestType | 'auto')[] = ['auto', 'chat', 'image', 'tts', 'document', 'embed'];
+
+// Set INTENT_CLASSIFIER=on to let a model classify prompts the local rules find ambiguous
+const useClassifier = () => process.env.INTENT_CLASSIFIER === 'on';
+
+// Documents use the session's model and safety settings, but not its sampling or token limits:
+// a truncated JSON answer cannot be rendered
+async function generateDocument(ai: GoogleGenAI, prompt: string, systemInstruction: string | undefined, settings: GenerationSettings, subject: string) {
+  const response = await retryUpstream(() => ai.models.generateContent({
+    model: settings.model,
+    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    config: {
+      systemInstruction,
+      safetySettings: safetySettings(settings),
+      responseMimeType: 'application/json',
+      responseJsonSchema: DOCUMENT_SCHEMA,
+      httpOptions: { timeout: UPSTREAM_TIMEOUT_MS }
+    }
+  }));
+  await recordUsage(subject, 'document', settings.model, response.usageMetadata);
+  const blocked = safetyBlock(response);
+  if (blocked) throw blocked;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(response.text || '');
+  } catch (e) {
+    throw new ApiError('upstream_error', 'Model returned malformed document JSON.', true);
+  }
+  const { spec, error } = validateDocumentSpec(parsed);
+  if (!spec) throw new ApiError('upstream_error', `Model document failed validation: ${error}`, true);
+  return spec;
+}
 
 export default async function handler(req: any, res: any) {
   if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
+    return sendError(res, 'invalid_input', 'Method not allowed', 405);
   }
 
-  const { type, contents, systemInstruction, text } = req.body;
+  const user = await requireUser(req, res);
+  if (!user) return;
+  const subject = rateLimitSubject(user);
+  if (!(await enforceRateLimit(res, subject))) return;
+  // Quota taken by this request; given back if it fails
+  let charged: { type: QuotaType; amount: number } | null = null;
+  const chargeQuota = async (type: QuotaType, amount = 1) => {
+    if (!(await enforceDailyQuota(res, subject, type, amount))) return false;
+    charged = { type, amount };
+    return true;
+  };
+  const refund = () => charged ? refundDailyQuota(subject, charged.type, charged.amount) : Promise.resolve();
+
+  const { type = 'auto', contents, systemInstruction, text, stream, format, imageOptions, settings: rawSettings, voice = DEFAULT_VOICE, tools = [], texts, taskType, knowledge } = req.body;
   const apiKey = process.env.API_KEY;
 
   if (!apiKey) {
-    return res.status(500).json({ error: 'Server configuration error: API Key missing.' });
+    return sendError(res, 'missing_api_key', 'Server configuration error: API Key missing.');
+  }
+  if (!REQUEST_TYPES.includes(type)) {
+    return sendError(res, 'invalid_input', `type must be one of: ${REQUEST_TYPES.join(', ')}.`);
+  }
+
+  const aspectRatio = imageOptions?.aspectRatio ?? '1:1';
+  const imageCount = imageOptions?.count ?? 1;
+  if (!IMAGE_ASPECT_RATIOS.includes(aspectRatio)) {
+    return sendError(res, 'invalid_input', `imageOptions.aspectRatio must be one of: ${IMAGE_ASPECT_RATIOS.join(', ')}.`);
+  }
+  if (!Number.isInteger(imageCount) || imageCount < 1 || imageCount > MAX_IMAGES_PER_REQUEST) {
+    return sendError(res, 'invalid_input', `imageOptions.count must be between 1 and ${MAX_IMAGES_PER_REQUEST}.`);
+  }
+
+  // System instructions come from user-editable personas
+  if (systemInstruction !== undefined && (typeof systemInstruction !== 'string' || systemInstruction.length > MAX_SYSTEM_INSTRUCTION_CHARS)) {
+    return sendError(res, 'invalid_input', `systemInstruction must be a string of at most ${MAX_SYSTEM_INSTRUCTION_CHARS} characters.`);
+  }
+  if (!PERSONA_VOICES.includes(voice)) {
+    return sendError(res, 'invalid_input', `voice must be one of: ${PERSONA_VOICES.join(', ')}.`);
+  }
+
+  if (knowledge !== undefined && (typeof knowledge !== 'string' || knowledge.length > MAX_KNOWLEDGE_CHARS)) {
+    return sendError(res, 'invalid_input', `knowledge must be a string of at most ${MAX_KNOWLEDGE_CHARS} characters.`);
+  }
+
+  const invalidTools = validateToolNames(tools);
+  if (invalidTools) {
+    return sendError(res, 'invalid_input', invalidTools);
+  }
+
+  const { settings, error: settingsError } = validateGenerationSettings(rawSettings);
+  if (!settings) {
+    return sendError(res, 'invalid_input', settingsError);
   }
 
   const ai = new GoogleGenAI({ apiKey });
 
   try {
     if (type === 'tts') {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
+      if (typeof text !== 'string' || !text.trim() || text.length > MAX_SPEECH_TEXT_CHARS) {
+        return sendError(res, 'invalid_input', `tts requests need text of at most ${MAX_SPEECH_TEXT_CHARS} characters.`);
+      }
+      if (!(await chargeQuota('tts'))) return;
+      const response = await retryUpstream(() => ai.models.generateContent({
+        model: TTS_MODEL,
         contents: [{ parts: [{ text: text }] }],
         config: {
           responseModalities: [Modality.AUDIO],
           speechConfig: {
             voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: 'Fenrir' }, // Baritone voice
+              prebuiltVoiceConfig: { voiceName: voice },
             },
           },
+          httpOptions: { timeout: UPSTREAM_TIMEOUT_MS }
         },
-      });
+      }));
+      await recordUsage(subject, 'tts', TTS_MODEL, response.usageMetadata);
       const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
       return res.status(200).json({ audio: audioData });
     }
 
-    const promptLower = (contents?.[0]?.parts?.[0]?.text || "").toLowerCase();
-    const isImageGen = promptLower.includes("generate image") || promptLower.includes("create image") || promptLower.includes("ছবি তৈরি করো");
+    // Knowledge base vectors: documents when files are added, queries for each question
+    if (type === 'embed') {
+      if (!Array.isArray(texts) || texts.length === 0 || texts.length > MAX_EMBED_BATCH
+        || texts.some(t => typeof t !== 'string' || !t.trim() || t.length > MAX_EMBED_TEXT_CHARS)) {
+        return sendError(res, 'invalid_input', `texts must hold 1 to ${MAX_EMBED_BATCH} non-empty strings of at most ${MAX_EMBED_TEXT_CHARS} characters.`);
+      }
+      if (taskType !== 'document' && taskType !== 'query') {
+        return sendError(res, 'invalid_input', 'taskType must be "document" or "query".');
+      }
+      if (!(await chargeQuota('embed'))) return;
+      const response = await retryUpstream(() => ai.models.embedContent({
+        model: EMBEDDING_MODEL,
+        contents: texts,
+        config: {
+          taskType: taskType === 'document' ? 'RETRIEVAL_DOCUMENT' : 'RETRIEVAL_QUERY',
+          outputDimensionality: EMBEDDING_DIMENSIONS,
+          httpOptions: { timeout: UPSTREAM_TIMEOUT_MS }
+        }
+      }));
+      const tokens = Math.ceil(texts.reduce((sum: number, t: string) => sum + t.length, 0) / CHARS_PER_TOKEN);
+      await recordUsage(subject, 'embed', EMBEDDING_MODEL, { promptTokenCount: tokens, totalTokenCount: tokens });
+      return res.status(200).json({ embeddings: (response.embeddings || []).map(e => e.values || []) });
+    }
 
-    if (isImageGen) {
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents,
-        config: { imageConfig: { aspectRatio: "1:1" } }
-      });
-      const parts = response.candidates?.[0]?.content?.parts || [];
+    // Converting an existing answer into a file: no conversation needed
+    if (type === 'document' && contents === undefined) {
+      if (typeof text !== 'string' || !text.trim() || (format !== 'pdf' && format !== 'pptx')) {
+        return sendError(res, 'invalid_input', 'document requests need text and a format of "pdf" or "pptx".');
+      }
+      if (!(await chargeQuota('document'))) return;
+      const spec = await generateDocument(ai, documentPrompt(text, format), systemInstruction, settings, subject);
+      return res.status(200).json({ type: 'document', format, document: spec });
+    }
+
+    const invalid = validateContents(contents);
+    if (invalid) {
+      return sendError(res, 'invalid_input', invalid);
+    }
+    const tooLarge = validateInlineDataSize(contents);
+    if (tooLarge) {
+      return sendError(res, 'invalid_input', tooLarge, 413);
+    }
+
+    const prompt = latestUserText(contents);
+    const route = type === 'auto'
+      ? await routeIntent(ai, prompt, {
+          useClassifier: useClassifier(),
+          hasAttachments: contents[contents.length - 1].parts.some((p: any) => p.inlineData)
+        })
+      : type === 'document'
+        ? { type: 'document' as const, format: format === 'pptx' ? 'pptx' as const : 'pdf' as const }
+        : { type: type as 'chat' | 'image' };
+
+    const chatContents = knowledge ? withKnowledge(contents, knowledge) : contents;
+
+    // Charged after routing so "auto" requests count against the type they turned into
+    if (!(await chargeQuota(route.type, route.type === 'image' ? imageCount : 1))) return;
+
+    if (route.type === 'document') {
+      const spec = await generateDocument(ai, documentPrompt(knowledge ? `${knowledge}\n\n${prompt}` : prompt, route.format, 'request'), systemInstruction, settings, subject);
+      return res.status(200).json({ type: 'document', format: route.format, document: spec });
+    }
+
+    if (route.type === 'image') {
+      // The image model returns one picture per call, so multiple images mean parallel calls
+      const responses = await Promise.all(Array.from({ length: imageCount }, () =>
+        retryUpstream(() => ai.models.generateContent({
+          model: IMAGE_MODEL,
+          contents,
+          config: { imageConfig: { aspectRatio }, safetySettings: safetySettings(settings), httpOptions: { timeout: UPSTREAM_TIMEOUT_MS } }
+        }))
+      ));
+      await Promise.all(responses.map(r => recordUsage(subject, 'image', IMAGE_MODEL, r.usageMetadata)));
+      const parts = responses.flatMap(r => r.candidates?.[0]?.content?.parts || []);
+      // Some blocked pictures are fine as long as at least one came back
+      const blocked = responses.map(safetyBlock).find(Boolean);
+      if (blocked && !parts.some((p: any) => p.inlineData)) throw blocked;
       return res.status(200).json({ type: 'image', parts });
+    } else if (stream) {
+      // Streaming mode: `chunk` events per text delta, `tool` per server tool step, `toolCalls`
+      // when browser tools must run, then `done` (or `error`)
+      openEventStream(res);
+      const abortSignal = clientDisconnectSignal(res);
+      try {
+        const result = await runToolLoop(ai, {
+          model: settings.model,
+          contents: chatContents,
+          config: { ...generationConfig(settings), systemInstruction },
+          tools,
+          signal: abortSignal,
+          onText: (delta) => sendEvent(res, 'chunk', { text: delta }),
+          onStep: (step) => sendEvent(res, 'tool', step),
+          onUsage: (usage) => recordUsage(subject, 'chat', settings.model, usage)
+        });
+        if (result.pending) sendEvent(res, 'toolCalls', result.pending);
+        sendEvent(res, 'done', {});
+      } catch (error: any) {
+        // A reader who stopped the answer keeps the charge; it was their choice
+        if (!abortSignal.aborted) {
+          console.error('Gemini Stream Error:', error);
+          await refund();
+          const { code, message, retryable } = toApiError(error);
+          sendEvent(res, 'error', { error: message, code, ...(retryable ? { retryable } : {}) });
+        }
+      }
+      return res.end();
     } else {
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents,
-        config: { systemInstruction }
+      const { text: answer, steps, pending } = await runToolLoop(ai, {
+        model: settings.model,
+        contents: chatContents,
+        config: { ...generationConfig(settings), systemInstruction },
+        tools,
+        onUsage: (usage) => recordUsage(subject, 'chat', settings.model, usage)
       });
-      return res.status(200).json({ type: 'text', text: response.text });
+      return res.status(200).json(pending
+        ? { type: 'toolCalls', text: answer, steps, ...pending }
+        : { type: 'text', text: answer, steps });
     }
   } catch (error: any) {
     console.error('Gemini Backend Error:', error);
-    return res.status(500).json({ error: error.message || 'AI processing failed.' });
+    await refund();
+    return sendApiError(res, toApiError(error));
   }
 }
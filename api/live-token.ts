@@ -0,0 +1,58 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { LIVE_MODEL } from "../constants";
+import { requireUser } from "./_lib/auth";
+import { enforceDailyQuota, enforceRateLimit, rateLimitSubject, refundDailyQuota } from "./_lib/rateLimit";
+import { sendApiError, sendError, toApiError } from "./_lib/errors";
+
+// Ephemeral tokens are single-use: a session must start within a minute and ends after 30
+const SESSION_START_WINDOW_MS = 60 * 1000;
+const SESSION_LIFETIME_MS = 30 * 60 * 1000;
+
+/**
+ * Issues a short-lived Live API token so the browser never sees the server key.
+ * The token is locked to the Live model and audio responses; everything else in the
+ * session config (persona, tools, transcription, VAD, resumption) is left to the client.
+ */
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return sendError(res, 'invalid_input', 'Method not allowed', 405);
+  }
+
+  const user = await requireUser(req, res);
+  if (!user) return;
+  const subject = rateLimitSubject(user);
+  if (!(await enforceRateLimit(res, subject))) return;
+
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    return sendError(res, 'missing_api_key', 'Server configuration error: API Key missing.');
+  }
+
+  if (!(await enforceDailyQuota(res, subject, 'live'))) return;
+
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+  const now = Date.now();
+  const expireTime = new Date(now + SESSION_LIFETIME_MS).toISOString();
+
+  try {
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime,
+        newSessionExpireTime: new Date(now + SESSION_START_WINDOW_MS).toISOString(),
+        liveConnectConstraints: {
+          model: LIVE_MODEL,
+          config: { responseModalities: [Modality.AUDIO] }
+        },
+        // Without this every config field is locked and the client's own config is ignored
+        lockAdditionalFields: []
+      }
+    });
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json({ token: token.name, model: LIVE_MODEL, expireTime });
+  } catch (error) {
+    console.error('Live Token Error:', error);
+    await refundDailyQuota(subject, 'live');
+    return sendApiError(res, toApiError(error));
+  }
+}
@@ -0,0 +1,47 @@
+import { requireUser } from "./_lib/auth";
+import { getSyncBackend } from "./_lib/syncBackend";
+import { sendError } from "./_lib/errors";
+
+/**
+ * Chat session sync for the signed-in user.
+ * GET  ?since=<revision>                      -> { records, revision }
+ * POST { id, session, baseRevision }          -> { record } or 409 { current }
+ * POST { id, deleted: true }                  -> { record } (tombstone)
+ */
+export default async function handler(req: any, res: any) {
+  const user = await requireUser(req, res);
+  if (!user) return;
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  try {
+    const backend = getSyncBackend();
+    if (req.method === 'GET') {
+      const since = Number(req.query?.since ?? 0);
+      if (!Number.isFinite(since) || since < 0) {
+        return sendError(res, 'invalid_input', 'since must be a non-negative revision number.');
+      }
+      return res.status(200).json(await backend.listSince(user.uid, since));
+    }
+
+    if (req.method === 'POST') {
+      const { id, session, deleted, baseRevision = 0 } = req.body || {};
+      if (typeof id !== 'string' || !id) {
+        return sendError(res, 'invalid_input', 'id is required.');
+      }
+      if (!deleted && (typeof session !== 'object' || session === null || session.id !== id || !Array.isArray(session.nodes))) {
+        return sendError(res, 'invalid_input', 'session must be a chat session with a matching id.');
+      }
+      const result = await backend.put(user.uid, id, deleted ? null : session, Number(baseRevision) || 0);
+      if ('current' in result) {
+        return sendError(res, 'invalid_input', 'Session changed on another device.', 409, { current: result.current });
+      }
+      return res.status(200).json({ record: result.record });
+    }
+
+    return sendError(res, 'invalid_input', 'Method not allowed', 405);
+  } catch (error: any) {
+    console.error('Sync Backend Error:', error);
+    return sendError(res, 'internal', error.message || 'Sync failed.');
+  }
+}
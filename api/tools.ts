@@ -0,0 +1,33 @@
+import { requireUser } from "./_lib/auth";
+import { enforceRateLimit, rateLimitSubject } from "./_lib/rateLimit";
+import { sendError } from "./_lib/errors";
+import { toolRegistry } from "../services/tools";
+
+/**
+ * Runs one server tool for the browser. Chat requests run server tools inside /api/gemini;
+ * Live sessions talk to Gemini directly and use this endpoint instead.
+ */
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return sendError(res, 'invalid_input', 'Method not allowed', 405);
+  }
+
+  const user = await requireUser(req, res);
+  if (!user) return;
+  if (!(await enforceRateLimit(res, rateLimitSubject(user)))) return;
+
+  const { id, name, args = {} } = req.body || {};
+  const tool = typeof name === 'string' ? toolRegistry.get(name) : undefined;
+  if (!tool || tool.runsOn !== 'server') {
+    return sendError(res, 'invalid_input', 'name must be one of the server tools.');
+  }
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+    return sendError(res, 'invalid_input', 'args must be an object.');
+  }
+  if (id !== undefined && typeof id !== 'string') {
+    return sendError(res, 'invalid_input', 'id must be a string.');
+  }
+
+  const step = await toolRegistry.execute({ id, name, args });
+  return res.status(200).json({ step });
+}
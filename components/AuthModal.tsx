@@ -1,5 +1,101 @@
+import React, { useState } from 'react';
+import { AuthProvider } from '../services/auth';
+import { OAuthProviderId } from '../types';
 
-import React from 'react';
+interface AuthModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  auth: AuthProvider;
+}
 
-// Placeholder for authentication modal component
-export const AuthModal: React.FC<any> = () => null;
+const PROVIDER_LABELS: Record<OAuthProviderId, string> = {
+  google: 'Continue with Google',
+  github: 'Continue with GitHub'
+};
+
+export const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, auth }) => {
+  const [tab, setTab] = useState<'signin' | 'signup'>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      await action();
+      setPassword('');
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Sign-in failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => tab === 'signin'
+      ? auth.signInWithEmail(email, password)
+      : auth.signUpWithEmail(email, password, displayName.trim() || undefined));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-sm glass-card bg-black/90 rounded-3xl border border-white/10 p-6 md:p-8 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-black uppercase tracking-widest text-blue-400">{tab === 'signin' ? 'Sign In' : 'Create Account'}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-lg transition-colors">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="space-y-2 mb-6">
+          {auth.oauthProviders.map(provider => (
+            <button
+              key={provider}
+              type="button"
+              disabled={isBusy}
+              onClick={() => run(() => auth.signInWithOAuth(provider))}
+              className="w-full py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-40"
+            >
+              {PROVIDER_LABELS[provider]}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3 mb-6 opacity-40">
+          <div className="h-px flex-1 bg-white/20"></div>
+          <span className="text-[10px] font-bold uppercase tracking-widest">or email</span>
+          <div className="h-px flex-1 bg-white/20"></div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {tab === 'signup' && (
+            <input type="text" value={displayName} onChange={(e) => setDisplayName(e.target.value)} placeholder="Name (optional)" className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500/40" />
+          )}
+          <input type="email" required value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" autoComplete="email" className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500/40" />
+          <input type="password" required value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" autoComplete={tab === 'signin' ? 'current-password' : 'new-password'} className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500/40" />
+          {error && (
+            <p className="text-red-400 text-[10px] font-bold uppercase tracking-widest bg-red-500/10 px-3 py-2 rounded-lg border border-red-500/20">{error}</p>
+          )}
+          <button type="submit" disabled={isBusy} className="w-full py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-black uppercase tracking-widest text-xs transition-all active:scale-95 disabled:opacity-40 shadow-lg shadow-blue-500/20">
+            {isBusy ? 'Please wait...' : tab === 'signin' ? 'Sign In' : 'Create Account'}
+          </button>
+        </form>
+
+        <button
+          type="button"
+          onClick={() => { setTab(tab === 'signin' ? 'signup' : 'signin'); setError(null); }}
+          className="mt-4 w-full text-center text-[10px] text-gray-400 hover:text-blue-400 font-bold uppercase tracking-widest transition-colors"
+        >
+          {tab === 'signin' ? 'New here? Create an account' : 'Already have an account? Sign in'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,60 +1,117 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { jsPDF } from "jspdf";
-import pptxgen from "pptxgenjs";
-import { WARVI_SYSTEM_PROMPT } from '../constants';
-import { Message, Attachment } from '../types';
+import { IMAGE_ASPECT_RATIOS, MAX_IMAGES_PER_REQUEST, MAX_TOOL_ROUNDS } from '../constants';
+import { Message, Attachment, Citation, DocumentFormat, ImageOptions, GenerationSettings, Persona, ToolStep } from '../types';
+import { buildContents } from '../services/contextBuilder';
+import { requestGeneration, requestDocument, GeminiError, GeminiErrorCode, GeminiReply } from '../services/geminiClient';
+import { renderDocument } from '../services/documents';
+import { createMessageId } from '../services/messageTree';
+import { MarkdownContent } from './MarkdownContent';
+import { SettingsPanel } from './SettingsPanel';
+import { findModel } from '../services/generationConfig';
+import { personaInstruction } from '../services/personas';
+import { ToolContext, toolRegistry, toolResponsePart } from '../services/tools';
+import { runToolCall } from '../services/tools/clientRunner';
+import { ToolSteps } from './ToolSteps';
+import { citedIn, KnowledgeBase, knowledgePrompt } from '../services/knowledge';
+import { KnowledgePanel } from './KnowledgePanel';
+import { Citations } from './Citations';
+import { ATTACHMENT_ACCEPT, AttachmentError, attachmentBytes, base64Bytes, formatBytes, prepareAttachment } from '../services/attachments';
+import { PlaybackStatus, SpeechPlayer } from '../services/speech';
+import { downloadBlob } from '../services/transfer';
+import { SpeechControls } from './SpeechControls';
 
 interface ChatInterfaceProps {
   sessionId: string;
   initialMessages: Message[];
+  // Sibling ids (versions) of each message in initialMessages, including the message itself
+  branches?: string[][];
   onUpdateMessages: (messages: Message[]) => void;
+  onSelectBranch?: (messageId: string) => void;
+  // Message opened from search: scrolled into view and briefly highlighted
+  focusMessageId?: string;
+  onFocusHandled?: () => void;
+  showTimestamps?: boolean;
+  // Model and sampling settings of this session, sent with every request
+  settings: GenerationSettings;
+  onUpdateSettings: (settings: GenerationSettings) => void;
+  persona: Persona;
+  // Browser state available to client-side tools
+  toolContext: ToolContext;
+  // Files added to this session, searched for every question
+  knowledgeBase: KnowledgeBase;
+  speechPlayer: SpeechPlayer;
 }
 
-// Helper: Decode Base64 for Audio
-function decodeBase64(base64: string) {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
+// A generation that failed after `messageId`; not saved, so reloading the chat clears it
+interface GenerationFailure {
+  messageId: string;
+  code: GeminiErrorCode;
+  message: string;
+  history: Message[];
 }
 
-// Helper: Decode Raw PCM to AudioBuffer
-async function decodeAudioData(data: Uint8Array, ctx: AudioContext): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const buffer = ctx.createBuffer(1, dataInt16.length, 24000);
-  const channelData = buffer.getChannelData(0);
-  for (let i = 0; i < dataInt16.length; i++) {
-    channelData[i] = dataInt16[i] / 32768.0;
-  }
-  return buffer;
-}
+const FAILURE_TITLES: Record<GeminiErrorCode, string> = {
+  safety_blocked: 'Blocked by safety filters',
+  quota_exceeded: 'Limit reached',
+  invalid_input: 'Request rejected',
+  upstream_timeout: 'Timed out',
+  upstream_error: 'Gemini unavailable',
+  missing_api_key: 'Server not configured',
+  unauthorized: 'Signed out',
+  internal: 'Something went wrong',
+  network: 'Connection lost',
+  tool_limit: 'Too many tool calls'
+};
 
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve((reader.result as string).split(',')[1]);
-    reader.onerror = reject;
-  });
+const joinText = (before: string, after: string) => before && after ? `${before}\n\n${after}` : before || after;
+
+// "< 2/3 >" switcher between the versions of an edited or regenerated message
+const BranchNav: React.FC<{ siblings: string[]; current?: string; disabled: boolean; onSelect: (id: string) => void }> = ({ siblings, current, disabled, onSelect }) => {
+  const position = siblings.indexOf(current || '');
+  if (siblings.length < 2 || position < 0) return null;
+  return (
+    <div className="self-center flex items-center gap-1 text-[10px] font-mono text-gray-500">
+      <button disabled={disabled || position === 0} onClick={() => onSelect(siblings[position - 1])} className="px-1.5 py-1 rounded-md hover:text-blue-400 disabled:opacity-30">&lt;</button>
+      <span>{position + 1}/{siblings.length}</span>
+      <button disabled={disabled || position === siblings.length - 1} onClick={() => onSelect(siblings[position + 1])} className="px-1.5 py-1 rounded-md hover:text-blue-400 disabled:opacity-30">&gt;</button>
+    </div>
+  );
 };
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, initialMessages, onUpdateMessages }) => {
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, initialMessages, branches, onUpdateMessages, onSelectBranch, focusMessageId, onFocusHandled, showTimestamps, settings, onUpdateSettings, persona, toolContext, knowledgeBase, speechPlayer }) => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState<number | null>(null);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [toolSteps, setToolSteps] = useState<ToolStep[]>([]);
+  const [speech, setSpeech] = useState<PlaybackStatus>({ messageId: null, state: 'idle', position: 0, duration: 0 });
+  const [speechSpeed, setSpeechSpeed] = useState(1);
+  const [downloadingSpeech, setDownloadingSpeech] = useState<string | null>(null);
   const [isListening, setIsListening] = useState(false);
   const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [failure, setFailure] = useState<GenerationFailure | null>(null);
+  const [generatingDoc, setGeneratingDoc] = useState<{ idx: number; format: DocumentFormat } | null>(null);
+  const [docError, setDocError] = useState<{ idx: number; message: string } | null>(null);
+  const [requestMode, setRequestMode] = useState<'auto' | 'chat' | 'image'>('auto');
+  const [imageOptions, setImageOptions] = useState<ImageOptions>({ aspectRatio: '1:1', count: 1 });
+  const [showSettings, setShowSettings] = useState(false);
+  const [showKnowledge, setShowKnowledge] = useState(false);
+  const [documentCount, setDocumentCount] = useState(0);
   
+  const [highlightId, setHighlightId] = useState<string | null>(null);
   const [editingIdx, setEditingIdx] = useState<number | null>(null);
   const [editValue, setEditValue] = useState('');
 
   const scrollRef = useRef<HTMLDivElement>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const recognitionRef = useRef<any>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const messagesRef = useRef(initialMessages);
+  messagesRef.current = initialMessages;
 
   useEffect(() => {
     // Speech Recognition Setup
@@ -76,14 +133,40 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, initial
       };
       recognitionRef.current = recognition;
     }
-    return () => recognitionRef.current?.stop();
+    return () => {
+      recognitionRef.current?.stop();
+      abortRef.current?.abort();
+    };
   }, []);
 
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [initialMessages, isLoading, attachments, editingIdx]);
+  }, [initialMessages, isLoading, streamingText, attachments, editingIdx, failure]);
+
+  useEffect(() => speechPlayer.subscribe(setSpeech), [speechPlayer]);
+
+  // Reading aloud ends with the chat it belongs to
+  useEffect(() => () => speechPlayer.stop(), [sessionId, speechPlayer]);
+
+  useEffect(() => {
+    setFailure(null);
+    setDocumentCount(0);
+    knowledgeBase.listDocuments(sessionId).then(docs => setDocumentCount(docs.length)).catch(console.error);
+  }, [sessionId, knowledgeBase]);
+
+  // Runs after the scroll-to-bottom above. The message may only appear once its branch is selected.
+  useEffect(() => {
+    if (!focusMessageId) return;
+    const el = scrollRef.current?.querySelector(`[data-message-id="${CSS.escape(focusMessageId)}"]`);
+    if (!el) return;
+    el.scrollIntoView({ block: 'center' });
+    setHighlightId(focusMessageId);
+    onFocusHandled?.();
+    clearTimeout(highlightTimerRef.current);
+    highlightTimerRef.current = setTimeout(() => setHighlightId(null), 2500);
+  }, [focusMessageId, initialMessages]);
 
   const toggleListening = () => {
     if (isListening) {
@@ -94,83 +177,269 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, initial
     }
   };
 
-  const handleSpeak = async (text: string, index: number) => {
-    if (isSpeaking !== null) return;
-    setIsSpeaking(index);
+  // Messages from before ids existed fall back to their timestamp
+  const speechRequest = (msg: Message, speed = speechSpeed) => ({
+    sessionId,
+    messageId: msg.id || `t${msg.timestamp}`,
+    text: msg.parts[0].text,
+    voice: persona.voice,
+    speed
+  });
+
+  // Speaking another message stops the current one; the same button stops it again
+  const handleSpeak = (msg: Message) => {
+    const request = speechRequest(msg, persona.speechRate ?? 1);
+    if (speech.messageId === request.messageId && speech.state !== 'idle') {
+      speechPlayer.stop();
+      return;
+    }
+    setSpeechSpeed(request.speed);
+    speechPlayer.play(request);
+  };
+
+  const handleSpeechSpeed = (speed: number) => {
+    setSpeechSpeed(speed);
+    speechPlayer.setSpeed(speed);
+  };
+
+  const handleDownloadSpeech = async (msg: Message, idx: number) => {
+    const request = speechRequest(msg);
+    setDocError(null);
+    setDownloadingSpeech(request.messageId);
     try {
-      const response = await fetch('/api/gemini', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ type: 'tts', text })
-      });
-      const data = await response.json();
-      if (data.audio) {
-        if (!audioContextRef.current) audioContextRef.current = new AudioContext({ sampleRate: 24000 });
-        const ctx = audioContextRef.current;
-        const buffer = await decodeAudioData(decodeBase64(data.audio), ctx);
-        const source = ctx.createBufferSource();
-        source.buffer = buffer;
-        source.connect(ctx.destination);
-        source.onended = () => setIsSpeaking(null);
-        source.start(0);
-      }
-    } catch (e) {
-      console.error(e);
-      setIsSpeaking(null);
+      downloadBlob(await speechPlayer.audioFor(request), `waso-${request.messageId}.wav`);
+    } catch (error: any) {
+      console.error('Speech download failed:', error);
+      setDocError({ idx, message: error.message || 'The audio could not be created.' });
+    } finally {
+      setDownloadingSpeech(null);
+    }
+  };
+
+  // Excerpts from the session's files closest to the latest question; retrieval problems only cost the excerpts
+  const retrieveExcerpts = async (history: Message[]): Promise<Citation[]> => {
+    const question = [...history].reverse().find(m => m.role === 'user')?.parts[0]?.text || '';
+    if (documentCount === 0 || requestMode === 'image') return [];
+    try {
+      return await knowledgeBase.retrieve(sessionId, question);
+    } catch (error) {
+      console.error('Knowledge retrieval failed:', error);
+      return [];
     }
   };
 
-  const performAIGeneration = async (currentInput: string, currentAttachments: Attachment[], historyBefore: Message[]) => {
+  const performAIGeneration = async (historyBefore: Message[]) => {
     setIsLoading(true);
+    setStreamingText(null);
+    setToolSteps([]);
+    setFailure(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let partial = '';
+    const steps: ToolStep[] = [];
+    const withSteps = () => steps.length > 0 ? { toolSteps: [...steps] } : {};
+    let excerpts: Citation[] = [];
+    const withCitations = (text: string) => {
+      const cited = citedIn(text, excerpts);
+      return cited.length > 0 ? { citations: cited } : {};
+    };
     try {
-      const contentsParts: any[] = [{ text: currentInput }];
-      currentAttachments.forEach(att => {
-        contentsParts.push({ inlineData: { data: att.data, mimeType: att.mimeType } });
-      });
-
-      const response = await fetch('/api/gemini', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: contentsParts }],
-          systemInstruction: WARVI_SYSTEM_PROMPT
-        })
-      });
-
-      const data = await response.json();
-      if (!response.ok) throw new Error(data.error || 'Uplink failure');
-
-      if (data.type === 'image') {
-        let modelMessage: Message | null = null;
-        for (const part of data.parts || []) {
-          if (part.inlineData) {
-            modelMessage = {
-              role: 'model',
-              parts: [{ text: "Masterpiece generated by WASO." }],
-              timestamp: Date.now(),
-              attachments: [{ data: part.inlineData.data, mimeType: part.inlineData.mimeType, name: "waso_art.png" }],
-              isImage: true
-            };
-            break;
+      let { contents } = buildContents(historyBefore);
+      excerpts = await retrieveExcerpts(historyBefore);
+      const knowledge = excerpts.length > 0 ? knowledgePrompt(excerpts) : undefined;
+      // Answer text from earlier tool rounds
+      let answered = '';
+      let reply: GeminiReply;
+
+      // Each round ends with a text answer or with browser tools to run before continuing
+      for (let round = 0; ; round++) {
+        const before = answered;
+        reply = await requestGeneration(
+          {
+            type: round === 0 ? requestMode : 'chat',
+            contents,
+            systemInstruction: personaInstruction(persona),
+            imageOptions,
+            settings,
+            tools: toolRegistry.names('chat'),
+            knowledge
+          },
+          {
+            signal: controller.signal,
+            onText: (text) => {
+              partial = joinText(before, text);
+              setStreamingText(partial);
+            },
+            onToolStep: (step) => {
+              steps.push(step);
+              setToolSteps([...steps]);
+            }
           }
-        }
-        onUpdateMessages([...historyBefore, modelMessage || { role: 'model', parts: [{ text: "Generation failed." }], timestamp: Date.now() }]);
+        );
+        if (reply.type !== 'toolCalls') break;
+        if (round >= MAX_TOOL_ROUNDS) throw new GeminiError('tool_limit', `WASO kept calling tools after ${MAX_TOOL_ROUNDS} rounds without answering.`);
+
+        answered = joinText(before, reply.text);
+        const calls = reply.calls.map(call => ({ ...call, runsOn: 'client' as const }));
+        setToolSteps([...steps, ...calls]);
+        const results = await Promise.all(reply.calls.map(call => runToolCall(call, toolContext)));
+        if (controller.signal.aborted) throw new Error('Stopped');
+        steps.push(...results);
+        setToolSteps([...steps]);
+        contents = [...contents, ...reply.continuation, { role: 'user', parts: [...reply.responses, ...results.map(toolResponsePart)] }];
+      }
+
+      if (reply.type === 'image') {
+        const images: Attachment[] = reply.parts
+          .filter((part: any) => part.inlineData)
+          .map((part: any, i: number) => ({ data: part.inlineData.data, mimeType: part.inlineData.mimeType, name: `waso_art_${i + 1}.png` }));
+        if (images.length === 0) throw new GeminiError('upstream_error', 'The image model returned no picture.', true);
+        onUpdateMessages([...historyBefore, { id: createMessageId(), role: 'model', parts: [{ text: "Masterpiece generated by WASO." }], timestamp: Date.now(), attachments: images, isImage: true }]);
+      } else if (reply.type === 'document') {
+        const file = await renderDocument(reply.document, reply.format);
+        onUpdateMessages([...historyBefore, {
+          id: createMessageId(),
+          role: 'model',
+          parts: [{ text: `Your ${reply.format.toUpperCase()} "${reply.document.title}" is ready.` }],
+          timestamp: Date.now(),
+          attachments: [file]
+        }]);
       } else {
-        const text = data.text || 'No response from WASO.';
-        onUpdateMessages([...historyBefore, { role: 'model', parts: [{ text }], timestamp: Date.now() }]);
+        const text = joinText(answered, reply.text) || 'No response from WASO.';
+        onUpdateMessages([...historyBefore, { id: createMessageId(), role: 'model', parts: [{ text }], timestamp: Date.now(), ...withSteps(), ...withCitations(text) }]);
       }
     } catch (error: any) {
-      onUpdateMessages([...historyBefore, { role: 'model', parts: [{ text: "WASO is currently offline. Check Vercel API logs." }], timestamp: Date.now() }]);
+      if (controller.signal.aborted) {
+        // Keep whatever was streamed before the user stopped the generation
+        if (partial || steps.length > 0) {
+          onUpdateMessages([...historyBefore, { id: createMessageId(), role: 'model', parts: [{ text: partial }], timestamp: Date.now(), isPartial: true, partialReason: 'stopped', ...withSteps(), ...withCitations(partial) }]);
+        }
+      } else {
+        console.error('Generation failed:', error);
+        // Streamed text is kept as a partial answer; the error and Retry show below it
+        let last = historyBefore[historyBefore.length - 1];
+        if (partial || steps.length > 0) {
+          last = { id: createMessageId(), role: 'model', parts: [{ text: partial }], timestamp: Date.now(), isPartial: true, partialReason: 'failed', ...withSteps(), ...withCitations(partial) };
+          onUpdateMessages([...historyBefore, last]);
+        }
+        setFailure({
+          messageId: last.id!,
+          code: error instanceof GeminiError ? error.code : 'internal',
+          message: error.message || 'AI processing failed.',
+          history: historyBefore
+        });
+      }
     } finally {
+      abortRef.current = null;
+      setStreamingText(null);
+      setToolSteps([]);
       setIsLoading(false);
     }
   };
 
+  // Drops a partial answer left by the failure and asks again from the same history
+  const retryGeneration = () => {
+    if (!failure || isLoading) return;
+    onUpdateMessages(failure.history);
+    performAIGeneration(failure.history);
+  };
+
+  const stopGeneration = () => {
+    abortRef.current?.abort();
+  };
+
+  // The new answer becomes a sibling of the old one; the old answer stays reachable via the branch arrows
+  const handleRegenerate = (idx: number) => {
+    if (isLoading) return;
+    const history = initialMessages.slice(0, idx);
+    onUpdateMessages(history);
+    performAIGeneration(history);
+  };
+
+  const handleSaveEdit = (idx: number) => {
+    // A new id forks a branch next to the original message instead of overwriting it
+    const edited: Message = { ...initialMessages[idx], id: createMessageId(), parts: [{ text: editValue }], timestamp: Date.now() };
+    const newHist = [...initialMessages.slice(0, idx), edited];
+    onUpdateMessages(newHist);
+    setEditingIdx(null);
+    performAIGeneration(newHist);
+  };
+
+  const handleGenerateDocument = async (idx: number, format: DocumentFormat) => {
+    if (generatingDoc) return;
+    setGeneratingDoc({ idx, format });
+    setDocError(null);
+    try {
+      const spec = await requestDocument(initialMessages[idx].parts[0].text, format, personaInstruction(persona), settings);
+      const file = await renderDocument(spec, format);
+      // Read the latest messages: the user may have kept chatting while the file was rendered
+      onUpdateMessages(messagesRef.current.map((m, i) => i === idx ? { ...m, attachments: [...(m.attachments || []), file] } : m));
+    } catch (error: any) {
+      console.error('Document generation failed:', error);
+      setDocError({ idx, message: error.message || 'Document generation failed.' });
+    } finally {
+      setGeneratingDoc(null);
+    }
+  };
+
+  // Shared by the file picker, drag and drop and paste; rejected files are listed above the input
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsPreparing(true);
+    const added: Attachment[] = [];
+    const errors: string[] = [];
+    let pendingBytes = attachmentBytes(attachments);
+    for (const file of files) {
+      try {
+        const attachment = await prepareAttachment(file, pendingBytes);
+        pendingBytes += base64Bytes(attachment.data);
+        added.push(attachment);
+      } catch (error) {
+        console.error('Attachment rejected:', error);
+        errors.push(error instanceof AttachmentError ? error.message : `${file.name || 'The file'} could not be attached.`);
+      }
+    }
+    setAttachments(prev => [...prev, ...added]);
+    setAttachmentErrors(errors);
+    setIsPreparing(false);
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments(prev => prev.filter((_, i) => i !== index));
+    setAttachmentErrors([]);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Pasted screenshots and copied files are attached; plain text pastes as usual
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
   const handleSubmit = async (e?: React.FormEvent) => {
     e?.preventDefault();
-    if ((!input.trim() && attachments.length === 0) || isLoading) return;
+    if ((!input.trim() && attachments.length === 0) || isLoading || isPreparing) return;
 
     const userMessage: Message = { 
+      id: createMessageId(),
       role: 'user', 
       parts: [{ text: input }], 
       timestamp: Date.now(),
@@ -179,85 +448,256 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, initial
     const updatedMessages = [...initialMessages, userMessage];
     onUpdateMessages(updatedMessages);
     
-    const currentInput = input;
-    const currentAttachments = [...attachments];
     setInput('');
     setAttachments([]);
+    setAttachmentErrors([]);
     if (isListening) recognitionRef.current?.stop();
     
-    await performAIGeneration(currentInput, currentAttachments, updatedMessages);
+    await performAIGeneration(updatedMessages);
   };
 
   return (
-    <div className="flex flex-col h-full relative">
-      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 md:p-10 space-y-8 scroll-smooth pb-32">
+    <div className="flex flex-col h-full relative" onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop}>
+      {isDragging && (
+        <div className="absolute inset-4 z-30 flex items-center justify-center rounded-3xl border-2 border-dashed border-blue-500/60 bg-black/80 pointer-events-none">
+          <span className="text-sm font-black uppercase tracking-widest text-blue-400">Drop files to attach</span>
+        </div>
+      )}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 md:p-10 space-y-8 scroll-smooth pb-44">
         {initialMessages.map((msg, idx) => (
-          <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-4`}>
+          <div key={idx} data-message-id={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-4`}>
             <div className={`max-w-[90%] md:max-w-[70%] flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
-              <div className={`p-4 md:p-6 shadow-2xl rounded-3xl ${msg.role === 'user' ? 'bg-blue-600 text-white rounded-tr-none' : 'glass-card text-blue-50 border border-white/10 rounded-tl-none'}`}>
+              <div className={`p-4 md:p-6 shadow-2xl rounded-3xl ${msg.role === 'user' ? 'bg-blue-600 text-white rounded-tr-none' : 'glass-card text-blue-50 border border-white/10 rounded-tl-none'} ${msg.id && msg.id === highlightId ? 'ring-2 ring-blue-400/70' : ''}`}>
                 {editingIdx === idx ? (
                   <div className="space-y-3 min-w-[280px]">
                     <textarea value={editValue} onChange={(e) => setEditValue(e.target.value)} className="w-full bg-black/40 border border-white/20 rounded-2xl p-4 text-sm focus:ring-1 focus:ring-blue-500/50" autoFocus />
                     <div className="flex justify-end gap-3">
                       <button onClick={() => setEditingIdx(null)} className="px-4 py-2 bg-white/5 rounded-xl text-xs font-bold uppercase tracking-widest">Cancel</button>
-                      <button onClick={() => {
-                        const newHist = [...initialMessages.slice(0, idx), { ...msg, parts: [{ text: editValue }] }];
-                        onUpdateMessages(newHist);
-                        setEditingIdx(null);
-                        performAIGeneration(editValue, msg.attachments || [], newHist);
-                      }} className="px-4 py-2 bg-white text-blue-600 rounded-xl text-xs font-bold uppercase tracking-widest">Save</button>
+                      <button onClick={() => handleSaveEdit(idx)} className="px-4 py-2 bg-white text-blue-600 rounded-xl text-xs font-bold uppercase tracking-widest">Save</button>
                     </div>
                   </div>
                 ) : (
-                  <div className="text-sm md:text-base whitespace-pre-wrap leading-relaxed">{msg.parts[0].text}</div>
+                  msg.role === 'model'
+                    ? <>
+                        {msg.toolSteps && <ToolSteps steps={msg.toolSteps} />}
+                        <MarkdownContent text={msg.parts[0].text} className="text-sm md:text-base leading-relaxed" />
+                        {msg.citations && <Citations citations={msg.citations} />}
+                      </>
+                    : <div className="text-sm md:text-base whitespace-pre-wrap leading-relaxed">{msg.parts[0].text}</div>
+                )}
+                {msg.isPartial && (
+                  <div className="mt-3 text-[10px] font-black uppercase tracking-widest text-gray-500">{msg.partialReason === 'failed' ? 'Answer incomplete' : 'Stopped by user'}</div>
                 )}
                 {msg.attachments?.map((att, i) => (
                   <div key={i} className="mt-4">
-                    {att.mimeType.startsWith('image/') ? <img src={`data:${att.mimeType};base64,${att.data}`} className="max-w-full rounded-2xl border border-white/10" /> : <div className="p-3 bg-white/5 rounded-xl text-xs font-mono truncate">{att.name}</div>}
+                    {att.mimeType.startsWith('image/') ? <img src={`data:${att.mimeType};base64,${att.data}`} className="max-w-full rounded-2xl border border-white/10" /> : (
+                      <a href={`data:${att.mimeType};base64,${att.data}`} download={att.name} className="flex items-center gap-2 p-3 bg-white/5 hover:bg-white/10 rounded-xl text-xs font-mono truncate transition-all">
+                        <svg className="w-4 h-4 shrink-0 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                        {att.name}
+                      </a>
+                    )}
                   </div>
                 ))}
               </div>
               <div className="mt-2 flex gap-3 px-1">
+                {branches?.[idx] && onSelectBranch && (
+                  <BranchNav siblings={branches[idx]} current={msg.id} disabled={isLoading} onSelect={onSelectBranch} />
+                )}
+                {showTimestamps && (
+                  <span className="self-center text-[10px] font-mono text-gray-500">{new Date(msg.timestamp).toLocaleTimeString()}</span>
+                )}
                 {msg.role === 'model' && (
-                  <button onClick={() => handleSpeak(msg.parts[0].text, idx)} className={`p-2 rounded-full glass-card hover:text-blue-400 transition-all ${isSpeaking === idx ? 'text-blue-500 animate-pulse' : 'text-gray-500'}`}>
+                  <button onClick={() => handleSpeak(msg)} title={speech.messageId === speechRequest(msg).messageId && speech.state !== 'idle' ? 'Stop reading' : 'Read aloud'} className={`p-2 rounded-full glass-card hover:text-blue-400 transition-all ${speech.messageId === speechRequest(msg).messageId && speech.state !== 'idle' ? 'text-blue-500 animate-pulse' : 'text-gray-500'}`}>
                     <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217z" /></svg>
                   </button>
                 )}
+                {msg.role === 'model' && !isLoading && initialMessages.slice(0, idx).some(m => m.role === 'user') && (
+                  <button onClick={() => handleRegenerate(idx)} title="Regenerate" className="p-2 rounded-full glass-card text-gray-500 hover:text-blue-400 transition-all">
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                  </button>
+                )}
+                {msg.role === 'model' && !msg.isImage && idx > 0 && (['pdf', 'pptx'] as DocumentFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleGenerateDocument(idx, format)}
+                    disabled={generatingDoc !== null}
+                    title={`Export as ${format.toUpperCase()}`}
+                    className={`px-3 py-2 rounded-full glass-card text-[10px] font-black uppercase tracking-widest hover:text-blue-400 transition-all disabled:opacity-40 ${generatingDoc?.idx === idx && generatingDoc.format === format ? 'text-blue-500 animate-pulse' : 'text-gray-500'}`}
+                  >
+                    {format}
+                  </button>
+                ))}
+                {msg.role === 'model' && !msg.isImage && (
+                  <button
+                    onClick={() => handleDownloadSpeech(msg, idx)}
+                    disabled={downloadingSpeech !== null}
+                    title="Download the spoken answer as WAV"
+                    className={`px-3 py-2 rounded-full glass-card text-[10px] font-black uppercase tracking-widest hover:text-blue-400 transition-all disabled:opacity-40 ${downloadingSpeech === speechRequest(msg).messageId ? 'text-blue-500 animate-pulse' : 'text-gray-500'}`}
+                  >
+                    wav
+                  </button>
+                )}
+                {docError?.idx === idx && (
+                  <span className="self-center text-[10px] font-bold text-red-400 uppercase tracking-widest">{docError.message}</span>
+                )}
                 {msg.role === 'user' && !isLoading && (
                   <button onClick={() => { setEditingIdx(idx); setEditValue(msg.parts[0].text); }} className="p-2 rounded-full glass-card text-gray-500 hover:text-blue-400">
                     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
                   </button>
                 )}
               </div>
+              {msg.role === 'model' && speech.messageId === speechRequest(msg).messageId && (speech.state !== 'idle' || speech.error) && (
+                <SpeechControls
+                  status={speech}
+                  speed={speechSpeed}
+                  onPause={() => speechPlayer.pause()}
+                  onResume={() => speechPlayer.resume()}
+                  onStop={() => speechPlayer.stop()}
+                  onSeek={(seconds) => speechPlayer.seek(seconds)}
+                  onSpeed={handleSpeechSpeed}
+                />
+              )}
             </div>
           </div>
         ))}
-        {isLoading && <div className="flex justify-start"><div className="glass-card rounded-2xl p-4 px-6 text-xs font-black text-blue-400 uppercase tracking-widest animate-pulse">WASO Thinking...</div></div>}
+        {!isLoading && failure && failure.messageId === initialMessages[initialMessages.length - 1]?.id && (
+          <div className="flex justify-start">
+            <div className="max-w-[90%] md:max-w-[70%] p-4 md:p-5 rounded-3xl rounded-tl-none glass-card border border-red-500/30 space-y-3">
+              <div className="text-[10px] font-black uppercase tracking-widest text-red-400">{FAILURE_TITLES[failure.code] || FAILURE_TITLES.internal}</div>
+              <div className="text-sm text-gray-300 leading-relaxed">{failure.message}</div>
+              <button onClick={retryGeneration} className="flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-[10px] font-bold uppercase tracking-widest text-gray-300 hover:text-white transition-all">
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                Retry
+              </button>
+            </div>
+          </div>
+        )}
+        {isLoading && (streamingText !== null || toolSteps.length > 0) && (
+          <div className="flex justify-start">
+            <div className="max-w-[90%] md:max-w-[70%] p-4 md:p-6 shadow-2xl rounded-3xl glass-card text-blue-50 border border-white/10 rounded-tl-none">
+              {toolSteps.length > 0 && <ToolSteps steps={toolSteps} />}
+              {streamingText && <MarkdownContent text={streamingText} className="text-sm md:text-base leading-relaxed" />}
+              <span className="inline-block w-2 h-4 mt-1 align-middle bg-blue-400 animate-pulse" />
+            </div>
+          </div>
+        )}
+        {isLoading && streamingText === null && toolSteps.length === 0 && <div className="flex justify-start"><div className="glass-card rounded-2xl p-4 px-6 text-xs font-black text-blue-400 uppercase tracking-widest animate-pulse">WASO Thinking...</div></div>}
       </div>
 
       <div className="absolute bottom-0 left-0 right-0 p-4 glass-card bg-black/95 border-t border-white/5 z-20">
+        <div className="max-w-5xl mx-auto flex flex-wrap items-center gap-2 mb-3">
+          <div className="flex items-center gap-1 bg-white/5 p-1 rounded-xl border border-white/5">
+            {(['auto', 'chat', 'image'] as const).map(mode => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setRequestMode(mode)}
+                className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${requestMode === mode ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-white'}`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          {requestMode !== 'chat' && (
+            <>
+              <select
+                value={imageOptions.aspectRatio}
+                onChange={(e) => setImageOptions(prev => ({ ...prev, aspectRatio: e.target.value }))}
+                title="Image aspect ratio"
+                className="bg-white/5 border border-white/10 rounded-xl px-2 py-1 text-[10px] font-bold text-gray-300 focus:outline-none"
+              >
+                {IMAGE_ASPECT_RATIOS.map(r => <option key={r} value={r} className="bg-black">{r}</option>)}
+              </select>
+              <select
+                value={imageOptions.count}
+                onChange={(e) => setImageOptions(prev => ({ ...prev, count: Number(e.target.value) }))}
+                title="Number of images"
+                className="bg-white/5 border border-white/10 rounded-xl px-2 py-1 text-[10px] font-bold text-gray-300 focus:outline-none"
+              >
+                {Array.from({ length: MAX_IMAGES_PER_REQUEST }, (_, i) => i + 1).map(n => <option key={n} value={n} className="bg-black">{n} {n === 1 ? 'image' : 'images'}</option>)}
+              </select>
+            </>
+          )}
+          <span className="ml-auto text-[10px] font-bold uppercase tracking-widest text-blue-400 truncate max-w-[40%]" title="Persona">{persona.name}</span>
+          <button
+            type="button"
+            onClick={() => setShowKnowledge(true)}
+            title="Files WASO answers from in this chat"
+            className={`flex items-center gap-2 bg-white/5 border rounded-xl px-3 py-1 text-[10px] font-bold uppercase tracking-widest hover:text-white transition-all ${documentCount > 0 ? 'border-blue-500/40 text-blue-400' : 'border-white/10 text-gray-400'}`}
+          >
+            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+            Files{documentCount > 0 ? ` (${documentCount})` : ''}
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowSettings(true)}
+            title="Model and generation settings"
+            className="flex items-center gap-2 bg-white/5 border border-white/10 rounded-xl px-3 py-1 text-[10px] font-bold uppercase tracking-widest text-gray-400 hover:text-white transition-all"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>
+            {findModel(settings.model)?.label || settings.model}
+          </button>
+        </div>
+        <SettingsPanel isOpen={showSettings} onClose={() => setShowSettings(false)} settings={settings} onChange={onUpdateSettings} />
+        <KnowledgePanel isOpen={showKnowledge} onClose={() => setShowKnowledge(false)} sessionId={sessionId} knowledgeBase={knowledgeBase} onChange={setDocumentCount} />
+        {(attachments.length > 0 || isPreparing) && (
+          <div className="max-w-5xl mx-auto flex flex-wrap gap-2 mb-3">
+            {attachments.map((att, i) => (
+              <div key={i} className="flex items-center gap-2 pl-1.5 pr-1 py-1 bg-white/5 border border-white/10 rounded-xl max-w-[220px]">
+                {att.mimeType.startsWith('image/')
+                  ? <img src={`data:${att.mimeType};base64,${att.data}`} className="w-8 h-8 rounded-lg object-cover shrink-0" />
+                  : <svg className="w-5 h-5 mx-1.5 shrink-0 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>}
+                <div className="min-w-0">
+                  <div className="text-[11px] font-medium truncate">{att.name}</div>
+                  <div className="text-[9px] font-mono text-gray-500">{formatBytes(base64Bytes(att.data))}</div>
+                </div>
+                <button type="button" onClick={() => removeAttachment(i)} title="Remove" className="p-1 text-gray-500 hover:text-red-400 transition-colors shrink-0">
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+              </div>
+            ))}
+            {isPreparing && (
+              <div className="flex items-center px-3 py-1 bg-white/5 border border-white/10 rounded-xl text-[10px] font-bold uppercase tracking-widest text-blue-400 animate-pulse">Preparing...</div>
+            )}
+          </div>
+        )}
+        {attachmentErrors.length > 0 && (
+          <div className="max-w-5xl mx-auto mb-3 flex items-start gap-2 text-[11px] font-bold text-red-400">
+            <div className="flex-1 space-y-1">
+              {attachmentErrors.map((error, i) => <div key={i}>{error}</div>)}
+            </div>
+            <button type="button" onClick={() => setAttachmentErrors([])} title="Dismiss" className="p-1 text-gray-500 hover:text-white transition-colors">
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="max-w-5xl mx-auto flex gap-3 items-center h-12 md:h-14">
           <button type="button" onClick={() => fileInputRef.current?.click()} className="w-12 h-full rounded-2xl bg-white/5 border border-white/10 flex items-center justify-center text-blue-400 hover:bg-white/10 transition-all">
             <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" /></svg>
           </button>
-          <input type="file" ref={fileInputRef} onChange={async (e) => {
-            const files = e.target.files; if (!files) return;
-            const res = []; for (let i = 0; i < files.length; i++) {
-              res.push({ data: await fileToBase64(files[i]), mimeType: files[i].type, name: files[i].name });
-            }
-            setAttachments(prev => [...prev, ...res]);
+          <input type="file" ref={fileInputRef} accept={ATTACHMENT_ACCEPT} onChange={(e) => {
+            const files = Array.from(e.target.files || []);
+            // Cleared so picking the same file again still fires a change
+            e.target.value = '';
+            addFiles(files);
           }} multiple className="hidden" />
           
           <div className="flex-1 relative h-full">
-            <input type="text" value={input} onChange={(e) => setInput(e.target.value)} placeholder="Type or speak (Bangla/English)..." className="w-full h-full bg-white/5 border border-white/10 rounded-2xl px-5 pr-12 focus:outline-none focus:ring-1 focus:ring-blue-500/40 text-sm md:text-base font-medium" />
+            <input type="text" value={input} onChange={(e) => setInput(e.target.value)} onPaste={handlePaste} placeholder="Type or speak (Bangla/English)..." className="w-full h-full bg-white/5 border border-white/10 rounded-2xl px-5 pr-12 focus:outline-none focus:ring-1 focus:ring-blue-500/40 text-sm md:text-base font-medium" />
             <button type="button" onClick={toggleListening} className={`absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-xl transition-all ${isListening ? 'text-red-500 bg-red-500/10 animate-pulse' : 'text-gray-500 hover:text-blue-400'}`}>
               <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
             </button>
           </div>
           
-          <button type="submit" disabled={isLoading || (!input.trim() && attachments.length === 0)} className="bg-blue-600 hover:bg-blue-500 text-white w-12 h-12 md:w-14 md:h-14 rounded-2xl flex items-center justify-center transition-all disabled:opacity-30 shadow-lg shadow-blue-500/20">
-            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 10l7-7m0 0l7 7m-7-7v18" /></svg>
-          </button>
+          {isLoading ? (
+            <button type="button" onClick={stopGeneration} title="Stop generating" className="bg-red-500/10 border border-red-500/40 hover:bg-red-500 hover:text-white text-red-500 w-12 h-12 md:w-14 md:h-14 rounded-2xl flex items-center justify-center transition-all shadow-lg">
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>
+            </button>
+          ) : (
+            <button type="submit" disabled={(!input.trim() && attachments.length === 0) || isPreparing} className="bg-blue-600 hover:bg-blue-500 text-white w-12 h-12 md:w-14 md:h-14 rounded-2xl flex items-center justify-center transition-all disabled:opacity-30 shadow-lg shadow-blue-500/20">
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 10l7-7m0 0l7 7m-7-7v18" /></svg>
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,19 @@
+import React from 'react';
+import { Citation } from '../types';
+
+// Files and pages an answer cited as [n]; each entry expands to the excerpt the model was given
+export const Citations: React.FC<{ citations: Citation[] }> = ({ citations }) => (
+  <div className="mt-4 pt-3 border-t border-white/10 space-y-1.5">
+    <div className="text-[9px] font-bold uppercase tracking-widest text-gray-500">Sources</div>
+    {citations.map(c => (
+      <details key={c.index} className="group rounded-xl bg-black/30 border border-white/10">
+        <summary className="cursor-pointer list-none flex items-center gap-2 px-3 py-2 text-[11px] text-gray-300 hover:text-white transition-colors">
+          <span className="font-mono text-blue-400">[{c.index}]</span>
+          <span className="truncate">{c.fileName}</span>
+          {c.page && <span className="ml-auto shrink-0 font-mono text-gray-500">p. {c.page}</span>}
+        </summary>
+        <p className="px-3 pb-3 text-[11px] leading-relaxed text-gray-400 whitespace-pre-wrap">{c.text}</p>
+      </details>
+    ))}
+  </div>
+);
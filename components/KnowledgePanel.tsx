@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { IndexingStage, KNOWLEDGE_ACCEPT, KnowledgeBase, KnowledgeDocument } from '../services/knowledge';
+
+interface KnowledgePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionId: string;
+  knowledgeBase: KnowledgeBase;
+  // Called with the number of files whenever the list changes
+  onChange: (count: number) => void;
+}
+
+interface Upload {
+  id: string; // Two picked files may share a name
+  name: string;
+  stage: IndexingStage;
+}
+
+const STAGE_LABELS: Record<IndexingStage, string> = { reading: 'Reading', embedding: 'Indexing', saving: 'Saving' };
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const KnowledgePanel: React.FC<KnowledgePanelProps> = ({ isOpen, onClose, sessionId, knowledgeBase, onChange }) => {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [uploads, setUploads] = useState<Upload[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    const docs = await knowledgeBase.listDocuments(sessionId);
+    setDocuments(docs);
+    onChange(docs.length);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setErrors([]);
+    refresh().catch(e => setErrors([e.message || 'Could not load the files.']));
+  }, [isOpen, sessionId]);
+
+  if (!isOpen) return null;
+
+  // Files are indexed one at a time to stay within the embedding rate limits
+  const addFiles = async (files: File[]) => {
+    setErrors([]);
+    const queued: Upload[] = files.map(f => ({ id: `upload-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, name: f.name, stage: 'reading' }));
+    setUploads(queued);
+    for (const [i, file] of files.entries()) {
+      const { id } = queued[i];
+      try {
+        await knowledgeBase.addFile(sessionId, file, (stage) =>
+          setUploads(prev => prev.map(u => u.id === id ? { ...u, stage } : u)));
+        await refresh();
+      } catch (e: any) {
+        console.error('Indexing failed:', e);
+        setErrors(prev => [...prev, e.message || `${file.name} could not be added.`]);
+      }
+      setUploads(prev => prev.filter(u => u.id !== id));
+    }
+  };
+
+  const remove = async (doc: KnowledgeDocument) => {
+    setErrors([]);
+    try {
+      await knowledgeBase.deleteDocument(sessionId, doc.id);
+      await refresh();
+    } catch (e: any) {
+      console.error('Removing file failed:', e);
+      setErrors([e.message || `${doc.fileName} could not be removed.`]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto glass-card bg-black/90 rounded-3xl border border-white/10 shadow-2xl p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-black uppercase tracking-widest text-blue-400">Files</h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-lg transition-colors">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <p className="text-xs text-gray-400 leading-relaxed">
+          WASO answers questions in this chat from these PDFs and text files and cites the pages it used. Files stay in this browser; only their text is sent for indexing.
+        </p>
+
+        <div className="space-y-2">
+          {documents.length === 0 && uploads.length === 0 && (
+            <div className="text-xs text-gray-500 text-center py-6 border border-dashed border-white/10 rounded-2xl">No files in this chat yet.</div>
+          )}
+          {documents.map(doc => (
+            <div key={doc.id} className="flex items-center gap-3 p-3 bg-white/5 rounded-xl border border-white/5">
+              <svg className="w-4 h-4 shrink-0 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+              <div className="min-w-0 flex-1">
+                <div className="text-sm font-medium truncate">{doc.fileName}</div>
+                <div className="text-[10px] font-mono text-gray-500">
+                  {formatSize(doc.size)}{doc.pageCount ? ` · ${doc.pageCount} pages` : ''} · {doc.chunkCount} excerpts
+                </div>
+              </div>
+              <button onClick={() => remove(doc)} title="Remove file" className="p-2 text-gray-500 hover:text-red-400 transition-colors">
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+              </button>
+            </div>
+          ))}
+          {uploads.map(upload => (
+            <div key={upload.id} className="flex items-center gap-3 p-3 bg-white/5 rounded-xl border border-white/5">
+              <span className="w-1.5 h-1.5 rounded-full bg-blue-400 animate-pulse shrink-0" />
+              <span className="text-sm truncate flex-1">{upload.name}</span>
+              <span className="text-[10px] font-bold uppercase tracking-widest text-blue-400">{STAGE_LABELS[upload.stage]}...</span>
+            </div>
+          ))}
+        </div>
+
+        {errors.map((error, i) => (
+          <div key={i} className="text-[11px] font-bold text-red-400">{error}</div>
+        ))}
+
+        <input
+          type="file"
+          ref={fileInputRef}
+          accept={KNOWLEDGE_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files || []);
+            e.target.value = '';
+            if (files.length > 0) addFiles(files);
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploads.length > 0}
+          className="w-full py-3 bg-blue-600 hover:bg-blue-500 rounded-xl text-xs font-bold uppercase tracking-widest transition-colors disabled:opacity-40"
+        >
+          Add PDF or text files
+        </button>
+      </div>
+    </div>
+  );
+};
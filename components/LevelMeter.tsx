@@ -0,0 +1,53 @@
+import React, { useEffect, useRef } from 'react';
+import { levelDb } from '../services/live';
+
+const BARS = 5;
+// Levels below this show as silence
+const FLOOR_DB = -60;
+
+interface LevelMeterProps {
+  analyser: AnalyserNode | null;
+  label: string;
+}
+
+// Live level of one side of the call. Bars are updated straight from an animation frame so the
+// meter does not re-render the call screen 60 times a second.
+export const LevelMeter: React.FC<LevelMeterProps> = ({ analyser, label }) => {
+  const barsRef = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    const bars = barsRef.current;
+    if (!analyser) {
+      bars.forEach(bar => bar && (bar.style.transform = 'scaleY(0.2)'));
+      return;
+    }
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = requestAnimationFrame(function draw() {
+      analyser.getFloatTimeDomainData(samples);
+      const level = Math.min(1, Math.max(0, (levelDb(samples) - FLOOR_DB) / -FLOOR_DB));
+      bars.forEach((bar, i) => {
+        // The middle bars reach further, so speech reads as a peak rather than a block
+        const shape = 1 - Math.abs(i - (BARS - 1) / 2) / BARS;
+        if (bar) bar.style.transform = `scaleY(${Math.max(0.2, level * shape * 1.4)})`;
+      });
+      frame = requestAnimationFrame(draw);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [analyser]);
+
+  return (
+    <div className="flex items-center gap-2" title={`${label} level`}>
+      <span className="text-[7px] md:text-[9px] text-gray-500 font-bold uppercase tracking-widest w-8 text-right">{label}</span>
+      <div className="flex items-center gap-0.5 md:gap-1 h-4 md:h-5">
+        {Array.from({ length: BARS }, (_, i) => (
+          <div
+            key={i}
+            ref={el => { barsRef.current[i] = el; }}
+            className="w-0.5 md:w-1 h-full rounded-full bg-blue-500 origin-center transition-transform duration-75"
+            style={{ transform: 'scaleY(0.2)' }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
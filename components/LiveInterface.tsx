@@ -1,7 +1,21 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, Modality } from '@google/genai';
-import { WARVI_SYSTEM_PROMPT } from '../constants';
+import { FunctionCall, LiveServerMessage, Modality } from '@google/genai';
+import { DEFAULT_LIVE_FRAME_RATE, LIVE_FRAME_RATES, LIVE_MODEL, LIVE_RECONNECT_ATTEMPTS, LIVE_RECONNECT_BASE_DELAY_MS } from '../constants';
+import { createLiveClient, isAiStudioDevMode, LiveTokenError, needsAiStudioKey } from '../services/liveAuth';
+import { createMessageId } from '../services/messageTree';
+import { Message, Persona, ToolStep } from '../types';
+import { personaInstruction } from '../services/personas';
+import { ToolContext, toolRegistry, toolResponsePart } from '../services/tools';
+import { ToolSteps } from './ToolSteps';
+import { runToolCall } from '../services/tools/clientRunner';
+import {
+  addLiveUsage, AudioDevices, canChooseOutput, canShareScreen, emptyLiveUsage, estimateLiveCost, LIVE_INPUT_SAMPLE_RATE,
+  listAudioDevices, LiveUsage, MicCapture, MicCaptureHandlers, openMicrophone, openVideoSource, setOutputDevice,
+  VideoCapture, VideoSourceKind
+} from '../services/live';
+import { backoffDelay } from '../services/retry';
+import { LevelMeter } from './LevelMeter';
 
 // Manual Base64 encoding as required by instructions
 function encode(bytes: Uint8Array) {
@@ -43,32 +57,160 @@ async function decodeAudioData(
   return buffer;
 }
 
-export const LiveInterface: React.FC = () => {
-  const [isActive, setIsActive] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
+interface LiveInterfaceProps {
+  // Called with the call's transcript whenever a turn completes and when the call ends
+  onTranscript: (callId: string, messages: Message[]) => void;
+  personas: Persona[];
+  // Persona for the next call; it cannot change while a call is running
+  persona: Persona;
+  onSelectPersona: (id: string) => void;
+  toolContext: ToolContext;
+}
+
+type LiveStatus = 'idle' | 'connecting' | 'live' | 'reconnecting';
+
+const STATUS_DOTS: Record<LiveStatus, string> = {
+  idle: 'bg-gray-500',
+  connecting: 'bg-blue-500 animate-pulse',
+  live: 'bg-green-500',
+  reconnecting: 'bg-yellow-500 animate-pulse'
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  const clock = `${Math.floor(seconds / 60) % 60}:${String(seconds % 60).padStart(2, '0')}`;
+  return seconds >= 3600 ? `${Math.floor(seconds / 3600)}:${clock.padStart(5, '0')}` : clock;
+};
+
+const formatCost = (usd: number) => usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+// Recent tool calls shown on the call screen
+const MAX_VISIBLE_TOOL_STEPS = 3;
+
+const VIDEO_LABELS: Record<VideoSourceKind, string> = { camera: 'Camera', screen: 'Screen' };
+
+// What WASO is being shown; the camera is mirrored like a selfie view
+const VideoPreview: React.FC<{ stream: MediaStream; kind: VideoSourceKind; onStop: () => void }> = ({ stream, kind, onStop }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+  return (
+    <div className="relative w-40 md:w-56 aspect-video rounded-xl overflow-hidden border border-white/10 bg-black">
+      <video ref={videoRef} autoPlay muted playsInline className={`w-full h-full object-contain ${kind === 'camera' ? '-scale-x-100' : ''}`} />
+      <span className="absolute top-1.5 left-1.5 px-1.5 py-0.5 rounded bg-black/70 text-[8px] font-bold uppercase tracking-widest text-red-400">● {VIDEO_LABELS[kind]}</span>
+      <button onClick={onStop} title={`Stop ${VIDEO_LABELS[kind].toLowerCase()}`} className="absolute top-1.5 right-1.5 w-5 h-5 rounded-full bg-black/70 text-gray-300 hover:text-white text-xs leading-none">×</button>
+    </div>
+  );
+};
+
+export const LiveInterface: React.FC<LiveInterfaceProps> = ({ onTranscript, personas, persona, onSelectPersona, toolContext }) => {
+  const [status, setStatus] = useState<LiveStatus>('idle');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [needsKey, setNeedsKey] = useState(false);
+  const [muted, setMuted] = useState(false);
+  const [devices, setDevices] = useState<AudioDevices>({ inputs: [], outputs: [] });
+  const [inputId, setInputId] = useState('default');
+  const [outputId, setOutputId] = useState('default');
+  const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [usage, setUsage] = useState<LiveUsage>(emptyLiveUsage);
+  const [videoStreams, setVideoStreams] = useState<Partial<Record<VideoSourceKind, MediaStream>>>({});
+  const [frameRate, setFrameRate] = useState(DEFAULT_LIVE_FRAME_RATE);
+  const [toolActivity, setToolActivity] = useState<ToolStep[]>([]);
+  const isActive = status === 'live' || status === 'reconnecting';
+  const isConnecting = status === 'connecting';
   
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<MicCapture | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
+  // Playback goes through this analyser on its way to the speakers
+  const outputNodeRef = useRef<AnalyserNode | null>(null);
   const sessionRef = useRef<any>(null);
+  // Bumped for every connection; callbacks of an older one are ignored
+  const generationRef = useRef(0);
+  const resumeHandleRef = useRef<string | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // The server announced it will close this connection; reconnect at the next pause
+  const goingAwayRef = useRef(false);
+  const mutedRef = useRef(muted);
+  mutedRef.current = muted;
+  const videoCapturesRef = useRef<Partial<Record<VideoSourceKind, VideoCapture>>>({});
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // The model is still sending audio for its current turn
+  const modelTurnOpenRef = useRef(false);
+  // Set when the user talks over the model: the rest of that turn's audio is dropped
+  const discardModelAudioRef = useRef(false);
+  const callIdRef = useRef<string | null>(null);
+  const transcriptRef = useRef<Message[]>([]);
+  const turnOpenRef = useRef(false);
+  const onTranscriptRef = useRef(onTranscript);
+  onTranscriptRef.current = onTranscript;
+  const toolContextRef = useRef(toolContext);
+  toolContextRef.current = toolContext;
+  // Tool steps waiting for the model's next utterance
+  const pendingStepsRef = useRef<ToolStep[]>([]);
+  // Tool calls still running, by call id, so the server can cancel them
+  const toolCallsRef = useRef<Map<string, AbortController>>(new Map());
+
+  // Fragments extend the open utterance of the same speaker; a new speaker or turn starts a new one
+  const appendTranscript = (role: Message['role'], fragment: string) => {
+    const messages = transcriptRef.current;
+    const last = messages[messages.length - 1];
+    if (last && last.role === role && turnOpenRef.current) {
+      messages[messages.length - 1] = { ...last, parts: [{ text: last.parts[0].text + fragment }] };
+    } else {
+      const steps = role === 'model' ? pendingStepsRef.current.splice(0) : [];
+      messages.push({ id: createMessageId(), role, parts: [{ text: fragment.trimStart() }], timestamp: Date.now(), ...(steps.length ? { toolSteps: steps } : {}) });
+    }
+    turnOpenRef.current = true;
+  };
+
+  // Steps belong to the utterance the model is speaking, or to its next one
+  const recordToolSteps = (steps: ToolStep[]) => {
+    const messages = transcriptRef.current;
+    const last = messages[messages.length - 1];
+    if (last && last.role === 'model' && turnOpenRef.current) {
+      messages[messages.length - 1] = { ...last, toolSteps: [...(last.toolSteps || []), ...steps] };
+    } else {
+      pendingStepsRef.current.push(...steps);
+    }
+  };
+
+  const flushTranscript = useCallback(() => {
+    turnOpenRef.current = false;
+    if (callIdRef.current && transcriptRef.current.length > 0) {
+      onTranscriptRef.current(callIdRef.current, transcriptRef.current.map(m => ({ ...m, parts: [{ text: m.parts[0].text.trim() }] })));
+    }
+  }, []);
 
-  // Check if API key is available or needs selection (for sharable apps)
+  // Dev mode only: check whether an AI Studio key still needs to be selected
   useEffect(() => {
-    const checkKey = async () => {
-      if (!(window as any).aistudio) return;
-      const hasKey = await (window as any).aistudio.hasSelectedApiKey();
-      if (!hasKey && !process.env.API_KEY) {
-        setNeedsKey(true);
-      }
-    };
-    checkKey();
+    needsAiStudioKey().then(setNeedsKey);
   }, []);
 
+  const refreshDevices = useCallback(() => {
+    listAudioDevices().then(setDevices).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    const timer = setInterval(() => setElapsed(Date.now() - startedAt), 1000);
+    return () => clearInterval(timer);
+  }, [startedAt]);
+
   const handleOpenKeyDialog = async () => {
-    if ((window as any).aistudio) {
+    if (isAiStudioDevMode()) {
       await (window as any).aistudio.openSelectKey();
       setNeedsKey(false);
       // Proceeding after selection
@@ -76,160 +218,410 @@ export const LiveInterface: React.FC = () => {
     }
   };
 
+  const stopPlayback = () => {
+    for (const source of sourcesRef.current) {
+      try { source.stop(); } catch(e) {}
+    }
+    sourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+  };
+
+  // Local speech cuts the model off at once instead of waiting for the server's `interrupted`
+  const bargeIn = () => {
+    stopPlayback();
+    if (modelTurnOpenRef.current) discardModelAudioRef.current = true;
+  };
+
+  // Dropped while there is no connection, e.g. during a reconnect
+  const sendRealtime = (input: Record<string, unknown>) => sessionRef.current?.sendRealtimeInput(input);
+
+  // Audio is only uploaded while the user speaks, framed by activity start and end
+  const captureHandlers: MicCaptureHandlers = {
+    onSpeechStart: () => {
+      bargeIn();
+      sendRealtime({ activityStart: {} });
+    },
+    onAudio: (pcm) => sendRealtime({ audio: { data: encode(new Uint8Array(pcm.buffer)), mimeType: `audio/pcm;rate=${LIVE_INPUT_SAMPLE_RATE}` } }),
+    onSpeechEnd: () => sendRealtime({ activityEnd: {} })
+  };
+
   const stopSession = useCallback(() => {
+    generationRef.current++;
+    clearTimeout(reconnectTimerRef.current);
+    reconnectAttemptRef.current = 0;
+    resumeHandleRef.current = null;
+    goingAwayRef.current = false;
+
+    toolCallsRef.current.forEach(controller => controller.abort());
+    toolCallsRef.current.clear();
+    flushTranscript();
+    callIdRef.current = null;
+    transcriptRef.current = [];
+    pendingStepsRef.current = [];
     if (sessionRef.current) {
       sessionRef.current.close?.();
       sessionRef.current = null;
     }
-    setIsActive(false);
-    setIsConnecting(false);
+    setStatus('idle');
+    setReconnectAttempt(0);
+    setStartedAt(null);
+
+    stopPlayback();
+    modelTurnOpenRef.current = false;
+    discardModelAudioRef.current = false;
+
+    captureRef.current?.stop();
+    captureRef.current = null;
+    Object.values(videoCapturesRef.current).forEach(capture => capture?.stop());
+    videoCapturesRef.current = {};
+    setVideoStreams({});
+    if (outputAudioContextRef.current) outputAudioContextRef.current.close().catch(() => {});
+    outputAudioContextRef.current = null;
+    outputNodeRef.current = null;
+    setInputAnalyser(null);
+    setOutputAnalyser(null);
+  }, [flushTranscript]);
+
+  const showToolSteps = (steps: ToolStep[]) => setToolActivity(current => {
+    const updated = current.map(step => steps.find(s => s.id && s.id === step.id) || step);
+    const added = steps.filter(step => !current.some(s => s.id && s.id === step.id));
+    return [...updated, ...added].slice(-MAX_VISIBLE_TOOL_STEPS);
+  });
+
+  // Runs the calls and answers them together. Calls the server cancels in the meantime (usually
+  // because the user spoke) are recorded as cancelled and left unanswered.
+  const runLiveToolCalls = async (functionCalls: FunctionCall[], generation: number) => {
+    const calls = functionCalls.map(call => ({
+      call: { id: call.id, name: call.name || '', args: call.args || {} },
+      controller: new AbortController()
+    }));
+    calls.forEach(({ call, controller }) => call.id && toolCallsRef.current.set(call.id, controller));
+    showToolSteps(calls.map(({ call }) => ({ ...call, runsOn: toolRegistry.get(call.name)?.runsOn || 'server' })));
+
+    const results = await Promise.all(calls.map(({ call, controller }) => runToolCall(call, toolContextRef.current, controller.signal)));
+    calls.forEach(({ call }) => call.id && toolCallsRef.current.delete(call.id));
+    const steps = results.map((step, i) => calls[i].controller.signal.aborted ? { ...step, output: undefined, error: 'Cancelled.' } : step);
+    showToolSteps(steps);
+    // The call may have ended or reconnected while the tools ran
+    if (generation !== generationRef.current) return;
+    recordToolSteps(steps);
+    const answered = steps.filter((_, i) => !calls[i].controller.signal.aborted);
+    if (answered.length) {
+      sessionRef.current?.sendToolResponse({ functionResponses: answered.map(step => toolResponsePart(step).functionResponse) });
+    }
+  };
+
+  const playAudio = async (base64Audio: string) => {
+    const ctx = outputAudioContextRef.current;
+    const output = outputNodeRef.current;
+    if (!ctx || !output) return;
+    nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
     
-    for (const source of sourcesRef.current) {
-        try { source.stop(); } catch(e) {}
+    const audioBuffer = await decodeAudioData(
+      decode(base64Audio),
+      ctx,
+      24000,
+      1
+    );
+    
+    const source = ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(output);
+    source.addEventListener('ended', () => {
+      sourcesRef.current.delete(source);
+    });
+    
+    source.start(nextStartTimeRef.current);
+    nextStartTimeRef.current += audioBuffer.duration;
+    sourcesRef.current.add(source);
+  };
+
+  const handleMessage = async (message: LiveServerMessage, generation: number) => {
+    const functionCalls = message.toolCall?.functionCalls;
+    if (functionCalls?.length) runLiveToolCalls(functionCalls, generation);
+    message.toolCallCancellation?.ids?.forEach(id => toolCallsRef.current.get(id)?.abort());
+
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) resumeHandleRef.current = resumption.newHandle;
+    if (message.goAway) goingAwayRef.current = true;
+    if (message.usageMetadata) {
+      const metadata = message.usageMetadata;
+      setUsage(current => addLiveUsage(current, metadata));
     }
-    sourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
 
-    if (audioContextRef.current) audioContextRef.current.close().catch(() => {});
-    if (outputAudioContextRef.current) outputAudioContextRef.current.close().catch(() => {});
-  }, []);
+    const inputText = message.serverContent?.inputTranscription?.text;
+    if (inputText) appendTranscript('user', inputText);
+    const outputText = message.serverContent?.outputTranscription?.text;
+    if (outputText) appendTranscript('model', outputText);
+    if (message.serverContent?.turnComplete || message.serverContent?.interrupted) {
+      flushTranscript();
+      modelTurnOpenRef.current = false;
+      discardModelAudioRef.current = false;
+      // Between turns the switch to a new connection goes unnoticed
+      if (goingAwayRef.current && !captureRef.current?.speaking) {
+        dropConnection();
+        return;
+      }
+    }
+
+    for (const part of message.serverContent?.modelTurn?.parts || []) {
+      if (part.inlineData?.data) {
+        modelTurnOpenRef.current = true;
+        if (!discardModelAudioRef.current) await playAudio(part.inlineData.data);
+        // The call may have ended or reconnected while the audio decoded
+        if (generation !== generationRef.current) return;
+      }
+      // Speech is transcribed through outputTranscription; besides thoughts, text parts are what the model wrote instead
+      if (part.text && !part.thought) appendTranscript('model', part.text);
+    }
+
+    if (message.serverContent?.interrupted) stopPlayback();
+  };
+
+  // Opens a connection for the running call, resuming the server-side session when a handle is known
+  const connect = async () => {
+    const generation = ++generationRef.current;
+    const { ai, model } = await createLiveClient(LIVE_MODEL);
+    if (generation !== generationRef.current) return;
+
+    const session = await ai.live.connect({
+      model,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { 
+            prebuiltVoiceConfig: { 
+              voiceName: persona.voice 
+            } 
+          },
+        },
+        systemInstruction: `${personaInstruction(persona)}\nRespond only as ${persona.name}.`,
+        tools: [{ functionDeclarations: toolRegistry.declarations(toolRegistry.names('live')) }],
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        // Turns are marked by the local voice activity detector (MicCapture)
+        realtimeInputConfig: { automaticActivityDetection: { disabled: true } },
+        sessionResumption: { handle: resumeHandleRef.current ?? undefined }
+      },
+      callbacks: {
+        onmessage: (message) => {
+          if (generation !== generationRef.current) return;
+          handleMessage(message, generation).catch(error => {
+            if (generation !== generationRef.current) return;
+            console.error('Live message failed:', error);
+            setErrorMsg("Part of WASO's reply could not be played.");
+          });
+        },
+        onerror: (err: any) => {
+          if (generation !== generationRef.current) return;
+          console.error('Live Error:', err);
+          if (isAiStudioDevMode() && err.message?.includes("entity was not found")) {
+            stopSession();
+            setErrorMsg("API Key issue. Please re-select your key.");
+            setNeedsKey(true);
+            return;
+          }
+          dropConnection();
+        },
+        onclose: () => {
+          if (generation === generationRef.current) dropConnection();
+        }
+      }
+    });
+    if (generation !== generationRef.current) {
+      session.close();
+      return;
+    }
+
+    sessionRef.current = session;
+    goingAwayRef.current = false;
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(0);
+    setStatus('live');
+    // An utterance that began on the dropped connection carries on over this one
+    if (captureRef.current?.speaking) session.sendRealtimeInput({ activityStart: {} });
+  };
+
+  // The connection ended without the user hanging up: the call stays open and reconnects
+  const dropConnection = () => {
+    generationRef.current++;
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    session?.close?.();
+    // Their answers could not be delivered over the new connection
+    toolCallsRef.current.forEach(controller => controller.abort());
+    toolCallsRef.current.clear();
+    stopPlayback();
+    modelTurnOpenRef.current = false;
+    discardModelAudioRef.current = false;
+    flushTranscript();
+    scheduleReconnect();
+  };
+
+  const scheduleReconnect = () => {
+    const attempt = ++reconnectAttemptRef.current;
+    if (attempt > LIVE_RECONNECT_ATTEMPTS) {
+      stopSession();
+      setErrorMsg("Connection lost. Please try again.");
+      return;
+    }
+    setStatus('reconnecting');
+    setReconnectAttempt(attempt);
+    reconnectTimerRef.current = setTimeout(() => {
+      const generation = generationRef.current + 1;
+      connect().catch(error => {
+        console.error('Live reconnect failed:', error);
+        // A callback of the failed connection may already have scheduled the next attempt
+        if (!callIdRef.current || generation !== generationRef.current) return;
+        if (error instanceof LiveTokenError && !error.retryable) {
+          stopSession();
+          setErrorMsg(error.message);
+          return;
+        }
+        scheduleReconnect();
+      });
+    }, backoffDelay(attempt, LIVE_RECONNECT_BASE_DELAY_MS));
+  };
 
   const startSession = async () => {
     try {
       setErrorMsg(null);
-      setIsConnecting(true);
+      setStatus('connecting');
       
-      // 1. Check for API key (AI Studio specific sharing logic)
-      if ((window as any).aistudio) {
-        const hasKey = await (window as any).aistudio.hasSelectedApiKey();
-        if (!hasKey && !process.env.API_KEY) {
-          setNeedsKey(true);
-          setIsConnecting(false);
-          return;
-        }
+      // 1. Dev mode only: make sure an AI Studio key has been selected
+      if (await needsAiStudioKey()) {
+        setNeedsKey(true);
+        setStatus('idle');
+        return;
       }
 
       // 2. Request microphone access
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true }).catch(err => {
-        if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-          throw new Error("Microphone access denied. Please enable permissions in your browser and reload.");
-        }
-        throw new Error("Unable to access microphone. Please check your hardware.");
-      });
-      
-      // 3. Initialize GenAI (Always new instance to catch latest key)
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const stream = await openMicrophone(inputId);
       
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
       const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      
-      if (inputCtx.state === 'suspended') await inputCtx.resume();
       if (outputCtx.state === 'suspended') await outputCtx.resume();
-      
-      audioContextRef.current = inputCtx;
       outputAudioContextRef.current = outputCtx;
+      const outputNode = outputCtx.createAnalyser();
+      outputNode.fftSize = 1024;
+      outputNode.connect(outputCtx.destination);
+      outputNodeRef.current = outputNode;
+      setOutputDevice(outputCtx, outputId).catch(() => {});
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { 
-              prebuiltVoiceConfig: { 
-                voiceName: 'Fenrir' 
-              } 
-            },
-          },
-          systemInstruction: WARVI_SYSTEM_PROMPT + " Respond only as WASO in a professional Baritone voice.",
-        },
-        callbacks: {
-          onopen: () => {
-            setIsActive(true);
-            setIsConnecting(false);
-            const source = inputCtx.createMediaStreamSource(stream);
-            const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const l = inputData.length;
-              const int16 = new Int16Array(l);
-              for (let i = 0; i < l; i++) {
-                int16[i] = inputData[i] * 32768;
-              }
-              const pcmBlob = {
-                data: encode(new Uint8Array(int16.buffer)),
-                mimeType: 'audio/pcm;rate=16000',
-              };
-              
-              sessionPromise.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputCtx.destination);
-          },
-          onmessage: async (message) => {
-            const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio && outputAudioContextRef.current) {
-              const ctx = outputAudioContextRef.current;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              
-              const audioBuffer = await decodeAudioData(
-                decode(base64Audio),
-                ctx,
-                24000,
-                1
-              );
-              
-              const source = ctx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(ctx.destination);
-              source.addEventListener('ended', () => {
-                sourcesRef.current.delete(source);
-              });
-              
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              sourcesRef.current.add(source);
-            }
-
-            if (message.serverContent?.interrupted) {
-              for (const source of sourcesRef.current) {
-                try { source.stop(); } catch(e) {}
-              }
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
-          },
-          onerror: (err: any) => {
-            console.error('Live Error:', err);
-            if (err.message?.includes("entity was not found")) {
-              setErrorMsg("API Key issue. Please re-select your key.");
-              setNeedsKey(true);
-            } else {
-              setErrorMsg("Connection interrupted. Please try again.");
-            }
-            stopSession();
-          },
-          onclose: () => {
-            stopSession();
-          }
-        }
+      callIdRef.current = `live-${Date.now()}`;
+      transcriptRef.current = [];
+      turnOpenRef.current = false;
+      setUsage(emptyLiveUsage());
+      setToolActivity([]);
+      setElapsed(0);
+
+      const capture = await MicCapture.start(stream, captureHandlers).catch(error => {
+        stream.getTracks().forEach(track => track.stop());
+        throw error;
       });
+      captureRef.current = capture;
+      capture.muted = mutedRef.current;
+      setInputAnalyser(capture.analyser);
+      setOutputAnalyser(outputNode);
+      // Device names are only readable once the microphone is granted
+      refreshDevices();
 
-      sessionRef.current = await sessionPromise;
+      // 3. Connect with a fresh ephemeral token (or the dev key)
+      await connect();
+      if (callIdRef.current) setStartedAt(Date.now());
     } catch (error: any) {
       console.error('Failed to start Live API:', error);
+      stopSession();
       setErrorMsg(error.message || "Failed to initiate voice link.");
-      setIsConnecting(false);
     }
   };
 
+  const toggleMute = () => {
+    const next = !muted;
+    setMuted(next);
+    if (captureRef.current) captureRef.current.muted = next;
+  };
+
+  // Switching microphones mid-call replaces the capture; the connection stays up
+  const changeInput = async (deviceId: string) => {
+    setInputId(deviceId);
+    if (!captureRef.current) return;
+    try {
+      const stream = await openMicrophone(deviceId);
+      const capture = await MicCapture.start(stream, captureHandlers).catch(error => {
+        stream.getTracks().forEach(track => track.stop());
+        throw error;
+      });
+      const previous = captureRef.current;
+      if (!previous) {
+        capture.stop();
+        return;
+      }
+      if (previous.speaking) sendRealtime({ activityEnd: {} });
+      previous.stop();
+      capture.muted = mutedRef.current;
+      captureRef.current = capture;
+      setInputAnalyser(capture.analyser);
+    } catch (error: any) {
+      setErrorMsg(error.message || "Unable to switch microphones.");
+    }
+  };
+
+  const changeOutput = (deviceId: string) => {
+    setOutputId(deviceId);
+    if (outputAudioContextRef.current) {
+      setOutputDevice(outputAudioContextRef.current, deviceId).catch(() => setErrorMsg("Unable to switch speakers."));
+    }
+  };
+
+  const stopVideo = (kind: VideoSourceKind) => {
+    videoCapturesRef.current[kind]?.stop();
+    delete videoCapturesRef.current[kind];
+    setVideoStreams(current => {
+      const { [kind]: _, ...rest } = current;
+      return rest;
+    });
+  };
+
+  // Frames go out alongside the microphone audio for as long as the source is on
+  const toggleVideo = async (kind: VideoSourceKind) => {
+    if (videoCapturesRef.current[kind]) {
+      stopVideo(kind);
+      return;
+    }
+    try {
+      const stream = await openVideoSource(kind);
+      if (!callIdRef.current || videoCapturesRef.current[kind]) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      videoCapturesRef.current[kind] = new VideoCapture(stream, {
+        onFrame: (frame) => sendRealtime({ video: frame }),
+        onEnded: () => stopVideo(kind)
+      }, frameRate);
+      setVideoStreams(current => ({ ...current, [kind]: stream }));
+    } catch (error: any) {
+      setErrorMsg(error.message || `Unable to start the ${VIDEO_LABELS[kind].toLowerCase()}.`);
+    }
+  };
+
+  const changeFrameRate = (rate: number) => {
+    setFrameRate(rate);
+    Object.values(videoCapturesRef.current).forEach(capture => {
+      if (capture) capture.frameRate = rate;
+    });
+  };
+
   useEffect(() => {
     return () => stopSession();
   }, [stopSession]);
 
+  const statusLabel = status === 'live'
+    ? (muted ? 'Link Established · Muted' : 'Baritone Link Established')
+    : status === 'reconnecting'
+      ? `Reconnecting ${reconnectAttempt}/${LIVE_RECONNECT_ATTEMPTS}`
+      : status === 'connecting' ? 'Establishing Link' : 'Link Offline';
+  const selectClass = "w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[10px] font-bold uppercase tracking-widest text-gray-300 focus:outline-none truncate";
+
   return (
     <div className="flex flex-col h-full items-center justify-center p-4 md:p-8 overflow-hidden relative">
       <div className="flex flex-col items-center gap-6 md:gap-12 w-full max-w-3xl text-center py-4 md:py-8 h-full md:h-auto justify-center">
@@ -251,13 +643,19 @@ export const LiveInterface: React.FC = () => {
         <div className="space-y-3 md:space-y-4 shrink-0 px-4">
           <div className="flex flex-col items-center gap-1 md:gap-2">
             <h2 className="text-2xl md:text-5xl font-black tracking-tight text-white uppercase">
-              {isActive ? 'WASO ACTIVE' : isConnecting ? 'CONNECTING...' : 'SYSTEM STANDBY'}
+              {status === 'live' ? 'WASO ACTIVE' : status === 'reconnecting' ? 'RECONNECTING...' : isConnecting ? 'CONNECTING...' : 'SYSTEM STANDBY'}
             </h2>
             <div className="flex items-center gap-2 md:gap-3">
                <div className="h-px w-6 md:w-12 bg-blue-500/30"></div>
-               <span className="text-[7px] md:text-[10px] text-blue-400 font-black tracking-[0.2em] md:tracking-[0.5em] uppercase">Baritone Link Established</span>
+               <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${STATUS_DOTS[status]}`}></span>
+               <span className="text-[7px] md:text-[10px] text-blue-400 font-black tracking-[0.2em] md:tracking-[0.5em] uppercase">{statusLabel}</span>
                <div className="h-px w-6 md:w-12 bg-blue-500/30"></div>
             </div>
+            {(isActive || elapsed > 0) && (
+              <p className="text-[9px] md:text-[11px] text-gray-400 font-bold uppercase tracking-widest font-mono" title="Estimated from the tokens the server reported; the bill may differ">
+                {isActive ? '' : 'Last call · '}{formatDuration(elapsed)} · ~{formatCost(estimateLiveCost(usage))}
+              </p>
+            )}
             {errorMsg && (
               <p className="text-red-400 text-[10px] md:text-xs font-bold mt-2 uppercase tracking-widest bg-red-500/10 px-4 py-2 rounded-lg border border-red-500/20 animate-bounce max-w-sm">
                 {errorMsg}
@@ -279,45 +677,120 @@ export const LiveInterface: React.FC = () => {
               <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" className="text-blue-500 text-[10px] font-bold underline">Billing Docs</a>
             </div>
           ) : !isActive ? (
-            <button
-              onClick={startSession}
-              disabled={isConnecting}
-              className="w-full md:w-auto bg-blue-600 hover:bg-blue-500 disabled:bg-gray-800 text-white px-8 md:px-14 py-4 md:py-6 rounded-xl md:rounded-3xl font-black text-sm md:text-xl tracking-widest flex items-center justify-center gap-3 md:gap-4 transition-all shadow-[0_10px_30px_rgba(37,99,235,0.2)] active:scale-95 border border-blue-400/20"
-            >
-              {isConnecting ? (
-                <>
-                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                  INITIATING...
-                </>
-              ) : (
-                <>
-                  <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 md:w-7 md:h-7" viewBox="0 0 24 24" fill="currentColor">
-                    <path d="M12 2C6.477 2 2 6.477 2 12s4.477 10 10 10 10-4.477 10-10S17.523 2 12 2zm1 14.5h-2v-2h2v2zm0-4h-2V7h2v5.5z" />
-                  </svg>
-                  START CONVERSATION
-                </>
-              )}
-            </button>
+            <>
+              <select
+                value={persona.id}
+                onChange={(e) => onSelectPersona(e.target.value)}
+                disabled={isConnecting}
+                title="Persona"
+                className="w-full md:w-auto bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-xs font-bold uppercase tracking-widest text-gray-300 focus:outline-none"
+              >
+                {personas.map(p => <option key={p.id} value={p.id} className="bg-black">{p.name}</option>)}
+              </select>
+              <button
+                onClick={startSession}
+                disabled={isConnecting}
+                className="w-full md:w-auto bg-blue-600 hover:bg-blue-500 disabled:bg-gray-800 text-white px-8 md:px-14 py-4 md:py-6 rounded-xl md:rounded-3xl font-black text-sm md:text-xl tracking-widest flex items-center justify-center gap-3 md:gap-4 transition-all shadow-[0_10px_30px_rgba(37,99,235,0.2)] active:scale-95 border border-blue-400/20"
+              >
+                {isConnecting ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    INITIATING...
+                  </>
+                ) : (
+                  <>
+                    <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 md:w-7 md:h-7" viewBox="0 0 24 24" fill="currentColor">
+                      <path d="M12 2C6.477 2 2 6.477 2 12s4.477 10 10 10 10-4.477 10-10S17.523 2 12 2zm1 14.5h-2v-2h2v2zm0-4h-2V7h2v5.5z" />
+                    </svg>
+                    START CONVERSATION
+                  </>
+                )}
+              </button>
+            </>
           ) : (
-            <button
-              onClick={stopSession}
-              className="w-full md:w-auto bg-red-500/10 border-2 border-red-500/40 hover:bg-red-500 hover:text-white text-red-500 px-8 md:px-14 py-4 md:py-6 rounded-xl md:rounded-3xl font-black text-sm md:text-xl tracking-widest flex items-center justify-center gap-3 md:gap-4 transition-all shadow-xl"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 md:w-7 md:h-7" viewBox="0 0 24 24" fill="currentColor">
-                <path d="M12 2C6.47 2 2 6.47 2 12s4.47 10 10 10 10-4.47 10-10S17.53 2 12 2zm5 13.59L15.59 17 12 13.41 8.41 17 7 15.59 10.59 12 7 8.41 8.41 7 12 10.59 15.59 7 17 8.41 13.41 12 17 15.59z" />
-              </svg>
-              DISCONNECT
-            </button>
+            <div className="flex flex-col md:flex-row items-stretch md:items-center gap-3 md:gap-4 w-full md:w-auto">
+              <button
+                onClick={toggleMute}
+                title={muted ? 'Unmute microphone' : 'Mute microphone'}
+                className={`px-6 md:px-8 py-4 md:py-6 rounded-xl md:rounded-3xl font-black text-sm md:text-xl tracking-widest flex items-center justify-center gap-3 transition-all border-2 ${muted ? 'bg-yellow-500/10 border-yellow-500/40 text-yellow-400 hover:bg-yellow-500/20' : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'}`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 md:w-7 md:h-7" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z" />
+                  {muted && <path strokeLinecap="round" d="M4 4l16 16" />}
+                </svg>
+                {muted ? 'UNMUTE' : 'MUTE'}
+              </button>
+              <button
+                onClick={stopSession}
+                className="w-full md:w-auto bg-red-500/10 border-2 border-red-500/40 hover:bg-red-500 hover:text-white text-red-500 px-8 md:px-14 py-4 md:py-6 rounded-xl md:rounded-3xl font-black text-sm md:text-xl tracking-widest flex items-center justify-center gap-3 md:gap-4 transition-all shadow-xl"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 md:w-7 md:h-7" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M12 2C6.47 2 2 6.47 2 12s4.47 10 10 10 10-4.47 10-10S17.53 2 12 2zm5 13.59L15.59 17 12 13.41 8.41 17 7 15.59 10.59 12 7 8.41 8.41 7 12 10.59 15.59 7 17 8.41 13.41 12 17 15.59z" />
+                </svg>
+                DISCONNECT
+              </button>
+            </div>
+          )}
+
+          {isActive && toolActivity.length > 0 && (
+            <div className="w-full md:w-[28rem] text-left">
+              <ToolSteps steps={toolActivity} />
+            </div>
+          )}
+
+          {isActive && (
+            <div className="flex flex-col items-center gap-3 w-full">
+              {Object.keys(videoStreams).length > 0 && (
+                <div className="flex flex-wrap justify-center gap-2">
+                  {(Object.entries(videoStreams) as [VideoSourceKind, MediaStream][]).map(([kind, stream]) => (
+                    <VideoPreview key={kind} kind={kind} stream={stream} onStop={() => stopVideo(kind)} />
+                  ))}
+                </div>
+              )}
+              <div className="flex flex-wrap items-center justify-center gap-2">
+                {(['camera', 'screen'] as VideoSourceKind[]).filter(kind => kind === 'camera' || canShareScreen()).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => toggleVideo(kind)}
+                    className={`px-4 py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest border transition-all ${videoStreams[kind] ? 'bg-blue-600 border-blue-400/40 text-white' : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'}`}
+                  >
+                    {VIDEO_LABELS[kind]} {videoStreams[kind] ? 'On' : 'Off'}
+                  </button>
+                ))}
+                <select
+                  value={frameRate}
+                  onChange={(e) => changeFrameRate(Number(e.target.value))}
+                  title="Frames sent per second"
+                  className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[10px] font-bold uppercase tracking-widest text-gray-300 focus:outline-none"
+                >
+                  {LIVE_FRAME_RATES.map(rate => <option key={rate} value={rate} className="bg-black">{rate} fps</option>)}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {!needsKey && (devices.inputs.length > 0 || devices.outputs.length > 0) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 w-full md:w-[28rem]">
+              <select value={inputId} onChange={(e) => changeInput(e.target.value)} disabled={isConnecting} title="Microphone" className={selectClass}>
+                {!devices.inputs.some(d => d.deviceId === 'default') && <option value="default" className="bg-black">Default microphone</option>}
+                {devices.inputs.map((d, i) => <option key={d.deviceId} value={d.deviceId} className="bg-black">{d.label || `Microphone ${i + 1}`}</option>)}
+              </select>
+              {canChooseOutput() && (
+                <select value={outputId} onChange={(e) => changeOutput(e.target.value)} disabled={isConnecting} title="Speaker" className={selectClass}>
+                  {!devices.outputs.some(d => d.deviceId === 'default') && <option value="default" className="bg-black">Default speaker</option>}
+                  {devices.outputs.map((d, i) => <option key={d.deviceId} value={d.deviceId} className="bg-black">{d.label || `Speaker ${i + 1}`}</option>)}
+                </select>
+              )}
+            </div>
           )}
 
-          <div className="flex items-center gap-2 opacity-60">
-             <div className="flex gap-0.5 md:gap-1">
-               {[...Array(5)].map((_, i) => (
-                 <div key={i} className={`w-0.5 md:w-1 h-3 md:h-4 rounded-full bg-blue-500 ${isActive ? 'animate-bounce' : ''}`} style={{ animationDelay: `${i * 0.1}s` }}></div>
-               ))}
+          <div className="flex flex-col items-center gap-2 opacity-60">
+             <div className="flex items-center gap-4 md:gap-6">
+               <LevelMeter analyser={muted ? null : inputAnalyser} label="You" />
+               <LevelMeter analyser={outputAnalyser} label="WASO" />
              </div>
              <p className="text-[7px] md:text-[10px] text-gray-400 font-bold uppercase tracking-widest font-mono">
-                WASO 2.5 CORE | BARITONE VOX
+                WASO 2.5 CORE | {persona.name} | {persona.voice} VOX
              </p>
           </div>
         </div>
@@ -0,0 +1,93 @@
+import React, { memo, useMemo, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import hljs from 'highlight.js/lib/common';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/atom-one-dark.css';
+import { splitMarkdownBlocks } from '../services/markdownBlocks';
+
+const CodeBlock: React.FC<{ code: string; language?: string }> = ({ code, language }) => {
+  const [copied, setCopied] = useState(false);
+
+  // highlight.js escapes the source itself, so its output is safe to inject
+  const html = useMemo(() => {
+    if (language && hljs.getLanguage(language)) return hljs.highlight(code, { language }).value;
+    return hljs.highlightAuto(code).value;
+  }, [code, language]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error('Copy failed:', e);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-black/60 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-white/5 bg-white/5">
+        <span className="text-[10px] font-mono uppercase tracking-widest text-gray-400">{language || 'code'}</span>
+        <button onClick={handleCopy} className={`text-[10px] font-black uppercase tracking-widest transition-colors ${copied ? 'text-green-400' : 'text-gray-400 hover:text-blue-400'}`}>
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="p-4 overflow-x-auto text-xs md:text-sm leading-relaxed">
+        <code className="hljs !bg-transparent !p-0 font-mono" dangerouslySetInnerHTML={{ __html: html }} />
+      </pre>
+    </div>
+  );
+};
+
+const COMPONENTS: Components = {
+  pre: ({ children }) => {
+    const child = React.Children.toArray(children)[0] as React.ReactElement<{ className?: string; children?: React.ReactNode }>;
+    const language = /language-([\w+#-]+)/.exec(child?.props?.className || '')?.[1];
+    const code = String(child?.props?.children ?? '').replace(/\n$/, '');
+    return <CodeBlock code={code} language={language} />;
+  },
+  code: ({ className, children }) => (
+    <code className={className || 'px-1.5 py-0.5 rounded-md bg-white/10 font-mono text-[0.9em] text-blue-200'}>{children}</code>
+  ),
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400 underline underline-offset-2 hover:text-blue-300">{children}</a>
+  ),
+  h1: ({ children }) => <h1 className="text-xl font-black">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-lg font-bold">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-base font-bold">{children}</h3>,
+  ul: ({ children }) => <ul className="list-disc pl-6 space-y-1">{children}</ul>,
+  ol: ({ children, start }) => <ol start={start} className="list-decimal pl-6 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => <blockquote className="border-l-2 border-blue-500/50 pl-4 text-gray-300 italic">{children}</blockquote>,
+  hr: () => <hr className="border-white/10" />,
+  table: ({ children }) => (
+    <div className="overflow-x-auto rounded-xl border border-white/10">
+      <table className="w-full text-sm border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => <th style={style} className="px-3 py-2 text-left font-bold bg-white/5 border-b border-white/10">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="px-3 py-2 border-t border-white/5">{children}</td>
+};
+
+const REMARK_PLUGINS = [remarkGfm, remarkMath];
+const REHYPE_PLUGINS = [rehypeKatex];
+
+// Raw HTML in the source is dropped (no rehype-raw), and unsafe link protocols are stripped
+const MarkdownBlock = memo(({ source }: { source: string }) => (
+  <div className="space-y-3">
+    <ReactMarkdown remarkPlugins={REMARK_PLUGINS} rehypePlugins={REHYPE_PLUGINS} components={COMPONENTS}>
+      {source}
+    </ReactMarkdown>
+  </div>
+));
+
+export const MarkdownContent: React.FC<{ text: string; className?: string }> = ({ text, className }) => {
+  const blocks = useMemo(() => splitMarkdownBlocks(text), [text]);
+  return (
+    <div className={`space-y-3 break-words ${className || ''}`}>
+      {blocks.map((block, i) => <MarkdownBlock key={i} source={block} />)}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Persona, PersonaLanguage } from '../types';
+import { PERSONA_VOICES, SPEECH_RATES } from '../constants';
+import { createPersonaId, PERSONA_LANGUAGES, validatePersona } from '../services/personas';
+
+interface PersonaPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  personas: Persona[];
+  selectedId: string;
+  // Throws when the persona is invalid; the message is shown in the form
+  onSave: (persona: Persona) => void;
+  onDelete: (id: string) => void;
+}
+
+const labelClass = 'text-[10px] font-bold uppercase tracking-widest text-gray-400';
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500/40 disabled:opacity-50';
+
+const blankPersona = (): Persona => ({
+  id: createPersonaId(),
+  name: '',
+  systemInstruction: '',
+  voice: PERSONA_VOICES[0],
+  language: 'auto',
+  greeting: ''
+});
+
+export const PersonaPanel: React.FC<PersonaPanelProps> = ({ isOpen, onClose, personas, selectedId, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<Persona | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start on the persona currently used for new chats
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(personas.find(p => p.id === selectedId) || personas[0]);
+    setError(null);
+  }, [isOpen]);
+
+  if (!isOpen || !draft) return null;
+
+  const isNew = !personas.some(p => p.id === draft.id);
+  const readOnly = !!draft.builtIn;
+  const update = (patch: Partial<Persona>) => setDraft({ ...draft, ...patch });
+
+  const open = (persona: Persona) => {
+    setDraft(persona);
+    setError(null);
+  };
+
+  const duplicate = () => open({ ...draft, id: createPersonaId(), name: `${draft.name} (copy)`.slice(0, 60), builtIn: undefined });
+
+  const save = () => {
+    const problem = validatePersona(draft);
+    if (problem) return setError(problem);
+    try {
+      onSave(draft);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message || 'Could not save the persona.');
+    }
+  };
+
+  const remove = () => {
+    onDelete(draft.id);
+    open(personas.find(p => p.id !== draft.id) || personas[0]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[90vh] overflow-hidden glass-card bg-black/90 rounded-3xl border border-white/10 shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 pb-4">
+          <h2 className="text-xl font-black uppercase tracking-widest text-blue-400">Personas</h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-lg transition-colors">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4 px-6 pb-6 overflow-hidden">
+          <div className="md:w-56 shrink-0 flex md:flex-col gap-2 overflow-x-auto md:overflow-y-auto">
+            {personas.map(p => (
+              <button
+                key={p.id}
+                onClick={() => open(p)}
+                className={`shrink-0 text-left px-3 py-2 rounded-xl border text-xs font-bold transition-all ${draft.id === p.id ? 'bg-blue-600/20 border-blue-500/40 text-white' : 'bg-white/5 border-white/5 text-gray-400 hover:text-white'}`}
+              >
+                {p.name}
+                {p.builtIn && <span className="ml-2 text-[8px] uppercase tracking-widest text-gray-500">Built-in</span>}
+              </button>
+            ))}
+            <button
+              onClick={() => open(blankPersona())}
+              className="shrink-0 px-3 py-2 rounded-xl border border-dashed border-white/20 text-[10px] font-bold uppercase tracking-widest text-gray-400 hover:text-white transition-all"
+            >
+              + New Persona
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+            <div className="space-y-2">
+              <label className={labelClass}>Name</label>
+              <input value={draft.name} disabled={readOnly} maxLength={60} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>System instruction</label>
+              <textarea value={draft.systemInstruction} disabled={readOnly} rows={8} onChange={(e) => update({ systemInstruction: e.target.value })} className={`${inputClass} resize-y font-mono text-xs`} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <label className={labelClass}>Voice</label>
+                <select value={draft.voice} disabled={readOnly} onChange={(e) => update({ voice: e.target.value })} className={inputClass}>
+                  {PERSONA_VOICES.map(v => <option key={v} value={v} className="bg-black">{v}</option>)}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Read-aloud speed</label>
+                <select value={draft.speechRate ?? 1} disabled={readOnly} onChange={(e) => update({ speechRate: Number(e.target.value) })} className={inputClass}>
+                  {SPEECH_RATES.map(r => <option key={r} value={r} className="bg-black">{r}×</option>)}
+                </select>
+              </div>
+              <div className="space-y-2 col-span-2">
+                <label className={labelClass}>Language</label>
+                <select value={draft.language} disabled={readOnly} onChange={(e) => update({ language: e.target.value as PersonaLanguage })} className={inputClass}>
+                  {PERSONA_LANGUAGES.map(l => <option key={l.value} value={l.value} className="bg-black">{l.label}</option>)}
+                </select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Greeting</label>
+              <textarea value={draft.greeting} disabled={readOnly} rows={2} onChange={(e) => update({ greeting: e.target.value })} className={`${inputClass} resize-y`} />
+            </div>
+
+            {error && (
+              <p className="text-red-400 text-[10px] font-bold uppercase tracking-widest bg-red-500/10 px-3 py-2 rounded-lg border border-red-500/20">{error}</p>
+            )}
+
+            <div className="flex gap-2">
+              {readOnly ? (
+                <button onClick={duplicate} className="flex-1 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-xl text-xs font-black uppercase tracking-widest transition-all">
+                  Duplicate to edit
+                </button>
+              ) : (
+                <>
+                  <button onClick={save} className="flex-1 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-xl text-xs font-black uppercase tracking-widest transition-all">
+                    {isNew ? 'Create' : 'Save'}
+                  </button>
+                  {!isNew && (
+                    <button onClick={remove} className="px-5 py-3 bg-red-500/10 border border-red-500/30 hover:bg-red-500 hover:text-white text-red-400 rounded-xl text-xs font-black uppercase tracking-widest transition-all">
+                      Delete
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { SearchResult } from '../services/search';
+import { SessionSummary } from '../services/storage';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  sessions: SessionSummary[];
+  onSelect: (result: SearchResult) => void;
+}
+
+export const SearchResults: React.FC<SearchResultsProps> = ({ results, sessions, onSelect }) => {
+  if (results.length === 0) {
+    return <div className="text-center py-10 opacity-30 italic text-sm uppercase tracking-widest">No matches found</div>;
+  }
+
+  const titles = new Map(sessions.map(s => [s.id, s.title]));
+  return (
+    <>
+      {results.map(result => (
+        <button
+          key={`${result.sessionId}:${result.messageId}`}
+          onClick={() => onSelect(result)}
+          className="w-full text-left p-3 rounded-xl border bg-white/5 border-white/5 text-gray-400 hover:bg-white/10 hover:border-white/10 hover:text-white transition-all duration-200"
+        >
+          <div className="flex items-center justify-between gap-2 mb-1">
+            <span className="text-xs font-bold truncate text-white">{titles.get(result.sessionId) || 'Chat Session'}</span>
+            <span className="shrink-0 text-[9px] font-black uppercase tracking-widest text-blue-400">{result.role === 'user' ? 'You' : 'WASO'}</span>
+          </div>
+          <p className="text-[11px] leading-relaxed line-clamp-3">
+            {result.snippet.map((part, i) => part.match
+              ? <mark key={i} className="bg-blue-500/30 text-white rounded px-0.5">{part.text}</mark>
+              : <span key={i}>{part.text}</span>)}
+          </p>
+          <span className="block mt-1 text-[9px] font-mono text-gray-600">{new Date(result.timestamp).toLocaleString()}</span>
+        </button>
+      ))}
+    </>
+  );
+};
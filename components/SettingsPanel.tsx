@@ -0,0 +1,125 @@
+import React from 'react';
+import { GenerationSettings, SafetyCategory, SafetyThreshold } from '../types';
+import {
+  DEFAULT_GENERATION_SETTINGS, SAFETY_CATEGORIES, SAFETY_THRESHOLDS, TEMPERATURE_RANGE, TEXT_MODELS, TOP_P_RANGE, findModel
+} from '../services/generationConfig';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+}
+
+const labelClass = 'flex items-center justify-between text-[10px] font-bold uppercase tracking-widest text-gray-400';
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500/40';
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, settings, onChange }) => {
+  if (!isOpen) return null;
+
+  const model = findModel(settings.model) || TEXT_MODELS[0];
+  const update = (patch: Partial<GenerationSettings>) => onChange({ ...settings, ...patch });
+
+  // Keep the thinking budget valid for the newly picked model
+  const changeModel = (id: string) => {
+    const next = findModel(id)!;
+    const budget = settings.thinkingBudget;
+    const stillValid = budget === -1 || (budget === 0 && next.thinking.canDisable) || (budget >= next.thinking.min && budget <= next.thinking.max);
+    update({
+      model: id,
+      thinkingBudget: stillValid ? budget : -1,
+      maxOutputTokens: Math.min(settings.maxOutputTokens, next.maxOutputTokens)
+    });
+  };
+
+  const thinkingMode = settings.thinkingBudget === -1 ? 'auto' : settings.thinkingBudget === 0 ? 'off' : 'custom';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto glass-card bg-black/90 rounded-3xl border border-white/10 p-6 md:p-8 shadow-2xl space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-black uppercase tracking-widest text-blue-400">Chat Settings</h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-lg transition-colors">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Model</label>
+          <select value={model.id} onChange={(e) => changeModel(e.target.value)} className={inputClass}>
+            {TEXT_MODELS.map(m => <option key={m.id} value={m.id} className="bg-black">{m.label}</option>)}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Temperature <span className="font-mono text-blue-400">{settings.temperature.toFixed(2)}</span></label>
+          <input type="range" min={TEMPERATURE_RANGE.min} max={TEMPERATURE_RANGE.max} step={0.05} value={settings.temperature} onChange={(e) => update({ temperature: Number(e.target.value) })} className="w-full accent-blue-500" />
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Top P <span className="font-mono text-blue-400">{settings.topP.toFixed(2)}</span></label>
+          <input type="range" min={TOP_P_RANGE.min} max={TOP_P_RANGE.max} step={0.01} value={settings.topP} onChange={(e) => update({ topP: Number(e.target.value) })} className="w-full accent-blue-500" />
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Max output tokens</label>
+          <input
+            type="number"
+            min={1}
+            max={model.maxOutputTokens}
+            value={settings.maxOutputTokens}
+            onChange={(e) => update({ maxOutputTokens: Math.max(1, Math.min(model.maxOutputTokens, Math.round(Number(e.target.value)) || 1)) })}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Thinking</label>
+          <div className="flex items-center gap-1 bg-white/5 p-1 rounded-xl border border-white/5">
+            {(['auto', 'off', 'custom'] as const).map(mode => (
+              <button
+                key={mode}
+                type="button"
+                disabled={mode === 'off' && !model.thinking.canDisable}
+                onClick={() => update({ thinkingBudget: mode === 'auto' ? -1 : mode === 'off' ? 0 : Math.max(model.thinking.min, 1024) })}
+                className={`flex-1 px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30 ${thinkingMode === mode ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-white'}`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          {thinkingMode === 'custom' && (
+            <>
+              <label className={labelClass}>Budget <span className="font-mono text-blue-400">{settings.thinkingBudget} tokens</span></label>
+              <input type="range" min={model.thinking.min} max={model.thinking.max} step={1} value={settings.thinkingBudget} onChange={(e) => update({ thinkingBudget: Number(e.target.value) })} className="w-full accent-blue-500" />
+            </>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Safety filters</label>
+          {(Object.keys(SAFETY_CATEGORIES) as SafetyCategory[]).map(category => (
+            <div key={category} className="flex items-center justify-between gap-3">
+              <span className="text-xs text-gray-300">{SAFETY_CATEGORIES[category].label}</span>
+              <select
+                value={settings.safety[category]}
+                onChange={(e) => update({ safety: { ...settings.safety, [category]: e.target.value as SafetyThreshold } })}
+                className="bg-white/5 border border-white/10 rounded-xl px-2 py-1 text-[10px] font-bold text-gray-300 focus:outline-none"
+              >
+                {SAFETY_THRESHOLDS.map(t => <option key={t.value} value={t.value} className="bg-black">{t.label}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_GENERATION_SETTINGS)}
+          className="w-full py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-xs font-bold uppercase tracking-widest transition-all"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+};
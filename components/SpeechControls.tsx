@@ -0,0 +1,60 @@
+import React from 'react';
+import { SPEECH_RATES } from '../constants';
+import { PlaybackStatus } from '../services/speech';
+
+interface SpeechControlsProps {
+  status: PlaybackStatus;
+  speed: number;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  onSeek: (seconds: number) => void;
+  onSpeed: (speed: number) => void;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+const buttonClass = 'p-1.5 rounded-full text-gray-400 hover:text-blue-400 transition-colors disabled:opacity-40';
+
+// Player for the message being read aloud; the length is estimated until every part is synthesized
+export const SpeechControls: React.FC<SpeechControlsProps> = ({ status, speed, onPause, onResume, onStop, onSeek, onSpeed }) => {
+  const active = status.state !== 'idle';
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 px-3 py-1.5 rounded-2xl glass-card border border-white/10 text-[10px] font-bold uppercase tracking-widest text-gray-400">
+      {active && (
+        <>
+          {status.state === 'playing' || status.state === 'loading' ? (
+            <button onClick={onPause} title="Pause" className={buttonClass}>
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M6 5h4v14H6zM14 5h4v14h-4z" /></svg>
+            </button>
+          ) : (
+            <button onClick={onResume} title="Resume" className={buttonClass}>
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+            </button>
+          )}
+          <button onClick={onStop} title="Stop" className={buttonClass}>
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M6 6h12v12H6z" /></svg>
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={Math.max(status.duration, 0.1)}
+            step={0.1}
+            value={Math.min(status.position, status.duration)}
+            onChange={(e) => onSeek(Number(e.target.value))}
+            title="Seek"
+            className="w-24 md:w-40 accent-blue-500"
+          />
+          <span className="font-mono normal-case tracking-normal">
+            {formatTime(status.position)} / {formatTime(status.duration)}
+            {status.state === 'loading' && <span className="ml-1 text-blue-400 animate-pulse">…</span>}
+          </span>
+          <select value={speed} onChange={(e) => onSpeed(Number(e.target.value))} title="Speed" className="bg-transparent border border-white/10 rounded-lg px-1 py-0.5 focus:outline-none">
+            {SPEECH_RATES.map(r => <option key={r} value={r} className="bg-black">{r}×</option>)}
+          </select>
+        </>
+      )}
+      {status.error && <span className="text-red-400 normal-case tracking-normal">{status.error}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { SyncStatus } from '../services/sync';
+
+interface SyncStatusBarProps {
+  status: SyncStatus;
+  onSyncNow: () => void;
+}
+
+const DOT_COLORS: Record<SyncStatus['state'], string> = {
+  idle: 'bg-green-500',
+  syncing: 'bg-blue-500 animate-pulse',
+  offline: 'bg-yellow-500',
+  error: 'bg-red-500'
+};
+
+export const SyncStatusBar: React.FC<SyncStatusBarProps> = ({ status, onSyncNow }) => {
+  const pending = status.pending > 0 ? ` · ${status.pending} pending` : '';
+  const label = status.state === 'syncing'
+    ? 'Syncing...'
+    : status.state === 'offline'
+      ? `Offline${pending}`
+      : status.state === 'error'
+        ? status.error || 'Sync failed'
+        : status.lastSyncedAt
+          ? `Synced ${new Date(status.lastSyncedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}${pending}`
+          : `Not synced yet${pending}`;
+
+  return (
+    <div className="flex items-center justify-between gap-3 mb-4 px-3 py-2 rounded-xl bg-white/5 border border-white/5">
+      <div className="flex items-center gap-2 overflow-hidden">
+        <span className={`w-2 h-2 shrink-0 rounded-full ${DOT_COLORS[status.state]}`}></span>
+        <span className={`text-[10px] font-bold uppercase tracking-widest truncate ${status.state === 'error' ? 'text-red-400' : 'text-gray-400'}`}>{label}</span>
+      </div>
+      <button
+        onClick={onSyncNow}
+        disabled={status.state === 'syncing'}
+        title="Sync now"
+        className="p-1 text-gray-500 hover:text-blue-400 disabled:opacity-30 transition-colors"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { ToolStep } from '../types';
+
+const format = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+// Collapsible list of the tools WASO called while writing an answer; steps without an outcome are still running
+export const ToolSteps: React.FC<{ steps: ToolStep[] }> = ({ steps }) => (
+  <div className="mb-3 space-y-1.5">
+    {steps.map((step, i) => {
+      const running = step.output === undefined && step.error === undefined;
+      return (
+        <details key={step.id || i} className="group rounded-xl bg-black/30 border border-white/10">
+          <summary className="cursor-pointer list-none flex items-center gap-2 px-3 py-2 text-[10px] font-bold uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+            <svg className="w-3 h-3 shrink-0 transition-transform group-open:rotate-90" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M9 5l7 7-7 7" /></svg>
+            <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${step.error ? 'bg-red-400' : running ? 'bg-blue-400 animate-pulse' : 'bg-green-400'}`} />
+            <span className="truncate">{step.name.replace(/_/g, ' ')}</span>
+            <span className="ml-auto font-mono normal-case tracking-normal text-gray-500">{step.runsOn}</span>
+          </summary>
+          <div className="px-3 pb-3 space-y-2 text-[11px]">
+            <div>
+              <div className="text-[9px] font-bold uppercase tracking-widest text-gray-500 mb-1">Arguments</div>
+              <pre className="whitespace-pre-wrap break-all font-mono text-gray-300 bg-black/40 rounded-lg p-2">{format(step.args)}</pre>
+            </div>
+            {!running && (
+              <div>
+                <div className={`text-[9px] font-bold uppercase tracking-widest mb-1 ${step.error ? 'text-red-400' : 'text-gray-500'}`}>{step.error ? 'Error' : 'Result'}</div>
+                <pre className="whitespace-pre-wrap break-all font-mono text-gray-300 bg-black/40 rounded-lg p-2 max-h-60 overflow-y-auto">{format(step.error ?? step.output)}</pre>
+              </div>
+            )}
+          </div>
+        </details>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,83 @@
+import React, { useRef, useState } from 'react';
+import { ExportFormat } from '../services/transfer';
+
+interface TransferPanelProps {
+  canExportCurrent: boolean;
+  onExport: (scope: 'current' | 'all', format: ExportFormat) => Promise<void>;
+  // Resolves with a short summary shown to the user
+  onImport: (file: File) => Promise<string>;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = { json: 'JSON', markdown: 'MD', pdf: 'PDF' };
+
+export const TransferPanel: React.FC<TransferPanelProps> = ({ canExportCurrent, onExport, onImport }) => {
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (task: () => Promise<string | void>) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const message = await task();
+      if (message) setStatus({ message, error: false });
+    } catch (error: any) {
+      console.error('Import/export failed:', error);
+      setStatus({ message: error.message || 'Import/export failed.', error: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) run(() => onImport(file));
+  };
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="flex items-center gap-1 bg-white/5 p-1 rounded-xl border border-white/5">
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(f => (
+            <button
+              key={f}
+              onClick={() => setFormat(f)}
+              className={`px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${format === f ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-white'}`}
+            >
+              {FORMAT_LABELS[f]}
+            </button>
+          ))}
+        </div>
+        <button
+          disabled={busy || !canExportCurrent}
+          onClick={() => run(() => onExport('current', format))}
+          className="flex-1 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-[10px] font-bold uppercase tracking-widest transition-all disabled:opacity-40"
+        >
+          Export Chat
+        </button>
+        <button
+          disabled={busy}
+          onClick={() => run(() => onExport('all', format))}
+          className="flex-1 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-[10px] font-bold uppercase tracking-widest transition-all disabled:opacity-40"
+        >
+          Export All
+        </button>
+      </div>
+      <button
+        disabled={busy}
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-[10px] font-bold uppercase tracking-widest transition-all disabled:opacity-40"
+      >
+        {busy ? 'Working...' : 'Import JSON Backup'}
+      </button>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      {status && (
+        <p className={`text-[10px] font-bold uppercase tracking-widest px-3 py-2 rounded-lg border ${status.error ? 'text-red-400 bg-red-500/10 border-red-500/20' : 'text-green-400 bg-green-500/10 border-green-500/20'}`}>
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+};
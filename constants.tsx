@@ -23,3 +23,66 @@ Special Instructions:
 `;
 
 export const WARVI_INITIAL_GREETING = "Hi, I'm WASO, created me Wasin. Your personal AI assistant. How can I assist you today?";
+
+// Conversation context sent with every chat request (approx. 4 characters per token)
+export const CONTEXT_CHAR_BUDGET = 48000;
+export const CONTEXT_SUMMARY_CHAR_BUDGET = 4000;
+export const ATTACHMENT_CHAR_COST = 1032; // ~258 tokens per inline image
+
+export const IMAGE_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9', '2:3', '3:2', '4:5', '5:4', '21:9'];
+export const MAX_IMAGES_PER_REQUEST = 4;
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+// Decoded size limits for base64 attachments in one request. Vercel rejects bodies over
+// 4.5 MB and base64 adds a third, so the total has to stay well below that.
+export const MAX_ATTACHMENT_BYTES = 2 * 1024 * 1024;
+export const MAX_REQUEST_ATTACHMENT_BYTES = 3 * 1024 * 1024;
+// Longest side of attached photos after downscaling; Gemini tiles larger images anyway
+export const MAX_IMAGE_DIMENSION = 2048;
+
+// Prebuilt voices available to both Live and text-to-speech
+export const PERSONA_VOICES = ['Fenrir', 'Charon', 'Orus', 'Puck', 'Kore', 'Aoede', 'Leda', 'Zephyr'];
+export const DEFAULT_VOICE = 'Fenrir'; // Baritone
+// Read-aloud playback speeds; the pitch is kept
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5, 2];
+// Text per speech request; the browser synthesizes long answers a few sentences at a time
+export const MAX_SPEECH_TEXT_CHARS = 2000;
+// Persona system instructions are written by users, so the API caps their length
+export const MAX_SYSTEM_INSTRUCTION_CHARS = 12000;
+
+// Model calls per chat request before WASO must answer without further tool calls
+export const MAX_TOOL_ROUNDS = 5;
+
+// Knowledge base embedding requests: texts per call and characters per text
+export const MAX_EMBED_BATCH = 100;
+export const MAX_EMBED_TEXT_CHARS = 8000;
+// Retrieved knowledge base excerpts sent with one chat request
+export const MAX_KNOWLEDGE_CHARS = 12000;
+
+// Attempts per call for transient failures (network, timeouts, 5xx), with exponential backoff
+export const RETRY_ATTEMPTS = 3;
+export const RETRY_BASE_DELAY_MS = 500;
+// maxDuration of /api/gemini in vercel.json; the platform stops the function after it
+export const SERVER_MAX_DURATION_MS = 300_000;
+// One Gemini call on the server, sized so every attempt and the backoff between them fit
+// inside SERVER_MAX_DURATION_MS. The browser waits a little longer than the platform allows.
+export const UPSTREAM_TIMEOUT_MS = 80_000;
+export const REQUEST_TIMEOUT_MS = SERVER_MAX_DURATION_MS + 15_000;
+
+// Reconnects after a Live call drops; each one fetches a new token, which counts against DAILY_QUOTA_LIVE
+export const LIVE_RECONNECT_ATTEMPTS = 4;
+export const LIVE_RECONNECT_BASE_DELAY_MS = 1000;
+// USD per million tokens for LIVE_MODEL, used for the call's cost estimate only
+export const LIVE_PRICING = {
+  inputText: 0.5,
+  inputMedia: 3,
+  outputText: 2,
+  outputAudio: 12
+};
+
+// Camera and screen frames sent to Live calls: choosable rates (per second), size and JPEG quality
+export const LIVE_FRAME_RATES = [0.5, 1, 2];
+export const DEFAULT_LIVE_FRAME_RATE = 1;
+export const LIVE_FRAME_MAX_DIMENSION = 1024;
+export const LIVE_FRAME_QUALITY = 0.7;
@@ -1,9 +1,25 @@
+import { initializeApp, getApps, FirebaseApp } from 'firebase/app';
+import { getAuth, connectAuthEmulator, Auth, GoogleAuthProvider, GithubAuthProvider } from 'firebase/auth';
 
-export const auth = null as any;
-export const onAuthStateChanged = (auth: any, cb: any) => () => {};
-export const signOut = async (auth: any) => {};
-export const googleProvider = null;
-export const githubProvider = null;
-export const signInWithPopup = async () => {};
-export const signInWithEmailAndPassword = async () => {};
-export const createUserWithEmailAndPassword = async () => {};
+const firebaseConfig = {
+  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
+  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+  appId: import.meta.env.VITE_FIREBASE_APP_ID,
+};
+
+let auth: Auth | null = null;
+
+// Initialised lazily so the mock provider works without any Firebase configuration
+export function getFirebaseAuth(): Auth {
+  if (!auth) {
+    const app: FirebaseApp = getApps()[0] || initializeApp(firebaseConfig);
+    auth = getAuth(app);
+    const emulatorUrl = import.meta.env.VITE_FIREBASE_AUTH_EMULATOR_URL;
+    if (emulatorUrl) connectAuthEmulator(auth, emulatorUrl, { disableWarnings: true });
+  }
+  return auth;
+}
+
+export const googleProvider = new GoogleAuthProvider();
+export const githubProvider = new GithubAuthProvider();
@@ -0,0 +1,61 @@
+import { MAX_ATTACHMENT_BYTES, MAX_REQUEST_ATTACHMENT_BYTES } from '../../constants';
+
+// Inline data types Gemini accepts; the API rejects anything else
+export const ATTACHMENT_MIME_TYPES = [
+  'image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif',
+  'application/pdf',
+  'text/plain', 'text/markdown', 'text/csv', 'text/html', 'text/xml', 'text/rtf', 'text/css', 'text/javascript',
+  'application/json', 'application/x-python',
+  'audio/wav', 'audio/mp3', 'audio/mpeg', 'audio/aiff', 'audio/aac', 'audio/ogg', 'audio/flac',
+  'video/mp4', 'video/mpeg', 'video/quicktime', 'video/webm', 'video/x-flv', 'video/3gpp'
+];
+
+// Images the browser can decode but Gemini cannot read; they are re-encoded as JPEG
+export const CONVERTIBLE_IMAGE_TYPES = ['image/gif', 'image/bmp', 'image/avif', 'image/svg+xml'];
+
+// Browsers leave `type` empty for many text and code files
+const EXTENSION_TYPES: Record<string, string> = {
+  md: 'text/markdown', markdown: 'text/markdown', txt: 'text/plain', csv: 'text/csv', json: 'application/json',
+  py: 'application/x-python', js: 'text/javascript', ts: 'text/plain', tsx: 'text/plain', html: 'text/html',
+  xml: 'text/xml', rtf: 'text/rtf', css: 'text/css', heic: 'image/heic', heif: 'image/heif',
+  mp3: 'audio/mp3', wav: 'audio/wav', flac: 'audio/flac', m4a: 'audio/aac', mov: 'video/quicktime'
+};
+
+export const ATTACHMENT_ACCEPT = [...ATTACHMENT_MIME_TYPES, ...CONVERTIBLE_IMAGE_TYPES, ...Object.keys(EXTENSION_TYPES).map(ext => `.${ext}`)].join(',');
+
+export const isAllowedMimeType = (mimeType: string) => ATTACHMENT_MIME_TYPES.includes(mimeType);
+
+// The type a file is sent as, from its reported type or its extension
+export function resolveMimeType(name: string, type: string): string {
+  const reported = type.split(';')[0].trim().toLowerCase();
+  if (reported && reported !== 'application/octet-stream' && (isAllowedMimeType(reported) || CONVERTIBLE_IMAGE_TYPES.includes(reported))) {
+    return reported;
+  }
+  const ext = name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_TYPES[ext] || reported || 'application/octet-stream';
+}
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Decoded size of a base64 attachment
+export const base64Bytes = (data: string) =>
+  Math.floor(data.length * 3 / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+
+// Raised for files that cannot be attached; the message is shown to the user as is
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+// Checks an encoded attachment against the per-file limit and what is already attached
+export function checkAttachmentSize(name: string, bytes: number, pendingBytes: number): void {
+  if (bytes > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError(`${name} is ${formatBytes(bytes)}; files can be at most ${formatBytes(MAX_ATTACHMENT_BYTES)}.`);
+  }
+  if (pendingBytes + bytes > MAX_REQUEST_ATTACHMENT_BYTES) {
+    throw new AttachmentError(`${name} would bring this message to ${formatBytes(pendingBytes + bytes)}; one message can carry ${formatBytes(MAX_REQUEST_ATTACHMENT_BYTES)}.`);
+  }
+}
@@ -0,0 +1,4 @@
+export {
+  ATTACHMENT_ACCEPT, ATTACHMENT_MIME_TYPES, AttachmentError, base64Bytes, checkAttachmentSize, formatBytes, isAllowedMimeType, resolveMimeType
+} from './attachmentPolicy';
+export { attachmentBytes, prepareAttachment } from './prepareAttachment';
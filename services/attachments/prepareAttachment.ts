@@ -0,0 +1,93 @@
+import { Attachment } from '../../types';
+import { MAX_ATTACHMENT_BYTES, MAX_IMAGE_DIMENSION } from '../../constants';
+import { AttachmentError, base64Bytes, checkAttachmentSize, CONVERTIBLE_IMAGE_TYPES, isAllowedMimeType, resolveMimeType } from './attachmentPolicy';
+
+// Images the browser can decode and re-encode; HEIC mostly cannot, so it is sent unchanged
+const RESIZABLE_TYPES = ['image/png', 'image/jpeg', 'image/webp', ...CONVERTIBLE_IMAGE_TYPES];
+const JPEG_QUALITIES = [0.85, 0.7, 0.55];
+
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const canvasBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) => new Promise<Blob>((resolve, reject) =>
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Image encoding failed.')), type, quality));
+
+const loadImage = (file: File) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(img);
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new AttachmentError(`${file.name || 'The image'} could not be read.`));
+  };
+  img.src = url;
+});
+
+/**
+ * Downscales to MAX_IMAGE_DIMENSION and re-encodes when the image is too large or in a format
+ * Gemini cannot read. PNGs within limits keep their format (and transparency); everything
+ * re-encoded becomes JPEG on white, stepping down quality until it fits.
+ */
+async function resizeImage(file: File, mimeType: string): Promise<{ blob: Blob; mimeType: string }> {
+  const img = await loadImage(file);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight));
+  const needsConversion = !isAllowedMimeType(mimeType);
+  if (scale === 1 && !needsConversion && file.size <= MAX_ATTACHMENT_BYTES) return { blob: file, mimeType };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d')!;
+  if (mimeType === 'image/png' && !needsConversion) {
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const png = await canvasBlob(canvas, 'image/png');
+    if (png.size <= MAX_ATTACHMENT_BYTES) return { blob: png, mimeType: 'image/png' };
+  }
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  let blob: Blob = file;
+  for (const quality of JPEG_QUALITIES) {
+    blob = await canvasBlob(canvas, 'image/jpeg', quality);
+    if (blob.size <= MAX_ATTACHMENT_BYTES) break;
+  }
+  return { blob, mimeType: 'image/jpeg' };
+}
+
+// Renames converted images so the extension matches what is stored
+const renamed = (name: string, mimeType: string) =>
+  mimeType === 'image/jpeg' && !/\.jpe?g$/i.test(name) ? `${name.replace(/\.[^.]+$/, '')}.jpg` : name;
+
+/**
+ * Turns a picked, dropped or pasted file into an attachment. Throws AttachmentError when the
+ * type is unsupported or the result exceeds the size limits, counting `pendingBytes` already
+ * attached to the message.
+ */
+export async function prepareAttachment(file: File, pendingBytes = 0): Promise<Attachment> {
+  const mimeType = resolveMimeType(file.name, file.type);
+  const name = file.name || `pasted.${mimeType.split('/')[1] || 'bin'}`;
+  if (!isAllowedMimeType(mimeType) && !CONVERTIBLE_IMAGE_TYPES.includes(mimeType)) {
+    throw new AttachmentError(`${name}: ${mimeType === 'application/octet-stream' ? 'this file type' : mimeType} is not supported. Attach images, PDFs, text, audio or video.`);
+  }
+
+  if (RESIZABLE_TYPES.includes(mimeType)) {
+    const image = await resizeImage(file, mimeType);
+    checkAttachmentSize(name, image.blob.size, pendingBytes);
+    return { data: await blobToBase64(image.blob), mimeType: image.mimeType, name: renamed(name, image.mimeType) };
+  }
+
+  checkAttachmentSize(name, file.size, pendingBytes);
+  const data = await blobToBase64(file);
+  return { data, mimeType, name };
+}
+
+// Bytes the attachments of a message decode to
+export const attachmentBytes = (attachments: Attachment[]) =>
+  attachments.reduce((total, att) => total + base64Bytes(att.data), 0);
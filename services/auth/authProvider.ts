@@ -0,0 +1,24 @@
+import { AuthUser, OAuthProviderId } from '../../types';
+
+/**
+ * Sign-in backend used by the app. Implementations: Firebase (optionally against the
+ * local emulator) and an offline mock for development and tests.
+ */
+export interface AuthProvider {
+  readonly oauthProviders: OAuthProviderId[];
+  // Calls back immediately with the current user (or null) and on every change
+  onAuthStateChanged(callback: (user: AuthUser | null) => void): () => void;
+  signInWithEmail(email: string, password: string): Promise<AuthUser>;
+  signUpWithEmail(email: string, password: string, displayName?: string): Promise<AuthUser>;
+  signInWithOAuth(provider: OAuthProviderId): Promise<AuthUser>;
+  signOut(): Promise<void>;
+  // Session token sent to the API as `Authorization: Bearer <token>`
+  getIdToken(): Promise<string | null>;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, readonly code: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  signInWithPopup,
+  signOut,
+  updateProfile,
+  User
+} from 'firebase/auth';
+import { getFirebaseAuth, googleProvider, githubProvider } from '../../firebase';
+import { AuthUser, OAuthProviderId } from '../../types';
+import { AuthError, AuthProvider } from './authProvider';
+
+const toAuthUser = (user: User): AuthUser => ({
+  uid: user.uid,
+  email: user.email,
+  displayName: user.displayName,
+  photoURL: user.photoURL
+});
+
+const FRIENDLY_ERRORS: Record<string, string> = {
+  'auth/invalid-credential': 'Incorrect email or password.',
+  'auth/wrong-password': 'Incorrect email or password.',
+  'auth/user-not-found': 'Incorrect email or password.',
+  'auth/email-already-in-use': 'An account with this email already exists.',
+  'auth/weak-password': 'Password must be at least 6 characters.',
+  'auth/invalid-email': 'Please enter a valid email address.',
+  'auth/popup-closed-by-user': 'Sign-in window was closed before finishing.',
+  'auth/account-exists-with-different-credential': 'This email is already linked to another sign-in method.'
+};
+
+const wrap = async <T>(action: () => Promise<T>): Promise<T> => {
+  try {
+    return await action();
+  } catch (error: any) {
+    const code = error?.code || 'auth/unknown';
+    throw new AuthError(FRIENDLY_ERRORS[code] || error?.message || 'Sign-in failed.', code);
+  }
+};
+
+export class FirebaseAuthProvider implements AuthProvider {
+  readonly oauthProviders: OAuthProviderId[] = ['google', 'github'];
+
+  onAuthStateChanged(callback: (user: AuthUser | null) => void) {
+    return onAuthStateChanged(getFirebaseAuth(), user => callback(user ? toAuthUser(user) : null));
+  }
+
+  signInWithEmail(email: string, password: string) {
+    return wrap(async () => toAuthUser((await signInWithEmailAndPassword(getFirebaseAuth(), email, password)).user));
+  }
+
+  signUpWithEmail(email: string, password: string, displayName?: string) {
+    return wrap(async () => {
+      const { user } = await createUserWithEmailAndPassword(getFirebaseAuth(), email, password);
+      if (displayName) await updateProfile(user, { displayName });
+      return toAuthUser(user);
+    });
+  }
+
+  signInWithOAuth(provider: OAuthProviderId) {
+    const authProvider = provider === 'google' ? googleProvider : githubProvider;
+    return wrap(async () => toAuthUser((await signInWithPopup(getFirebaseAuth(), authProvider)).user));
+  }
+
+  signOut() {
+    return signOut(getFirebaseAuth());
+  }
+
+  async getIdToken() {
+    return (await getFirebaseAuth().currentUser?.getIdToken()) || null;
+  }
+}
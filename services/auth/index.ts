@@ -0,0 +1,25 @@
+import { AuthProvider } from './authProvider';
+import { FirebaseAuthProvider } from './firebaseAuthProvider';
+import { MockAuthProvider } from './mockAuthProvider';
+
+export type { AuthProvider } from './authProvider';
+export { AuthError } from './authProvider';
+export { FirebaseAuthProvider } from './firebaseAuthProvider';
+export { MockAuthProvider } from './mockAuthProvider';
+
+// VITE_AUTH_PROVIDER=mock signs in offline; anything else uses Firebase
+export function createAuthProvider(): AuthProvider {
+  return import.meta.env.VITE_AUTH_PROVIDER === 'mock' ? new MockAuthProvider() : new FirebaseAuthProvider();
+}
+
+let activeProvider: AuthProvider | null = null;
+
+export function setActiveAuthProvider(provider: AuthProvider) {
+  activeProvider = provider;
+}
+
+// Headers for calls to our own /api endpoints
+export async function authHeaders(): Promise<Record<string, string>> {
+  const token = await activeProvider?.getIdToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
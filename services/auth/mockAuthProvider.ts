@@ -0,0 +1,97 @@
+import { AuthUser, OAuthProviderId } from '../../types';
+import { AuthError, AuthProvider } from './authProvider';
+import { encodeMockToken } from './mockToken';
+
+const USERS_KEY = 'waso_mock_auth_users';
+const SESSION_KEY = 'waso_mock_auth_session';
+const TOKEN_TTL_SECONDS = 60 * 60;
+
+interface MockAccount {
+  user: AuthUser;
+  passwordHash: string;
+}
+
+const hashPassword = async (email: string, password: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${email}:${password}`));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Offline provider: accounts live in the given Storage (localStorage by default) and
+ * OAuth sign-in creates a deterministic fake user per provider.
+ */
+export class MockAuthProvider implements AuthProvider {
+  readonly oauthProviders: OAuthProviderId[] = ['google', 'github'];
+  private listeners = new Set<(user: AuthUser | null) => void>();
+  private current: AuthUser | null;
+
+  constructor(private storage: Storage = localStorage) {
+    const saved = storage.getItem(SESSION_KEY);
+    this.current = saved ? JSON.parse(saved) : null;
+  }
+
+  private accounts(): Record<string, MockAccount> {
+    return JSON.parse(this.storage.getItem(USERS_KEY) || '{}');
+  }
+
+  private setCurrent(user: AuthUser | null) {
+    this.current = user;
+    if (user) this.storage.setItem(SESSION_KEY, JSON.stringify(user));
+    else this.storage.removeItem(SESSION_KEY);
+    this.listeners.forEach(l => l(user));
+  }
+
+  onAuthStateChanged(callback: (user: AuthUser | null) => void) {
+    this.listeners.add(callback);
+    callback(this.current);
+    return () => { this.listeners.delete(callback); };
+  }
+
+  async signInWithEmail(email: string, password: string) {
+    const account = this.accounts()[email.trim().toLowerCase()];
+    if (!account || account.passwordHash !== await hashPassword(email.trim().toLowerCase(), password)) {
+      throw new AuthError('Incorrect email or password.', 'auth/invalid-credential');
+    }
+    this.setCurrent(account.user);
+    return account.user;
+  }
+
+  async signUpWithEmail(email: string, password: string, displayName?: string) {
+    const normalized = email.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+$/.test(normalized)) throw new AuthError('Please enter a valid email address.', 'auth/invalid-email');
+    if (password.length < 6) throw new AuthError('Password must be at least 6 characters.', 'auth/weak-password');
+    const accounts = this.accounts();
+    if (accounts[normalized]) throw new AuthError('An account with this email already exists.', 'auth/email-already-in-use');
+
+    const user: AuthUser = { uid: `mock-${crypto.randomUUID()}`, email: normalized, displayName: displayName || null, photoURL: null };
+    accounts[normalized] = { user, passwordHash: await hashPassword(normalized, password) };
+    this.storage.setItem(USERS_KEY, JSON.stringify(accounts));
+    this.setCurrent(user);
+    return user;
+  }
+
+  async signInWithOAuth(provider: OAuthProviderId) {
+    const user: AuthUser = {
+      uid: `mock-${provider}-user`,
+      email: `${provider}.user@example.com`,
+      displayName: `Mock ${provider === 'google' ? 'Google' : 'GitHub'} User`,
+      photoURL: null
+    };
+    this.setCurrent(user);
+    return user;
+  }
+
+  async signOut() {
+    this.setCurrent(null);
+  }
+
+  async getIdToken() {
+    if (!this.current) return null;
+    return encodeMockToken({
+      uid: this.current.uid,
+      email: this.current.email,
+      name: this.current.displayName,
+      exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS
+    });
+  }
+}
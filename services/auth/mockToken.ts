@@ -0,0 +1,35 @@
+// Unsigned session tokens issued by the mock provider. The API only accepts them when
+// AUTH_PROVIDER=mock, mirroring how the Firebase emulator issues unsigned ID tokens.
+
+export const MOCK_TOKEN_PREFIX = 'mock.';
+
+export interface MockTokenClaims {
+  uid: string;
+  email: string | null;
+  name: string | null;
+  exp: number; // seconds since epoch
+}
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const encodeMockToken = (claims: MockTokenClaims) => MOCK_TOKEN_PREFIX + toBase64Url(JSON.stringify(claims));
+
+export function decodeMockToken(token: string): MockTokenClaims | null {
+  if (!token.startsWith(MOCK_TOKEN_PREFIX)) return null;
+  try {
+    const claims = JSON.parse(fromBase64Url(token.slice(MOCK_TOKEN_PREFIX.length)));
+    return typeof claims.uid === 'string' && typeof claims.exp === 'number' ? claims : null;
+  } catch (e) {
+    return null;
+  }
+}
@@ -0,0 +1,100 @@
+import { Message, GeminiContent, GeminiPart } from '../types';
+import { CONTEXT_CHAR_BUDGET, CONTEXT_SUMMARY_CHAR_BUDGET, ATTACHMENT_CHAR_COST } from '../constants';
+import { isAllowedMimeType } from './attachments/attachmentPolicy';
+
+export interface ContextOptions {
+  maxChars?: number;
+  summaryChars?: number;
+  attachmentCost?: number;
+}
+
+export interface BuiltContext {
+  contents: GeminiContent[];
+  summarizedTurns: number;
+}
+
+interface Turn {
+  content: GeminiContent;
+  text: string;
+  cost: number;
+}
+
+export const messageText = (msg: Message) => msg.parts.map(p => p.text).join('\n');
+
+const toParts = (msg: Message): GeminiPart[] => {
+  const parts: GeminiPart[] = [];
+  const text = messageText(msg);
+  if (text.trim()) parts.push({ text });
+  // Documents WASO generated are downloads for the user, not context for the model
+  const attachments = msg.role === 'model' && !msg.isImage ? [] : msg.attachments || [];
+  // Files attached before the type allowlist existed would make every request fail
+  attachments.filter(att => isAllowedMimeType(att.mimeType)).forEach(att => {
+    parts.push({ inlineData: { data: att.data, mimeType: att.mimeType } });
+  });
+  return parts;
+};
+
+// Gemini expects strictly alternating roles, so consecutive messages from the same side are merged
+const toTurns = (messages: Message[], attachmentCost: number): Turn[] => {
+  const turns: Turn[] = [];
+  for (const msg of messages) {
+    const parts = toParts(msg);
+    if (parts.length === 0) continue;
+    const text = messageText(msg);
+    const cost = text.length + (parts.length - (text.trim() ? 1 : 0)) * attachmentCost;
+    const last = turns[turns.length - 1];
+    if (last && last.content.role === msg.role) {
+      last.content.parts.push(...parts);
+      last.text += '\n' + text;
+      last.cost += cost;
+    } else {
+      turns.push({ content: { role: msg.role, parts }, text, cost });
+    }
+  }
+  return turns;
+};
+
+const summarize = (turns: Turn[], budget: number) => {
+  const header = 'Summary of the earlier conversation (older turns condensed):';
+  const perTurn = Math.max(40, Math.floor((budget - header.length) / turns.length));
+  const lines = turns.map(t => {
+    const speaker = t.content.role === 'user' ? 'User' : 'WASO';
+    const flat = t.text.replace(/\s+/g, ' ').trim();
+    return `- ${speaker}: ${flat.length > perTurn ? flat.slice(0, perTurn - 3) + '...' : flat}`;
+  });
+  // Drop the oldest lines first if the digest itself is still over budget
+  while (lines.length > 1 && header.length + lines.join('\n').length > budget) lines.shift();
+  return `${header}\n${lines.join('\n')}`;
+};
+
+/**
+ * Turns a session's messages into alternating user/model contents for Gemini.
+ * The newest turns are kept whole up to the character budget; anything older
+ * is condensed into a summary that is prepended to the first kept user turn.
+ */
+export function buildContents(messages: Message[], options: ContextOptions = {}): BuiltContext {
+  const maxChars = options.maxChars ?? CONTEXT_CHAR_BUDGET;
+  const summaryChars = options.summaryChars ?? CONTEXT_SUMMARY_CHAR_BUDGET;
+  const attachmentCost = options.attachmentCost ?? ATTACHMENT_CHAR_COST;
+
+  const turns = toTurns(messages, attachmentCost);
+  // The opening greeting carries no context, and the conversation must start with the user
+  while (turns.length > 0 && turns[0].content.role === 'model') turns.shift();
+  if (turns.length === 0) return { contents: [], summarizedTurns: 0 };
+
+  // Always keep the latest turn, then walk backwards while the budget allows
+  let start = turns.length - 1;
+  let used = turns[start].cost;
+  while (start > 0 && used + turns[start - 1].cost <= maxChars - summaryChars) {
+    start--;
+    used += turns[start].cost;
+  }
+  if (turns[start].content.role === 'model' && start < turns.length - 1) start++;
+
+  const dropped = turns.slice(0, start);
+  const kept = turns.slice(start).map(t => t.content);
+  if (dropped.length > 0) {
+    kept[0] = { ...kept[0], parts: [{ text: summarize(dropped, summaryChars) }, ...kept[0].parts] };
+  }
+  return { contents: kept, summarizedTurns: dropped.length };
+}
@@ -0,0 +1,63 @@
+import { jsPDF } from 'jspdf';
+import regularFontUrl from '@expo-google-fonts/hind-siliguri/400Regular/HindSiliguri_400Regular.ttf?url';
+import boldFontUrl from '@expo-google-fonts/hind-siliguri/700Bold/HindSiliguri_700Bold.ttf?url';
+
+export const BANGLA_FONT = 'HindSiliguri';
+
+const BENGALI_RANGE = /[\u0980-\u09FF]/;
+
+export const containsBangla = (text: string) => BENGALI_RANGE.test(text);
+
+let fontCache: Promise<{ regular: ArrayBuffer; bold: ArrayBuffer }> | null = null;
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fetchFont = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('Unable to load the Bangla font.');
+  return response.arrayBuffer();
+};
+
+// Family name the canvas text shaper uses for Bengali lines (see banglaRaster)
+export const BANGLA_FONT_FAMILY = 'WASO Hind Siliguri';
+
+let facesLoaded = false;
+
+// Makes the font available to canvas drawing in this page
+const addFontFaces = async (regular: ArrayBuffer, bold: ArrayBuffer) => {
+  if (facesLoaded) return;
+  const faces = [new FontFace(BANGLA_FONT_FAMILY, regular, { weight: '400' }), new FontFace(BANGLA_FONT_FAMILY, bold, { weight: '700' })];
+  await Promise.all(faces.map(face => face.load()));
+  faces.forEach(face => document.fonts.add(face));
+  facesLoaded = true;
+};
+
+/**
+ * jsPDF's built-in fonts only cover Latin-1, so documents with Bengali text embed a Unicode
+ * TrueType font for their other lines. Bengali lines themselves are drawn by banglaRaster,
+ * which needs the same font loaded into the page. The font files are fetched once and reused.
+ */
+export async function registerBanglaFont(doc: jsPDF) {
+  if (!fontCache) {
+    fontCache = Promise.all([fetchFont(regularFontUrl), fetchFont(boldFontUrl)])
+      .then(([regular, bold]) => ({ regular, bold }))
+      .catch(err => {
+        fontCache = null;
+        throw err;
+      });
+  }
+  const { regular, bold } = await fontCache;
+  await addFontFaces(regular, bold);
+  doc.addFileToVFS('HindSiliguri-Regular.ttf', toBase64(regular));
+  doc.addFont('HindSiliguri-Regular.ttf', BANGLA_FONT, 'normal');
+  doc.addFileToVFS('HindSiliguri-Bold.ttf', toBase64(bold));
+  doc.addFont('HindSiliguri-Bold.ttf', BANGLA_FONT, 'bold');
+}
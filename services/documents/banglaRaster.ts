@@ -0,0 +1,68 @@
+import { BANGLA_FONT_FAMILY } from './banglaFont';
+
+// jsPDF places glyphs one by one without OpenType shaping, so Bengali vowel signs such as ি
+// land after their consonant and conjuncts fall apart. Lines with Bengali are therefore drawn
+// by the browser's own text shaper on a canvas and placed in the PDF as images.
+
+const PT_TO_MM = 25.4 / 72;
+// Canvas pixels per point; 4 renders at roughly 290 dpi
+const SCALE = 4;
+
+export type TextStyle = 'normal' | 'bold';
+
+let context: CanvasRenderingContext2D | null = null;
+
+const canvasContext = () => {
+  if (!context) {
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (!ctx) throw new Error('Canvas is unavailable, so Bangla text cannot be drawn.');
+    context = ctx;
+  }
+  return context;
+};
+
+const cssFont = (size: number, style: TextStyle) => `${style === 'bold' ? 700 : 400} ${size * SCALE}px "${BANGLA_FONT_FAMILY}"`;
+
+// Width in mm of `text` at `size` points
+export function measureShaped(text: string, size: number, style: TextStyle): number {
+  const ctx = canvasContext();
+  ctx.font = cssFont(size, style);
+  return (ctx.measureText(text).width / SCALE) * PT_TO_MM;
+}
+
+// Word wrap by shaped width; a single word wider than the line is left on its own line
+export function wrapShaped(text: string, maxWidth: number, size: number, style: TextStyle): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureShaped(candidate, size, style) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Draws one line of text as a transparent PNG `height` mm tall, with the baseline at
+ * `baseline` (0 to 1) of the height. Returns the image and its width in mm.
+ */
+export function shapedLineImage(text: string, size: number, style: TextStyle, gray: number, height: number, baseline: number) {
+  const width = Math.max(measureShaped(text, size, style), 0.1);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil((width / PT_TO_MM) * SCALE);
+  canvas.height = Math.ceil((height / PT_TO_MM) * SCALE);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is unavailable, so Bangla text cannot be drawn.');
+  ctx.font = cssFont(size, style);
+  ctx.fillStyle = `rgb(${gray}, ${gray}, ${gray})`;
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(text, 0, canvas.height * baseline);
+  return { data: canvas.toDataURL('image/png'), width };
+}
@@ -0,0 +1,21 @@
+import { Attachment, DocumentFormat, DocumentSpec } from '../../types';
+import { renderPdf } from './pdfRenderer';
+import { renderPptx } from './pptxRenderer';
+
+export const DOCUMENT_MIME_TYPES: Record<DocumentFormat, string> = {
+  pdf: 'application/pdf',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+};
+
+export const slugify = (title: string) =>
+  title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '').slice(0, 40);
+
+const fileName = (title: string, format: DocumentFormat) => `${slugify(title) || 'waso_document'}.${format}`;
+
+/**
+ * Renders a validated document spec into a downloadable attachment.
+ */
+export async function renderDocument(spec: DocumentSpec, format: DocumentFormat): Promise<Attachment> {
+  const data = format === 'pdf' ? await renderPdf(spec) : await renderPptx(spec);
+  return { data, mimeType: DOCUMENT_MIME_TYPES[format], name: fileName(spec.title, format) };
+}
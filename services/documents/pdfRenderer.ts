@@ -0,0 +1,141 @@
+import { jsPDF } from 'jspdf';
+import { DocumentSpec, DocumentTable } from '../../types';
+import { BANGLA_FONT, containsBangla, registerBanglaFont } from './banglaFont';
+import { shapedLineImage, TextStyle, wrapShaped } from './banglaRaster';
+
+const MARGIN = 18;
+const LINE_HEIGHT = 1.45;
+const PX_TO_MM = 25.4 / 96;
+// Where the baseline sits within a line, as a share of the line height
+const BASELINE = 0.8;
+
+export class PdfWriter {
+  y = MARGIN;
+  readonly width: number;
+  readonly height: number;
+
+  constructor(private doc: jsPDF, private fontName: string) {
+    this.width = doc.internal.pageSize.getWidth() - MARGIN * 2;
+    this.height = doc.internal.pageSize.getHeight();
+  }
+
+  private ensureSpace(needed: number) {
+    if (this.y + needed > this.height - MARGIN) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  // Bengali needs shaping, which only the canvas path does; the Bangla font is loaded for it
+  private shapes(value: string) {
+    return this.fontName === BANGLA_FONT && containsBangla(value);
+  }
+
+  // Expects the font, size and color to be set already
+  private wrap(value: string, width: number, size: number, style: TextStyle): string[] {
+    return this.shapes(value) ? wrapShaped(value, width, size, style) : this.doc.splitTextToSize(value, width);
+  }
+
+  private line(value: string, x: number, top: number, lineHeight: number, size: number, style: TextStyle, color: number) {
+    if (!this.shapes(value)) {
+      this.doc.text(value, x, top + lineHeight * BASELINE);
+      return;
+    }
+    const image = shapedLineImage(value, size, style, color, lineHeight, BASELINE);
+    this.doc.addImage(image.data, 'PNG', x, top, image.width, lineHeight);
+  }
+
+  text(value: string, size: number, style: TextStyle = 'normal', indent = 0, color = 20) {
+    this.doc.setFont(this.fontName, style);
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(color);
+    const lineHeight = (size * LINE_HEIGHT) / this.doc.internal.scaleFactor;
+    const lines = this.wrap(value, this.width - indent, size, style);
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.line(line, MARGIN + indent, this.y, lineHeight, size, style, color);
+      this.y += lineHeight;
+    }
+  }
+
+  gap(mm: number) {
+    this.y += mm;
+  }
+
+  // Scales the image to the text width (never upscaling) and to at most one page high
+  image(data: string, mimeType: string) {
+    const src = `data:${mimeType};base64,${data}`;
+    const props = this.doc.getImageProperties(src);
+    let width = Math.min(this.width, props.width * PX_TO_MM);
+    let height = width * props.height / props.width;
+    const maxHeight = this.height - MARGIN * 2;
+    if (height > maxHeight) {
+      width *= maxHeight / height;
+      height = maxHeight;
+    }
+    this.ensureSpace(height);
+    this.doc.addImage(src, props.fileType, MARGIN, this.y, width, height);
+    this.y += height;
+  }
+
+  table(table: DocumentTable) {
+    const cols = table.headers.length;
+    const colWidth = this.width / cols;
+    const size = 9;
+    const lineHeight = (size * LINE_HEIGHT) / this.doc.internal.scaleFactor;
+    this.doc.setFontSize(size);
+
+    const drawRow = (cells: string[], header: boolean) => {
+      const style = header ? 'bold' : 'normal';
+      this.doc.setFont(this.fontName, style);
+      const wrapped = Array.from({ length: cols }, (_, i) => this.wrap(cells[i] || '', colWidth - 4, size, style));
+      const rowHeight = Math.max(...wrapped.map(w => w.length)) * lineHeight + 3;
+      this.ensureSpace(rowHeight);
+      if (header) {
+        this.doc.setFillColor(230, 238, 252);
+        this.doc.rect(MARGIN, this.y, this.width, rowHeight, 'F');
+      }
+      wrapped.forEach((lines, i) => {
+        this.doc.rect(MARGIN + i * colWidth, this.y, colWidth, rowHeight);
+        lines.forEach((line, l) => this.line(line, MARGIN + i * colWidth + 2, this.y + 1.5 + lineHeight * l, lineHeight, size, style, 20));
+      });
+      this.y += rowHeight;
+    };
+
+    this.doc.setDrawColor(180);
+    this.doc.setTextColor(20);
+    drawRow(table.headers, true);
+    table.rows.forEach(row => drawRow(row, false));
+  }
+}
+
+export async function renderPdf(spec: DocumentSpec): Promise<string> {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  let fontName = 'helvetica';
+  if (containsBangla(JSON.stringify(spec))) {
+    await registerBanglaFont(doc);
+    fontName = BANGLA_FONT;
+  }
+
+  const writer = new PdfWriter(doc, fontName);
+  writer.text(spec.title, 22, 'bold');
+  if (spec.subtitle) writer.text(spec.subtitle, 12, 'normal', 0, 90);
+  writer.gap(6);
+
+  for (const section of spec.sections) {
+    writer.text(section.heading, 15, 'bold', 0, 30);
+    writer.gap(1.5);
+    section.paragraphs?.forEach(p => {
+      writer.text(p, 11);
+      writer.gap(2);
+    });
+    section.bullets?.forEach(b => writer.text(`•  ${b}`, 11, 'normal', 4));
+    if (section.table) {
+      writer.gap(2);
+      writer.table(section.table);
+    }
+    writer.gap(6);
+  }
+
+  return doc.output('datauristring').split(',')[1];
+}
@@ -0,0 +1,50 @@
+import pptxgen from 'pptxgenjs';
+import { DocumentSpec } from '../../types';
+import { containsBangla } from './banglaFont';
+
+const BACKGROUND = '00091D';
+const ACCENT = '3B82F6';
+const TEXT = 'E8F0FF';
+
+export async function renderPptx(spec: DocumentSpec): Promise<string> {
+  const pptx = new pptxgen();
+  pptx.layout = 'LAYOUT_WIDE';
+  pptx.title = spec.title;
+  // PowerPoint does not embed fonts; Hind Siliguri falls back to the system Bengali font when missing
+  const fontFace = containsBangla(JSON.stringify(spec)) ? 'Hind Siliguri' : 'Calibri';
+
+  const titleSlide = pptx.addSlide();
+  titleSlide.background = { color: BACKGROUND };
+  titleSlide.addText(spec.title, { x: 0.8, y: 2.4, w: 11.7, h: 1.4, fontFace, fontSize: 40, bold: true, color: TEXT });
+  if (spec.subtitle) {
+    titleSlide.addText(spec.subtitle, { x: 0.8, y: 3.9, w: 11.7, h: 0.8, fontFace, fontSize: 20, color: ACCENT });
+  }
+
+  for (const section of spec.sections) {
+    const slide = pptx.addSlide();
+    slide.background = { color: BACKGROUND };
+    slide.addText(section.heading, { x: 0.6, y: 0.4, w: 12.1, h: 0.9, fontFace, fontSize: 30, bold: true, color: TEXT });
+    slide.addShape(pptx.ShapeType.rect, { x: 0.6, y: 1.3, w: 1.2, h: 0.06, fill: { color: ACCENT } });
+
+    const points = [...(section.paragraphs || []), ...(section.bullets || [])];
+    const bodyHeight = section.table ? 2.2 : 5.4;
+    if (points.length > 0) {
+      slide.addText(
+        points.map(text => ({ text, options: { bullet: true, breakLine: true } })),
+        { x: 0.8, y: 1.6, w: 11.7, h: bodyHeight, fontFace, fontSize: 18, color: TEXT, valign: 'top', paraSpaceAfter: 8 }
+      );
+    }
+
+    if (section.table) {
+      const header = section.table.headers.map(text => ({ text, options: { bold: true, fill: { color: ACCENT }, color: 'FFFFFF' } }));
+      const rows = section.table.rows.map(row => section.table!.headers.map((_, i) => ({ text: row[i] || '' })));
+      slide.addTable([header, ...rows], {
+        x: 0.8, y: points.length > 0 ? 4.0 : 1.6, w: 11.7,
+        fontFace, fontSize: 12, color: TEXT, border: { type: 'solid', pt: 0.5, color: '3A4A66' },
+        autoPage: true
+      });
+    }
+  }
+
+  return (await pptx.write({ outputType: 'base64' })) as string;
+}
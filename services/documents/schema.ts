@@ -0,0 +1,105 @@
+import { DocumentFormat, DocumentSpec } from '../../types';
+
+// Shared by the API (as Gemini's responseJsonSchema) and by validateDocumentSpec below.
+export const DOCUMENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', maxLength: 200 },
+    subtitle: { type: 'string', maxLength: 300 },
+    sections: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 30,
+      items: {
+        type: 'object',
+        properties: {
+          heading: { type: 'string', maxLength: 200 },
+          paragraphs: { type: 'array', maxItems: 20, items: { type: 'string' } },
+          bullets: { type: 'array', maxItems: 12, items: { type: 'string' } },
+          table: {
+            type: 'object',
+            properties: {
+              headers: { type: 'array', minItems: 1, maxItems: 8, items: { type: 'string' } },
+              rows: {
+                type: 'array',
+                maxItems: 40,
+                items: { type: 'array', maxItems: 8, items: { type: 'string' } }
+              }
+            },
+            required: ['headers', 'rows']
+          }
+        },
+        required: ['heading']
+      }
+    }
+  },
+  required: ['title', 'sections']
+} as const;
+
+type Schema = {
+  type: string;
+  properties?: Record<string, Schema>;
+  required?: readonly string[];
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+  maxLength?: number;
+};
+
+// Validates the subset of JSON Schema used above; returns the first problem found
+function check(value: unknown, schema: Schema, path: string): string | null {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return `${path} must be a string`;
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) return `${path} is too long`;
+      return null;
+    case 'array': {
+      if (!Array.isArray(value)) return `${path} must be an array`;
+      if (schema.minItems !== undefined && value.length < schema.minItems) return `${path} needs at least ${schema.minItems} items`;
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) return `${path} allows at most ${schema.maxItems} items`;
+      for (let i = 0; i < value.length; i++) {
+        const err = check(value[i], schema.items!, `${path}[${i}]`);
+        if (err) return err;
+      }
+      return null;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return `${path} must be an object`;
+      const obj = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (obj[key] === undefined) return `${path}.${key} is required`;
+      }
+      for (const [key, sub] of Object.entries(schema.properties || {})) {
+        if (obj[key] === undefined) continue;
+        const err = check(obj[key], sub, `${path}.${key}`);
+        if (err) return err;
+      }
+      return null;
+    }
+    default:
+      return `${path} has unsupported schema type ${schema.type}`;
+  }
+}
+
+export function validateDocumentSpec(value: unknown): { spec?: DocumentSpec; error?: string } {
+  const error = check(value, DOCUMENT_SCHEMA as Schema, 'document');
+  return error ? { error } : { spec: value as DocumentSpec };
+}
+
+/**
+ * `answer` converts an existing chat answer without adding facts;
+ * `request` writes a new document that fulfils the user's prompt.
+ */
+export function documentPrompt(text: string, format: DocumentFormat, source: 'answer' | 'request' = 'answer'): string {
+  const shape = format === 'pptx'
+    ? 'a slide deck: each section becomes one slide, so keep bullets short (max 6 per section) and avoid long paragraphs'
+    : 'a written report: use paragraphs for explanations, bullets for lists and tables for comparisons';
+  const task = source === 'answer'
+    ? `Convert the following content into ${shape}.\nDo not invent facts that are not in the source.`
+    : `Write ${shape}, fulfilling the user's request below.`;
+  return `${task}
+Respond only with JSON matching the provided schema. Keep the language of the source (English or Bangla).
+
+${source === 'answer' ? 'SOURCE' : 'REQUEST'}:
+${text}`;
+}
@@ -0,0 +1,205 @@
+// Browser-side client for /api/gemini, including the server-sent events streaming mode.
+import { ApiErrorCode, DocumentFormat, DocumentSpec, GeminiContent, GeminiPart, GenerationSettings, ToolCall, ToolStep } from '../types';
+import { REQUEST_TIMEOUT_MS } from '../constants';
+import { authHeaders } from './auth';
+import { withRetry } from './retry';
+
+// `network` and `tool_limit` are raised by the browser itself
+export type GeminiErrorCode = ApiErrorCode | 'network' | 'tool_limit';
+
+// A failed /api/gemini call, carrying the code from the API's error contract
+export class GeminiError extends Error {
+  // `unanswered`: the API itself never replied (network failure, the platform's own timeout).
+  // `retryAfter`: seconds a rate-limited caller should wait before sending again.
+  constructor(readonly code: GeminiErrorCode, message: string, readonly retryable = false, readonly unanswered = false, readonly retryAfter?: number) {
+    super(message);
+    this.name = 'GeminiError';
+  }
+}
+
+// The model called browser tools: run `calls`, then continue with `continuation` and the responses
+export interface PendingToolCalls {
+  calls: ToolCall[];
+  continuation: GeminiContent[];
+  responses: GeminiPart[];
+}
+
+export type GeminiReply =
+  | { type: 'text'; text: string }
+  | ({ type: 'toolCalls'; text: string } & PendingToolCalls)
+  | { type: 'image'; parts: any[] }
+  | { type: 'document'; format: DocumentFormat; document: DocumentSpec };
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  // Called with the accumulated text every time a new chunk arrives
+  onText?: (text: string) => void;
+  // Called for every tool the server ran
+  onToolStep?: (step: ToolStep) => void;
+}
+
+// Gemini failures were already retried by the server, so the browser only repeats requests the
+// API never answered; repeating the others would multiply upstream calls and quota charges
+const isRetryable = (error: unknown) => error instanceof GeminiError && error.unanswered;
+
+// Older deployments and proxies answer without a code, so one is derived from the status. A 504
+// without a code comes from the platform stopping the function, not from the API.
+const errorFromBody = (status: number, data: any) => data?.code
+  ? new GeminiError(data.code, data.error || `Request failed (${status}).`, data.retryable === true, false, typeof data.retryAfter === 'number' ? data.retryAfter : undefined)
+  : new GeminiError(
+      status === 429 ? 'quota_exceeded' : status === 401 ? 'unauthorized' : status === 504 ? 'upstream_timeout' : status >= 500 ? 'upstream_error' : 'invalid_input',
+      status === 504 ? 'WASO took too long to answer.' : data?.error || `Request failed (${status}).`,
+      [502, 503, 504].includes(status),
+      status === 504
+    );
+
+// One POST; no response within REQUEST_TIMEOUT_MS is a timeout. `signal` also cancels reading the body.
+async function postOnce(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+  const controller = new AbortController();
+  signal?.addEventListener('abort', () => controller.abort(), { once: true });
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, REQUEST_TIMEOUT_MS);
+  try {
+    return await fetch('/api/gemini', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+  } catch (error) {
+    if (timedOut) throw new GeminiError('upstream_timeout', 'WASO took too long to answer.', true, true);
+    if (signal?.aborted) throw error;
+    throw new GeminiError('network', 'Could not reach WASO. Check your connection.', true, true);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Resolves with successful responses only; requests that never reached the server are retried
+// with backoff first
+const postGemini = (body: Record<string, unknown>, signal?: AbortSignal, attempts?: number) => withRetry(async () => {
+  const response = await postOnce(body, signal);
+  if (response.ok) return response;
+  throw errorFromBody(response.status, await response.json().catch(() => null));
+}, { shouldRetry: isRetryable, signal, attempts });
+
+interface ServerEvent {
+  event: string;
+  data: any;
+}
+
+const parseEvent = (block: string): ServerEvent | null => {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+  if (data.length === 0) return null;
+  try {
+    return { event, data: JSON.parse(data.join('\n')) };
+  } catch (e) {
+    return null;
+  }
+};
+
+async function readEventStream(response: Response, options: StreamOptions): Promise<GeminiReply> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let pending: PendingToolCalls | null = null;
+  const reply = (): GeminiReply => pending ? { type: 'toolCalls', text, ...pending } : { type: 'text', text };
+
+  while (true) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      throw new GeminiError('network', 'The connection to WASO dropped.', true, true);
+    }
+    const { value, done } = chunk;
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const parsed = parseEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+      if (!parsed) continue;
+
+      if (parsed.event === 'chunk') {
+        text += parsed.data.text || '';
+        options.onText?.(text);
+      } else if (parsed.event === 'tool') {
+        options.onToolStep?.(parsed.data);
+      } else if (parsed.event === 'toolCalls') {
+        pending = parsed.data;
+      } else if (parsed.event === 'error') {
+        throw new GeminiError(parsed.data.code || 'internal', parsed.data.error || 'Stream failure', parsed.data.retryable === true);
+      } else if (parsed.event === 'done') {
+        return reply();
+      }
+    }
+  }
+  return reply();
+}
+
+/**
+ * Sends a generation request. Text replies are streamed through `onText`;
+ * image and document replies arrive as a single JSON body. Transient failures are retried
+ * until the first text or tool step arrives; after that they are thrown as GeminiError.
+ */
+export async function requestGeneration(body: Record<string, unknown>, options: StreamOptions = {}): Promise<GeminiReply> {
+  let emitted = false;
+  const tracked: StreamOptions = {
+    signal: options.signal,
+    onText: (text) => {
+      emitted = true;
+      options.onText?.(text);
+    },
+    onToolStep: (step) => {
+      emitted = true;
+      options.onToolStep?.(step);
+    }
+  };
+  return withRetry(() => sendGeneration(body, tracked), { shouldRetry: (error) => !emitted && isRetryable(error), signal: options.signal });
+}
+
+async function sendGeneration(body: Record<string, unknown>, options: StreamOptions): Promise<GeminiReply> {
+  // A single attempt: requestGeneration retries the request and the stream together
+  const response = await postGemini({ ...body, stream: true }, options.signal, 1);
+
+  if ((response.headers.get('Content-Type') || '').includes('text/event-stream')) {
+    return readEventStream(response, options);
+  }
+
+  const data = await response.json();
+  if (data.type === 'image') return { type: 'image', parts: data.parts || [] };
+  if (data.type === 'document') return { type: 'document', format: data.format, document: data.document };
+  (data.steps || []).forEach((step: ToolStep) => options.onToolStep?.(step));
+  if (data.type === 'toolCalls') return { type: 'toolCalls', text: data.text || '', calls: data.calls, continuation: data.continuation, responses: data.responses };
+  return { type: 'text', text: data.text || '' };
+}
+
+export async function requestDocument(text: string, format: DocumentFormat, systemInstruction?: string, settings?: GenerationSettings): Promise<DocumentSpec> {
+  const response = await postGemini({ type: 'document', text, format, systemInstruction, settings });
+  return (await response.json()).document;
+}
+
+// One vector per text; documents and queries are embedded for retrieval in different ways
+export async function requestEmbeddings(texts: string[], taskType: 'document' | 'query'): Promise<number[][]> {
+  const response = await postGemini({ type: 'embed', texts, taskType });
+  return (await response.json()).embeddings;
+}
+
+// Returns base64 PCM audio (24 kHz, 16-bit mono) for the given text
+export async function requestSpeech(text: string, voice?: string): Promise<string | undefined> {
+  const response = await postGemini({ type: 'tts', text, voice });
+  return (await response.json()).audio;
+}
@@ -0,0 +1,130 @@
+// Central model configuration shared by the client (settings panel) and /api/gemini (allowlist).
+import { HarmBlockThreshold, HarmCategory } from '@google/genai';
+import { GenerationSettings, SafetyCategory, SafetyThreshold } from '../types';
+
+export interface ModelOption {
+  id: string;
+  label: string;
+  maxOutputTokens: number;
+  // Allowed thinking budgets besides -1 (dynamic); 0 is only valid when thinking can be disabled
+  thinking: { min: number; max: number; canDisable: boolean };
+}
+
+// Models a session may pick for chat and document answers
+export const TEXT_MODELS: ModelOption[] = [
+  { id: 'gemini-3-flash-preview', label: 'Gemini 3 Flash', maxOutputTokens: 65536, thinking: { min: 128, max: 24576, canDisable: false } },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', maxOutputTokens: 65536, thinking: { min: 128, max: 32768, canDisable: false } },
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', maxOutputTokens: 65536, thinking: { min: 1, max: 24576, canDisable: true } },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash Lite', maxOutputTokens: 65536, thinking: { min: 512, max: 24576, canDisable: true } }
+];
+
+export const IMAGE_MODEL = 'gemini-2.5-flash-image';
+export const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+// Knowledge base vectors; changing the model or size makes stored vectors unusable
+export const EMBEDDING_MODEL = 'gemini-embedding-001';
+export const EMBEDDING_DIMENSIONS = 768;
+// Used by the intent router; not user selectable
+export const CLASSIFIER_MODEL = 'gemini-2.5-flash-lite';
+
+export const SAFETY_CATEGORIES: Record<SafetyCategory, { label: string; harmCategory: HarmCategory }> = {
+  harassment: { label: 'Harassment', harmCategory: HarmCategory.HARM_CATEGORY_HARASSMENT },
+  hateSpeech: { label: 'Hate speech', harmCategory: HarmCategory.HARM_CATEGORY_HATE_SPEECH },
+  sexuallyExplicit: { label: 'Sexually explicit', harmCategory: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT },
+  dangerousContent: { label: 'Dangerous content', harmCategory: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT }
+};
+
+export const SAFETY_THRESHOLDS: { value: SafetyThreshold; label: string }[] = [
+  { value: 'BLOCK_NONE', label: 'Off' },
+  { value: 'BLOCK_ONLY_HIGH', label: 'High only' },
+  { value: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Medium+' },
+  { value: 'BLOCK_LOW_AND_ABOVE', label: 'Low+' }
+];
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+export const TOP_P_RANGE = { min: 0, max: 1 };
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  model: TEXT_MODELS[0].id,
+  temperature: 1,
+  topP: 0.95,
+  maxOutputTokens: 8192,
+  safety: {
+    harassment: 'BLOCK_MEDIUM_AND_ABOVE',
+    hateSpeech: 'BLOCK_MEDIUM_AND_ABOVE',
+    sexuallyExplicit: 'BLOCK_MEDIUM_AND_ABOVE',
+    dangerousContent: 'BLOCK_MEDIUM_AND_ABOVE'
+  },
+  thinkingBudget: -1
+};
+
+export const findModel = (id: string) => TEXT_MODELS.find(m => m.id === id);
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const inRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+/**
+ * Validates settings sent by a client against the allowlists. Missing fields fall back to
+ * the defaults, so older clients that send nothing still get a complete configuration.
+ */
+export function validateGenerationSettings(input: unknown): { settings: GenerationSettings | null; error?: string } {
+  if (input === undefined || input === null) return { settings: DEFAULT_GENERATION_SETTINGS };
+  if (!isObject(input)) return { settings: null, error: 'settings must be an object.' };
+
+  const settings: GenerationSettings = {
+    ...DEFAULT_GENERATION_SETTINGS,
+    ...input,
+    safety: { ...DEFAULT_GENERATION_SETTINGS.safety, ...(isObject(input.safety) ? input.safety : {}) }
+  };
+
+  const model = findModel(settings.model);
+  if (!model) {
+    return { settings: null, error: `settings.model must be one of: ${TEXT_MODELS.map(m => m.id).join(', ')}.` };
+  }
+  if (!inRange(settings.temperature, TEMPERATURE_RANGE.min, TEMPERATURE_RANGE.max)) {
+    return { settings: null, error: `settings.temperature must be between ${TEMPERATURE_RANGE.min} and ${TEMPERATURE_RANGE.max}.` };
+  }
+  if (!inRange(settings.topP, TOP_P_RANGE.min, TOP_P_RANGE.max)) {
+    return { settings: null, error: `settings.topP must be between ${TOP_P_RANGE.min} and ${TOP_P_RANGE.max}.` };
+  }
+  if (!Number.isInteger(settings.maxOutputTokens) || !inRange(settings.maxOutputTokens, 1, model.maxOutputTokens)) {
+    return { settings: null, error: `settings.maxOutputTokens must be an integer between 1 and ${model.maxOutputTokens}.` };
+  }
+  for (const category of Object.keys(settings.safety)) {
+    if (!Object.prototype.hasOwnProperty.call(SAFETY_CATEGORIES, category)) return { settings: null, error: `settings.safety.${category} is not a known category.` };
+    if (!SAFETY_THRESHOLDS.some(t => t.value === settings.safety[category as SafetyCategory])) {
+      return { settings: null, error: `settings.safety.${category} must be one of: ${SAFETY_THRESHOLDS.map(t => t.value).join(', ')}.` };
+    }
+  }
+  const budget = settings.thinkingBudget;
+  const validBudget = Number.isInteger(budget)
+    && (budget === -1 || (budget === 0 && model.thinking.canDisable) || inRange(budget, model.thinking.min, model.thinking.max));
+  if (!validBudget) {
+    return {
+      settings: null,
+      error: `settings.thinkingBudget for ${model.id} must be -1${model.thinking.canDisable ? ', 0' : ''} or between ${model.thinking.min} and ${model.thinking.max}.`
+    };
+  }
+
+  // Only known fields are passed on
+  const { model: id, temperature, topP, maxOutputTokens, safety, thinkingBudget } = settings;
+  return { settings: { model: id, temperature, topP, maxOutputTokens, safety, thinkingBudget } };
+}
+
+// Safety settings in the shape the Gemini API expects
+export const safetySettings = (settings: GenerationSettings) =>
+  (Object.keys(settings.safety) as SafetyCategory[]).map(category => ({
+    category: SAFETY_CATEGORIES[category].harmCategory,
+    threshold: settings.safety[category] as HarmBlockThreshold
+  }));
+
+// Generation config fragment for text requests
+export const generationConfig = (settings: GenerationSettings) => ({
+  temperature: settings.temperature,
+  topP: settings.topP,
+  maxOutputTokens: settings.maxOutputTokens,
+  safetySettings: safetySettings(settings),
+  thinkingConfig: { thinkingBudget: settings.thinkingBudget }
+});
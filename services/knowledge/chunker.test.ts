@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { chunkPages } from './chunker';
+
+const sentences = (count: number, word = 'word') =>
+  Array.from({ length: count }, (_, i) => `Sentence ${i + 1} has a ${word} in it.`).join(' ');
+
+describe('chunkPages', () => {
+  it('keeps short pages whole and never joins two pages', () => {
+    const chunks = chunkPages([{ page: 1, text: 'First page.' }, { page: 2, text: 'Second page.' }, { page: 3, text: ' \n ' }]);
+    expect(chunks).toEqual([{ page: 1, text: 'First page.' }, { page: 2, text: 'Second page.' }]);
+  });
+
+  it('leaves the page out for plain text files', () => {
+    expect(chunkPages([{ text: 'A text file.' }])).toEqual([{ page: undefined, text: 'A text file.' }]);
+  });
+
+  it('splits long pages at sentence ends, within the size, on the same page', () => {
+    const chunks = chunkPages([{ page: 4, text: sentences(20) }], { size: 100, overlap: 0 });
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.page).toBe(4);
+      expect(chunk.text.length).toBeLessThanOrEqual(100);
+      expect(chunk.text).toMatch(/^Sentence \d+ .*\.$/);
+    }
+    expect(chunks.map(c => c.text).join(' ')).toBe(sentences(20));
+  });
+
+  it('starts each chunk with the end of the previous one', () => {
+    const chunks = chunkPages([{ page: 1, text: sentences(12) }], { size: 120, overlap: 40 });
+    expect(chunks.length).toBeGreaterThan(2);
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = chunks[i - 1].text;
+      const carried = chunks[i].text.slice(0, chunks[i].text.indexOf('Sentence', 1)).trim();
+      expect(carried.length).toBeGreaterThan(0);
+      expect(carried.length).toBeLessThanOrEqual(40);
+      expect(previous.endsWith(carried)).toBe(true);
+    }
+  });
+
+  it('does not carry text between pages', () => {
+    const chunks = chunkPages([{ page: 1, text: 'Only on page one.' }, { page: 2, text: 'Only on page two.' }], { size: 100, overlap: 50 });
+    expect(chunks[1].text).toBe('Only on page two.');
+  });
+
+  it('ends Bengali sentences at the danda', () => {
+    const text = 'আমি প্রতিদিন সকালে ভাত খাই। তুমি বিকেলে কী খাও? সে রাতে বই পড়ে।';
+    const chunks = chunkPages([{ page: 1, text }], { size: 35, overlap: 0 });
+    expect(chunks.map(c => c.text)).toEqual(['আমি প্রতিদিন সকালে ভাত খাই।', 'তুমি বিকেলে কী খাও?', 'সে রাতে বই পড়ে।']);
+  });
+
+  it('cuts a sentence longer than the size between words', () => {
+    const text = Array.from({ length: 40 }, (_, i) => `w${i}`).join(' ');
+    const chunks = chunkPages([{ page: 1, text }], { size: 30, overlap: 0 });
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(30);
+      expect(chunk.text).toMatch(/^w\d+( w\d+)*$/);
+    }
+    expect(chunks.map(c => c.text).join(' ')).toBe(text);
+  });
+});
@@ -0,0 +1,70 @@
+import { MAX_EMBED_TEXT_CHARS } from '../../constants';
+
+// Extracted text of one PDF page, or of a whole text file when `page` is absent
+export interface PageText {
+  page?: number;
+  text: string;
+}
+
+export interface TextChunk {
+  page?: number;
+  text: string;
+}
+
+export interface ChunkOptions {
+  size?: number;
+  overlap?: number;
+}
+
+const normalize = (text: string) => text
+  .replace(/\r\n?/g, '\n')
+  .replace(/[ \t\f\v\u00a0]+/g, ' ')
+  .replace(/ *\n */g, '\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+// Splits at paragraph and sentence ends; anything still longer than `size` is cut between words
+function pieces(text: string, size: number): string[] {
+  const sentences = text.split(/(?<=\n\n)|(?<=[.!?।]["')\]]?\s)/);
+  const out: string[] = [];
+  for (const sentence of sentences) {
+    let rest = sentence;
+    while (rest.length > size) {
+      const cut = rest.lastIndexOf(' ', size);
+      const at = cut > size / 2 ? cut + 1 : size;
+      out.push(rest.slice(0, at));
+      rest = rest.slice(at);
+    }
+    if (rest) out.push(rest);
+  }
+  return out;
+}
+
+// The end of the previous chunk, starting on a word boundary
+function tail(text: string, overlap: number): string {
+  if (overlap <= 0 || text.length <= overlap) return overlap > 0 ? text : '';
+  const start = text.indexOf(' ', text.length - overlap);
+  return start === -1 ? '' : text.slice(start + 1);
+}
+
+/**
+ * Splits pages into overlapping chunks of about `size` characters. Chunks never span pages,
+ * so every excerpt can be cited with a single page number.
+ */
+export function chunkPages(pages: PageText[], { size = 1200, overlap = 200 }: ChunkOptions = {}): TextChunk[] {
+  const limit = Math.min(size, MAX_EMBED_TEXT_CHARS);
+  const chunks: TextChunk[] = [];
+  for (const { page, text } of pages) {
+    let current = '';
+    for (const piece of pieces(normalize(text), limit)) {
+      if (current && current.length + piece.length > limit) {
+        chunks.push({ page, text: current.trim() });
+        const carried = tail(current, Math.min(overlap, limit - piece.length));
+        current = carried ? `${carried}${carried.endsWith(' ') || carried.endsWith('\n') ? '' : ' '}` : '';
+      }
+      current += piece;
+    }
+    if (current.trim()) chunks.push({ page, text: current.trim() });
+  }
+  return chunks;
+}
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GeminiError, requestEmbeddings } from '../geminiClient';
+import { GeminiEmbedder } from './embedder';
+
+vi.mock('../geminiClient', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../geminiClient')>(),
+  requestEmbeddings: vi.fn()
+}));
+
+const embedRequest = vi.mocked(requestEmbeddings);
+const rateLimited = (retryAfter: number) => new GeminiError('quota_exceeded', 'Too many requests.', false, false, retryAfter);
+
+describe('GeminiEmbedder', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => {
+    vi.useRealTimers();
+    embedRequest.mockReset();
+  });
+
+  it('waits out Retry-After and sends a rate-limited batch again', async () => {
+    embedRequest.mockRejectedValueOnce(rateLimited(3)).mockResolvedValueOnce([[1, 0]]);
+    const result = new GeminiEmbedder().embed(['a'], 'document');
+    await vi.advanceTimersByTimeAsync(2_999);
+    expect(embedRequest).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await result).toEqual([[1, 0]]);
+    expect(embedRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails at once when the daily quota is used up', async () => {
+    embedRequest.mockRejectedValueOnce(rateLimited(6 * 3600));
+    await expect(new GeminiEmbedder().embed(['a'], 'document')).rejects.toMatchObject({ code: 'quota_exceeded' });
+    expect(embedRequest).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,81 @@
+import { EMBEDDING_DIMENSIONS, EMBEDDING_MODEL } from '../generationConfig';
+import { GeminiError, requestEmbeddings } from '../geminiClient';
+import { MAX_EMBED_BATCH } from '../../constants';
+
+export type EmbeddingKind = 'document' | 'query';
+
+export interface Embedder {
+  // Stored with each document; vectors are only compared within one model
+  readonly model: string;
+  embed(texts: string[], kind: EmbeddingKind): Promise<number[][]>;
+}
+
+// Longest Retry-After a batch waits out; the daily quota asks for hours and fails the file instead
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+const MAX_RATE_LIMIT_WAITS = 5;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Embeds through /api/gemini in batches the server accepts. A large file needs more batches
+ * than the rate limit's burst, so a rate-limited batch waits for Retry-After and is sent again.
+ */
+export class GeminiEmbedder implements Embedder {
+  readonly model = `${EMBEDDING_MODEL}@${EMBEDDING_DIMENSIONS}`;
+
+  async embed(texts: string[], kind: EmbeddingKind): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += MAX_EMBED_BATCH) {
+      vectors.push(...await this.embedBatch(texts.slice(i, i + MAX_EMBED_BATCH), kind));
+    }
+    return vectors;
+  }
+
+  private async embedBatch(texts: string[], kind: EmbeddingKind): Promise<number[][]> {
+    for (let waits = 0; ; waits++) {
+      try {
+        return await requestEmbeddings(texts, kind);
+      } catch (error) {
+        const delayMs = error instanceof GeminiError && error.code === 'quota_exceeded' && error.retryAfter ? error.retryAfter * 1000 : Infinity;
+        if (waits >= MAX_RATE_LIMIT_WAITS || delayMs > MAX_RATE_LIMIT_WAIT_MS) throw error;
+        await wait(delayMs);
+      }
+    }
+  }
+}
+
+/**
+ * Deterministic hashed bag of words for tests and offline development. Texts sharing words
+ * get similar vectors, which is enough to exercise retrieval without calling the API.
+ */
+export class FakeEmbedder implements Embedder {
+  readonly model: string;
+
+  constructor(private dimensions = 256) {
+    this.model = `fake-hash@${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(this.dimensions).fill(0);
+      for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < word.length; i++) {
+          hash ^= word.charCodeAt(i);
+          hash = Math.imul(hash, 0x01000193);
+        }
+        vector[(hash >>> 0) % this.dimensions] += 1;
+      }
+      const norm = Math.hypot(...vector) || 1;
+      return vector.map(v => v / norm);
+    });
+  }
+}
+
+let embedder: Embedder = new GeminiEmbedder();
+
+export const getEmbedder = () => embedder;
+
+export function setEmbedder(next: Embedder) {
+  embedder = next;
+}
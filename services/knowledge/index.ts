@@ -0,0 +1,23 @@
+import { IndexedDbKnowledgeStore } from './indexedDbKnowledgeStore';
+import { KnowledgeBase } from './knowledgeBase';
+import { MemoryKnowledgeStore } from './knowledgeStore';
+
+export type { KnowledgeChunk, KnowledgeDocument, KnowledgeStore } from './knowledgeStore';
+export type { Embedder, EmbeddingKind } from './embedder';
+export type { IndexingStage } from './knowledgeBase';
+export type { PageText, TextChunk } from './chunker';
+export { MemoryKnowledgeStore } from './knowledgeStore';
+export { IndexedDbKnowledgeStore } from './indexedDbKnowledgeStore';
+export { FakeEmbedder, GeminiEmbedder, getEmbedder, setEmbedder } from './embedder';
+export { KnowledgeBase } from './knowledgeBase';
+export { chunkPages } from './chunker';
+export { KNOWLEDGE_ACCEPT, extractPages } from './parseFile';
+export { citedIn, cosineSimilarity, knowledgePrompt } from './retrieval';
+
+export function createKnowledgeBase(): KnowledgeBase {
+  if (typeof indexedDB === 'undefined') {
+    console.warn('IndexedDB unavailable; added files will not persist.');
+    return new KnowledgeBase(new MemoryKnowledgeStore());
+  }
+  return new KnowledgeBase(new IndexedDbKnowledgeStore());
+}
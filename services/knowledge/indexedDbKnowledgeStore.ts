@@ -0,0 +1,86 @@
+import { StorageQuotaError, isQuotaError } from '../storage/sessionStore';
+import { KnowledgeChunk, KnowledgeDocument, KnowledgeStore } from './knowledgeStore';
+
+// Kept apart from the session database so either can be upgraded on its own
+const DB_NAME = 'waso-knowledge';
+const DB_VERSION = 1;
+const DOCUMENTS = 'documents'; // KnowledgeDocument, keyed by id
+const CHUNKS = 'chunks'; // KnowledgeChunk, keyed by id
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onabort = () => reject(tx.error);
+  tx.onerror = () => reject(tx.error);
+});
+
+export class IndexedDbKnowledgeStore implements KnowledgeStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          db.createObjectStore(DOCUMENTS, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+          const chunks = db.createObjectStore(CHUNKS, { keyPath: 'id' });
+          chunks.createIndex('sessionId', 'sessionId');
+          chunks.createIndex('documentId', 'documentId');
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.db;
+  }
+
+  async listDocuments(sessionId: string): Promise<KnowledgeDocument[]> {
+    const db = await this.open();
+    const index = db.transaction(DOCUMENTS).objectStore(DOCUMENTS).index('sessionId');
+    const docs = await request(index.getAll(IDBKeyRange.only(sessionId))) as KnowledgeDocument[];
+    return docs.sort((a, b) => a.addedAt - b.addedAt);
+  }
+
+  async loadChunks(sessionId: string): Promise<KnowledgeChunk[]> {
+    const db = await this.open();
+    const index = db.transaction(CHUNKS).objectStore(CHUNKS).index('sessionId');
+    return await request(index.getAll(IDBKeyRange.only(sessionId))) as KnowledgeChunk[];
+  }
+
+  async addDocument(doc: KnowledgeDocument, chunks: KnowledgeChunk[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([DOCUMENTS, CHUNKS], 'readwrite');
+    tx.objectStore(DOCUMENTS).put(doc);
+    chunks.forEach(chunk => tx.objectStore(CHUNKS).put(chunk));
+    try {
+      await transactionDone(tx);
+    } catch (error) {
+      if (isQuotaError(error)) throw new StorageQuotaError('Browser storage is full. Remove some files or old sessions to add more.');
+      throw error;
+    }
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([DOCUMENTS, CHUNKS], 'readwrite');
+    tx.objectStore(DOCUMENTS).delete(id);
+    const keys = await request(tx.objectStore(CHUNKS).index('documentId').getAllKeys(IDBKeyRange.only(id)));
+    keys.forEach(key => tx.objectStore(CHUNKS).delete(key));
+    await transactionDone(tx);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([DOCUMENTS, CHUNKS], 'readwrite');
+    const docKeys = await request(tx.objectStore(DOCUMENTS).index('sessionId').getAllKeys(IDBKeyRange.only(sessionId)));
+    const chunkKeys = await request(tx.objectStore(CHUNKS).index('sessionId').getAllKeys(IDBKeyRange.only(sessionId)));
+    docKeys.forEach(key => tx.objectStore(DOCUMENTS).delete(key));
+    chunkKeys.forEach(key => tx.objectStore(CHUNKS).delete(key));
+    await transactionDone(tx);
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { FakeEmbedder } from './embedder';
+import { KnowledgeBase } from './knowledgeBase';
+import { MemoryKnowledgeStore } from './knowledgeStore';
+
+const textFile = (name: string, text: string) => new File([text], name, { type: 'text/plain' });
+
+const setup = () => {
+  const store = new MemoryKnowledgeStore();
+  let embedder = new FakeEmbedder();
+  const kb = new KnowledgeBase(store, () => embedder, { size: 80, overlap: 0 });
+  return { store, kb, useEmbedder: (next: FakeEmbedder) => { embedder = next; } };
+};
+
+describe('KnowledgeBase', () => {
+  it('indexes a file into chunks and reports its stages', async () => {
+    const { kb, store } = setup();
+    const stages: string[] = [];
+    const doc = await kb.addFile('s1', textFile('notes.txt', 'Cats sleep all day. Dogs bark at night. Birds sing in the morning.'), stage => stages.push(stage));
+
+    expect(stages).toEqual(['reading', 'embedding', 'saving']);
+    expect(doc).toMatchObject({ sessionId: 's1', fileName: 'notes.txt', chunkCount: 1, embeddingModel: 'fake-hash@256' });
+    expect(doc.pageCount).toBeUndefined();
+    expect(await kb.listDocuments('s1')).toEqual([doc]);
+    const [chunk] = await store.loadChunks('s1');
+    expect(chunk.vector).toHaveLength(256);
+  });
+
+  it('returns the closest excerpts first, numbered from 1', async () => {
+    const { kb } = setup();
+    await kb.addFile('s1', textFile('animals.txt', 'Penguins live in Antarctica and eat fish.\n\nCamels cross the desert and store fat in their humps.'));
+    await kb.addFile('s1', textFile('food.txt', 'Rice is cooked with water and a little salt.'));
+
+    const citations = await kb.retrieve('s1', 'Where do penguins live?', 2);
+    expect(citations).toHaveLength(2);
+    expect(citations[0]).toMatchObject({ index: 1, fileName: 'animals.txt', text: expect.stringContaining('Penguins') });
+    expect(citations[1].index).toBe(2);
+  });
+
+  it('only searches the asked session', async () => {
+    const { kb } = setup();
+    await kb.addFile('s1', textFile('a.txt', 'Penguins live in Antarctica.'));
+    expect(await kb.retrieve('s2', 'penguins')).toEqual([]);
+    expect(await kb.retrieve('s1', '   ')).toEqual([]);
+  });
+
+  it('skips files embedded with another model', async () => {
+    const { kb, useEmbedder } = setup();
+    await kb.addFile('s1', textFile('old.txt', 'Penguins live in Antarctica.'));
+    useEmbedder(new FakeEmbedder(64));
+    expect(await kb.retrieve('s1', 'penguins')).toEqual([]);
+
+    await kb.addFile('s1', textFile('new.txt', 'Penguins eat fish.'));
+    const citations = await kb.retrieve('s1', 'penguins');
+    expect(citations.map(c => c.fileName)).toEqual(['new.txt']);
+  });
+
+  it('forgets deleted files, including chunks it had cached', async () => {
+    const { kb } = setup();
+    const doc = await kb.addFile('s1', textFile('a.txt', 'Penguins live in Antarctica.'));
+    expect(await kb.retrieve('s1', 'penguins')).toHaveLength(1);
+
+    await kb.deleteDocument('s1', doc.id);
+    expect(await kb.retrieve('s1', 'penguins')).toEqual([]);
+    expect(await kb.listDocuments('s1')).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { Citation } from '../../types';
+import { ChunkOptions, chunkPages } from './chunker';
+import { Embedder, getEmbedder } from './embedder';
+import { KnowledgeChunk, KnowledgeDocument, KnowledgeStore } from './knowledgeStore';
+import { extractPages } from './parseFile';
+import { topChunks } from './retrieval';
+
+export type IndexingStage = 'reading' | 'embedding' | 'saving';
+
+/**
+ * Per-session document Q&A: files are parsed, chunked and embedded once, kept in local storage,
+ * and the closest chunks are looked up for every question.
+ */
+export class KnowledgeBase {
+  // Chunks of recently used sessions, so each question does not reload every vector
+  private cache = new Map<string, KnowledgeChunk[]>();
+
+  constructor(
+    private store: KnowledgeStore,
+    private embedder: () => Embedder = getEmbedder,
+    private chunkOptions: ChunkOptions = {}
+  ) {}
+
+  listDocuments(sessionId: string): Promise<KnowledgeDocument[]> {
+    return this.store.listDocuments(sessionId);
+  }
+
+  async addFile(sessionId: string, file: File, onStage?: (stage: IndexingStage) => void): Promise<KnowledgeDocument> {
+    onStage?.('reading');
+    const pages = await extractPages(file);
+    const chunks = chunkPages(pages, this.chunkOptions);
+
+    onStage?.('embedding');
+    const embedder = this.embedder();
+    const vectors = await embedder.embed(chunks.map(c => c.text), 'document');
+
+    onStage?.('saving');
+    const doc: KnowledgeDocument = {
+      id: `doc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      sessionId,
+      fileName: file.name,
+      mimeType: file.type,
+      size: file.size,
+      pageCount: pages.some(p => p.page) ? Math.max(...pages.map(p => p.page || 0)) : undefined,
+      chunkCount: chunks.length,
+      embeddingModel: embedder.model,
+      addedAt: Date.now()
+    };
+    await this.store.addDocument(doc, chunks.map((chunk, index) => ({
+      id: `${doc.id}:${index}`,
+      documentId: doc.id,
+      sessionId,
+      index,
+      page: chunk.page,
+      text: chunk.text,
+      vector: vectors[index]
+    })));
+    this.cache.delete(sessionId);
+    return doc;
+  }
+
+  async deleteDocument(sessionId: string, id: string): Promise<void> {
+    await this.store.deleteDocument(id);
+    this.cache.delete(sessionId);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.store.deleteSession(sessionId);
+    this.cache.delete(sessionId);
+  }
+
+  // Closest excerpts numbered from 1; empty when the session has no usable files
+  async retrieve(sessionId: string, question: string, k = 6): Promise<Citation[]> {
+    if (!question.trim()) return [];
+    const docs = await this.store.listDocuments(sessionId);
+    const embedder = this.embedder();
+    // Files embedded with another model are skipped until they are added again
+    const usable = new Map(docs.filter(d => d.embeddingModel === embedder.model).map(d => [d.id, d]));
+    if (usable.size === 0) return [];
+
+    let chunks = this.cache.get(sessionId);
+    if (!chunks) {
+      chunks = await this.store.loadChunks(sessionId);
+      this.cache.clear();
+      this.cache.set(sessionId, chunks);
+    }
+    const [query] = await embedder.embed([question], 'query');
+    return topChunks(query, chunks.filter(c => usable.has(c.documentId)), k).map((chunk, i) => ({
+      index: i + 1,
+      documentId: chunk.documentId,
+      fileName: usable.get(chunk.documentId)!.fileName,
+      page: chunk.page,
+      text: chunk.text
+    }));
+  }
+}
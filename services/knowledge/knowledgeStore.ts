@@ -0,0 +1,62 @@
+// A file added to a session's knowledge base; its text lives in chunks
+export interface KnowledgeDocument {
+  id: string;
+  sessionId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  pageCount?: number;
+  chunkCount: number;
+  // Vectors from different embedding models cannot be compared
+  embeddingModel: string;
+  addedAt: number;
+}
+
+export interface KnowledgeChunk {
+  id: string;
+  documentId: string;
+  sessionId: string;
+  index: number;
+  // 1-based PDF page; absent for plain text files
+  page?: number;
+  text: string;
+  vector: number[];
+}
+
+export interface KnowledgeStore {
+  listDocuments(sessionId: string): Promise<KnowledgeDocument[]>;
+  loadChunks(sessionId: string): Promise<KnowledgeChunk[]>;
+  addDocument(doc: KnowledgeDocument, chunks: KnowledgeChunk[]): Promise<void>;
+  deleteDocument(id: string): Promise<void>;
+  deleteSession(sessionId: string): Promise<void>;
+}
+
+/**
+ * Non-persistent store used in tests and as a fallback when IndexedDB is unavailable.
+ */
+export class MemoryKnowledgeStore implements KnowledgeStore {
+  private documents = new Map<string, KnowledgeDocument>();
+  private chunks = new Map<string, KnowledgeChunk[]>();
+
+  async listDocuments(sessionId: string): Promise<KnowledgeDocument[]> {
+    return [...this.documents.values()].filter(d => d.sessionId === sessionId).sort((a, b) => a.addedAt - b.addedAt);
+  }
+
+  async loadChunks(sessionId: string): Promise<KnowledgeChunk[]> {
+    return [...this.chunks.values()].flat().filter(c => c.sessionId === sessionId);
+  }
+
+  async addDocument(doc: KnowledgeDocument, chunks: KnowledgeChunk[]): Promise<void> {
+    this.documents.set(doc.id, { ...doc });
+    this.chunks.set(doc.id, chunks.map(c => ({ ...c })));
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    this.documents.delete(id);
+    this.chunks.delete(id);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    for (const doc of await this.listDocuments(sessionId)) await this.deleteDocument(doc.id);
+  }
+}
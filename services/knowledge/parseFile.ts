@@ -0,0 +1,51 @@
+import { PageText } from './chunker';
+
+export const KNOWLEDGE_ACCEPT = '.pdf,.txt,.md,.markdown,.csv,.json,application/pdf,text/plain,text/markdown,text/csv,application/json';
+export const MAX_KNOWLEDGE_FILE_BYTES = 20 * 1024 * 1024;
+
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|csv|json)$/i;
+
+export const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+const isText = (file: File) => file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.test(file.name);
+
+// pdf.js is large, so it and its worker are only fetched when the first PDF is added
+async function loadPdfJs() {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+}
+
+async function extractPdf(file: File): Promise<PageText[]> {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: PageText[] = [];
+    for (let page = 1; page <= pdf.numPages; page++) {
+      const content = await (await pdf.getPage(page)).getTextContent();
+      const text = content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join('');
+      if (text.trim()) pages.push({ page, text });
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Reads the text of a PDF (per page) or a plain text file. Throws with a user-facing message
+ * for unsupported, oversized or empty files.
+ */
+export async function extractPages(file: File): Promise<PageText[]> {
+  if (!isPdf(file) && !isText(file)) throw new Error(`${file.name}: only PDF and text files can be added.`);
+  if (file.size > MAX_KNOWLEDGE_FILE_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_KNOWLEDGE_FILE_BYTES / 1024 / 1024} MB.`);
+  }
+  const pages = isPdf(file) ? await extractPdf(file) : [{ text: await file.text() }];
+  if (!pages.some(p => p.text.trim())) {
+    throw new Error(isPdf(file) ? `${file.name} has no selectable text (scanned PDFs are not supported).` : `${file.name} is empty.`);
+  }
+  return pages;
+}
@@ -0,0 +1,39 @@
+import { Citation } from '../../types';
+import { MAX_KNOWLEDGE_CHARS } from '../../constants';
+import { KnowledgeChunk } from './knowledgeStore';
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// The k chunks closest to the query, best first
+export function topChunks(query: number[], chunks: KnowledgeChunk[], k: number): KnowledgeChunk[] {
+  return chunks
+    .map(chunk => ({ chunk, score: cosineSimilarity(query, chunk.vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(hit => hit.chunk);
+}
+
+const source = (c: Citation) => c.page ? `${c.fileName}, page ${c.page}` : c.fileName;
+
+// Excerpts as the model sees them, numbered so the answer can cite them; stops before MAX_KNOWLEDGE_CHARS
+export function knowledgePrompt(citations: Citation[]): string {
+  let prompt = 'Excerpts from files the user added to this chat. Use them when they are relevant, cite each one you use inline as [n], and say so if they do not contain the answer.';
+  for (const c of citations) {
+    const block = `\n\n[${c.index}] ${source(c)}:\n"""\n${c.text}\n"""`;
+    if (prompt.length + block.length > MAX_KNOWLEDGE_CHARS) break;
+    prompt += block;
+  }
+  return prompt;
+}
+
+// Only the excerpts the answer refers to as [n]
+export const citedIn = (text: string, citations: Citation[]) =>
+  citations.filter(c => new RegExp(`\\[${c.index}\\]`).test(text));
@@ -0,0 +1,38 @@
+export interface AudioDevices {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+// Device labels stay empty until the page has been granted microphone access
+export async function listAudioDevices(): Promise<AudioDevices> {
+  if (!navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(d => d.kind === 'audioinput' && d.deviceId),
+    outputs: devices.filter(d => d.kind === 'audiooutput' && d.deviceId)
+  };
+}
+
+// Chromium only for now; elsewhere playback follows the system's default output
+export const canChooseOutput = () =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+export async function setOutputDevice(context: AudioContext, deviceId: string): Promise<void> {
+  if (!canChooseOutput()) return;
+  await (context as any).setSinkId(deviceId === 'default' ? '' : deviceId);
+}
+
+// Echo cancellation matters here: without it, WASO's own voice would trigger barge-in
+export async function openMicrophone(deviceId?: string): Promise<MediaStream> {
+  const audio: MediaTrackConstraints = { echoCancellation: true, noiseSuppression: true, autoGainControl: true };
+  if (deviceId && deviceId !== 'default') audio.deviceId = { exact: deviceId };
+  return navigator.mediaDevices.getUserMedia({ audio }).catch(err => {
+    if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
+      throw new Error("Microphone access denied. Please enable permissions in your browser and reload.");
+    }
+    if (err.name === 'OverconstrainedError' || err.name === 'NotFoundError') {
+      throw new Error("The selected microphone is not available. Pick another one.");
+    }
+    throw new Error("Unable to access microphone. Please check your hardware.");
+  });
+}
@@ -0,0 +1,45 @@
+export const CAPTURE_PROCESSOR = 'waso-pcm-capture';
+
+// Runs on the audio thread: collects the 128-sample render quanta of the first input channel
+// into frames of `frameSize` samples and posts them to the main thread
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.frame = new Float32Array(options.processorOptions.frameSize);
+    this.filled = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.frame.length - this.filled);
+      this.frame.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.frame.length) {
+        this.port.postMessage(this.frame, [this.frame.buffer]);
+        this.frame = new Float32Array(this.frame.length);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${CAPTURE_PROCESSOR}', PcmCaptureProcessor);
+`;
+
+const loaded = new WeakSet<BaseAudioContext>();
+
+// Worklet modules need a URL; a Blob keeps the processor next to the code that uses it
+export async function loadCaptureWorklet(context: BaseAudioContext): Promise<void> {
+  if (loaded.has(context)) return;
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(url);
+    loaded.add(context);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { FrameCanvas, FrameEncoder, frameSize } from './frameEncoder';
+
+// Records draws and size changes; `format` is what toDataURL writes, like a browser without JPEG
+class FakeCanvas implements FrameCanvas {
+  private size = { width: 300, height: 150 };
+  resizes = 0;
+  draws: { width: number; height: number }[] = [];
+  requested: { type?: string; quality?: unknown }[] = [];
+
+  constructor(private format = 'image/jpeg', private data = 'ZnJhbWU=') {}
+
+  get width() { return this.size.width; }
+  set width(value: number) { this.size.width = value; this.resizes++; }
+  get height() { return this.size.height; }
+  set height(value: number) { this.size.height = value; this.resizes++; }
+
+  getContext() {
+    return { drawImage: (_image: unknown, _x: number, _y: number, width: number, height: number) => { this.draws.push({ width, height }); } } as any;
+  }
+
+  toDataURL(type?: string, quality?: unknown) {
+    this.requested.push({ type, quality });
+    return this.data ? `data:${this.format};base64,${this.data}` : 'data:,';
+  }
+}
+
+const image = {} as CanvasImageSource;
+
+describe('frameSize', () => {
+  it('fits the longer side into the limit and keeps the aspect ratio', () => {
+    expect(frameSize(1920, 1080, 1024)).toEqual({ width: 1024, height: 576 });
+    expect(frameSize(1080, 1920, 1024)).toEqual({ width: 576, height: 1024 });
+    expect(frameSize(4000, 3, 1024)).toEqual({ width: 1024, height: 1 });
+  });
+
+  it('never scales small frames up', () => {
+    expect(frameSize(640, 480, 1024)).toEqual({ width: 640, height: 480 });
+  });
+});
+
+describe('FrameEncoder', () => {
+  it('draws scaled frames and returns JPEG data with its mime type', () => {
+    const canvas = new FakeCanvas();
+    const frame = new FrameEncoder(canvas, { maxDimension: 1024, quality: 0.6 }).encode(image, 2048, 1536);
+    expect(frame).toEqual({ mimeType: 'image/jpeg', data: 'ZnJhbWU=' });
+    expect(canvas.draws).toEqual([{ width: 1024, height: 768 }]);
+    expect(canvas.requested).toEqual([{ type: 'image/jpeg', quality: 0.6 }]);
+  });
+
+  it('reuses the canvas and only resizes it when the frame size changes', () => {
+    const canvas = new FakeCanvas();
+    const encoder = new FrameEncoder(canvas, { maxDimension: 1024 });
+    encoder.encode(image, 1280, 720);
+    const resizes = canvas.resizes;
+    encoder.encode(image, 1280, 720);
+    encoder.encode(image, 1280, 720);
+    expect(canvas.resizes).toBe(resizes);
+    expect(canvas.draws).toHaveLength(3);
+
+    encoder.encode(image, 640, 480);
+    expect(canvas.resizes).toBe(resizes + 2);
+    expect([canvas.width, canvas.height]).toEqual([640, 480]);
+  });
+
+  it('reports PNG when the browser cannot write JPEG', () => {
+    const frame = new FrameEncoder(new FakeCanvas('image/png')).encode(image, 640, 480);
+    expect(frame).toEqual({ mimeType: 'image/png', data: 'ZnJhbWU=' });
+  });
+
+  it('returns null without a picture', () => {
+    const canvas = new FakeCanvas();
+    expect(new FrameEncoder(canvas).encode(image, 0, 0)).toBeNull();
+    expect(canvas.draws).toEqual([]);
+    // A canvas with no pixels serializes to an empty data URL
+    expect(new FrameEncoder(new FakeCanvas('image/png', '')).encode(image, 640, 480)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { LIVE_FRAME_MAX_DIMENSION, LIVE_FRAME_QUALITY } from '../../constants';
+
+// The parts of a canvas the encoder uses, so it can run against a fake one
+export type FrameCanvas = Pick<HTMLCanvasElement, 'width' | 'height' | 'toDataURL'> & {
+  getContext(contextId: '2d'): Pick<CanvasRenderingContext2D, 'drawImage'> | null;
+};
+
+export interface EncodedFrame {
+  data: string;
+  mimeType: string;
+}
+
+export interface FrameEncoderOptions {
+  maxDimension?: number;
+  quality?: number;
+}
+
+// Scales down to fit `maxDimension` on the longer side, keeping the aspect ratio
+export function frameSize(width: number, height: number, maxDimension = LIVE_FRAME_MAX_DIMENSION) {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * Turns video frames into base64 JPEGs for `sendRealtimeInput`. One canvas is reused for every
+ * frame. Browsers that cannot write JPEG fall back to PNG, and the mime type says so.
+ */
+export class FrameEncoder {
+  private readonly maxDimension: number;
+  private readonly quality: number;
+
+  constructor(private readonly canvas: FrameCanvas = document.createElement('canvas'), options: FrameEncoderOptions = {}) {
+    this.maxDimension = options.maxDimension ?? LIVE_FRAME_MAX_DIMENSION;
+    this.quality = options.quality ?? LIVE_FRAME_QUALITY;
+  }
+
+  // Null while the source has no picture yet (a video before its first frame)
+  encode(image: CanvasImageSource, width: number, height: number): EncodedFrame | null {
+    if (!width || !height) return null;
+    const size = frameSize(width, height, this.maxDimension);
+    if (this.canvas.width !== size.width) this.canvas.width = size.width;
+    if (this.canvas.height !== size.height) this.canvas.height = size.height;
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(image, 0, 0, size.width, size.height);
+
+    const url = this.canvas.toDataURL('image/jpeg', this.quality);
+    const match = /^data:([^;,]+);base64,(.*)$/.exec(url);
+    return match && match[2] ? { mimeType: match[1], data: match[2] } : null;
+  }
+}
@@ -0,0 +1,13 @@
+export { canChooseOutput, listAudioDevices, openMicrophone, setOutputDevice } from './audioDevices';
+export type { AudioDevices } from './audioDevices';
+export { FrameEncoder, frameSize } from './frameEncoder';
+export type { EncodedFrame, FrameCanvas, FrameEncoderOptions } from './frameEncoder';
+export { addLiveUsage, emptyLiveUsage, estimateLiveCost } from './liveUsage';
+export type { LiveUsage } from './liveUsage';
+export { LIVE_INPUT_SAMPLE_RATE, MicCapture } from './micCapture';
+export type { MicCaptureHandlers } from './micCapture';
+export { floatTo16BitPcm, Resampler } from './resampler';
+export { levelDb, VoiceActivityDetector } from './voiceActivity';
+export type { VoiceActivityEvent, VoiceActivityOptions } from './voiceActivity';
+export { canShareScreen, openVideoSource, VideoCapture } from './videoCapture';
+export type { VideoCaptureHandlers, VideoSourceKind } from './videoCapture';
@@ -0,0 +1,40 @@
+import { MediaModality, ModalityTokenCount, UsageMetadata } from '@google/genai';
+import { LIVE_PRICING } from '../../constants';
+
+// Tokens used by one Live call, split the way they are priced
+export interface LiveUsage {
+  inputText: number;
+  inputMedia: number;
+  outputText: number;
+  outputAudio: number;
+}
+
+export const emptyLiveUsage = (): LiveUsage => ({ inputText: 0, inputMedia: 0, outputText: 0, outputAudio: 0 });
+
+const split = (details: ModalityTokenCount[] | undefined, total: number | undefined, fallback: 'text' | 'media') => {
+  if (!details?.length) return fallback === 'text' ? { text: total || 0, media: 0 } : { text: 0, media: total || 0 };
+  let text = 0;
+  let media = 0;
+  for (const detail of details) {
+    if (detail.modality === MediaModality.TEXT) text += detail.tokenCount || 0;
+    else media += detail.tokenCount || 0;
+  }
+  return { text, media };
+};
+
+// Adds the usage the server reported for one turn. Without a per-modality breakdown, input
+// counts as text and output as audio, the way a voice call mostly goes.
+export function addLiveUsage(usage: LiveUsage, metadata: UsageMetadata): LiveUsage {
+  const input = split(metadata.promptTokensDetails, metadata.promptTokenCount, 'text');
+  const output = split(metadata.responseTokensDetails, metadata.responseTokenCount, 'media');
+  return {
+    inputText: usage.inputText + input.text,
+    inputMedia: usage.inputMedia + input.media,
+    outputText: usage.outputText + output.text,
+    outputAudio: usage.outputAudio + output.media
+  };
+}
+
+// Approximate cost in USD; the bill may differ
+export const estimateLiveCost = (usage: LiveUsage) =>
+  (Object.keys(LIVE_PRICING) as (keyof LiveUsage)[]).reduce((sum, key) => sum + usage[key] * LIVE_PRICING[key], 0) / 1_000_000;
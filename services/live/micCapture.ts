@@ -0,0 +1,122 @@
+import { CAPTURE_PROCESSOR, loadCaptureWorklet } from './captureWorklet';
+import { floatTo16BitPcm, Resampler } from './resampler';
+import { VoiceActivityDetector, VoiceActivityOptions } from './voiceActivity';
+
+// The Live API takes 16 kHz mono PCM
+export const LIVE_INPUT_SAMPLE_RATE = 16000;
+const FRAME_MS = 20;
+// Audio kept from just before speech was detected, so the first syllable is not cut off
+const PRE_ROLL_MS = 300;
+
+export interface MicCaptureHandlers {
+  // 16 kHz PCM of an utterance, in order; only sent between onSpeechStart and onSpeechEnd
+  onAudio: (pcm: Int16Array) => void;
+  onSpeechStart: () => void;
+  onSpeechEnd: () => void;
+}
+
+/**
+ * Microphone capture for Live calls. An AudioWorklet taps the device at its native rate, the
+ * frames are resampled to 16 kHz and voice activity detection decides what gets uploaded.
+ * Takes ownership of `stream`: stop() ends its tracks.
+ */
+export class MicCapture {
+  private preRoll: Int16Array[] = [];
+  private readonly preRollFrames = Math.ceil(PRE_ROLL_MS / FRAME_MS);
+  private isMuted = false;
+
+  private constructor(
+    readonly context: AudioContext,
+    readonly source: MediaStreamAudioSourceNode,
+    // Taps the raw microphone signal for level meters
+    readonly analyser: AnalyserNode,
+    private readonly node: AudioWorkletNode,
+    private readonly stream: MediaStream,
+    private readonly resampler: Resampler,
+    private readonly vad: VoiceActivityDetector,
+    private readonly handlers: MicCaptureHandlers
+  ) {
+    node.port.onmessage = (event: MessageEvent<Float32Array>) => this.handleFrame(event.data);
+  }
+
+  static async start(stream: MediaStream, handlers: MicCaptureHandlers, vadOptions?: VoiceActivityOptions): Promise<MicCapture> {
+    // The device's own rate: forcing 16 kHz here makes some browsers resample badly or refuse
+    const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    try {
+      if (context.state === 'suspended') await context.resume();
+      await loadCaptureWorklet(context);
+      const source = context.createMediaStreamSource(stream);
+      const node = new AudioWorkletNode(context, CAPTURE_PROCESSOR, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        processorOptions: { frameSize: Math.round(context.sampleRate * FRAME_MS / 1000) }
+      });
+      source.connect(node);
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 1024;
+      source.connect(analyser);
+      return new MicCapture(
+        context, source, analyser, node, stream,
+        new Resampler(context.sampleRate, LIVE_INPUT_SAMPLE_RATE),
+        new VoiceActivityDetector(LIVE_INPUT_SAMPLE_RATE, vadOptions),
+        handlers
+      );
+    } catch (error) {
+      context.close().catch(() => {});
+      throw error;
+    }
+  }
+
+  get speaking() {
+    return this.vad.speaking;
+  }
+
+  get muted() {
+    return this.isMuted;
+  }
+
+  // Muting silences the tracks and closes an utterance in progress
+  set muted(value: boolean) {
+    this.isMuted = value;
+    this.stream.getAudioTracks().forEach(track => { track.enabled = !value; });
+    if (!value) return;
+    this.preRoll = [];
+    if (this.vad.speaking) {
+      this.vad.reset();
+      this.handlers.onSpeechEnd();
+    }
+  }
+
+  private handleFrame(frame: Float32Array) {
+    if (this.isMuted) return;
+    const samples = this.resampler.process(frame);
+    if (samples.length === 0) return;
+    const pcm = floatTo16BitPcm(samples);
+    const event = this.vad.process(samples);
+
+    if (event === 'start') {
+      this.handlers.onSpeechStart();
+      this.preRoll.forEach(chunk => this.handlers.onAudio(chunk));
+      this.preRoll = [];
+    }
+    if (this.vad.speaking || event === 'end') {
+      this.handlers.onAudio(pcm);
+    } else {
+      this.preRoll.push(pcm);
+      if (this.preRoll.length > this.preRollFrames) this.preRoll.shift();
+    }
+    if (event === 'end') this.handlers.onSpeechEnd();
+  }
+
+  // Ends capture without further callbacks, even mid-utterance
+  stop() {
+    this.vad.reset();
+    this.node.port.onmessage = null;
+    this.source.disconnect();
+    this.analyser.disconnect();
+    this.node.disconnect();
+    this.stream.getTracks().forEach(track => track.stop());
+    this.context.close().catch(() => {});
+  }
+}
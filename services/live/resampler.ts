@@ -0,0 +1,78 @@
+const TAPS = 31;
+
+// Windowed-sinc low-pass (Blackman) with `cutoff` as a fraction of the input rate
+function lowPass(cutoff: number): Float32Array {
+  const taps = new Float32Array(TAPS);
+  const middle = (TAPS - 1) / 2;
+  let sum = 0;
+  for (let i = 0; i < TAPS; i++) {
+    const x = i - middle;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const window = 0.42 - 0.5 * Math.cos(2 * Math.PI * i / (TAPS - 1)) + 0.08 * Math.cos(4 * Math.PI * i / (TAPS - 1));
+    taps[i] = sinc * window;
+    sum += taps[i];
+  }
+  return taps.map(t => t / sum);
+}
+
+/**
+ * Streaming sample rate converter for mono audio. Input is low-pass filtered below the lower
+ * of the two Nyquist frequencies, then sampled by linear interpolation. State carries over
+ * between calls, so frames of any size can be fed in sequence without clicks at the seams.
+ */
+export class Resampler {
+  private readonly step: number;
+  private readonly taps: Float32Array | null;
+  // Raw input kept from the previous call for the filter
+  private history: Float32Array;
+  // Position of the next output sample in the current block; -1 refers to `previous`
+  private position = 0;
+  private previous = 0;
+
+  constructor(readonly inputRate: number, readonly outputRate: number) {
+    this.step = inputRate / outputRate;
+    this.taps = inputRate === outputRate ? null : lowPass(0.5 * Math.min(inputRate, outputRate) / inputRate * 0.9);
+    this.history = new Float32Array(TAPS - 1);
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (!this.taps) return input.slice();
+    const filtered = this.filter(input);
+    const output: number[] = [];
+    const sample = (i: number) => i < 0 ? this.previous : filtered[i];
+    while (this.position + 1 <= filtered.length - 1) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      output.push(sample(index) * (1 - fraction) + sample(index + 1) * fraction);
+      this.position += this.step;
+    }
+    this.position -= filtered.length;
+    if (filtered.length > 0) this.previous = filtered[filtered.length - 1];
+    return Float32Array.from(output);
+  }
+
+  private filter(input: Float32Array): Float32Array {
+    const taps = this.taps!;
+    const joined = new Float32Array(this.history.length + input.length);
+    joined.set(this.history);
+    joined.set(input, this.history.length);
+    const out = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      let acc = 0;
+      for (let k = 0; k < taps.length; k++) acc += taps[k] * joined[i + k];
+      out[i] = acc;
+    }
+    this.history = joined.slice(joined.length - (TAPS - 1));
+    return out;
+  }
+}
+
+// 16-bit little-endian PCM, as the Live API expects; samples outside [-1, 1] are clipped
+export function floatTo16BitPcm(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+}
@@ -0,0 +1,79 @@
+import { DEFAULT_LIVE_FRAME_RATE } from '../../constants';
+import { EncodedFrame, FrameEncoder } from './frameEncoder';
+
+export type VideoSourceKind = 'camera' | 'screen';
+
+export interface VideoCaptureHandlers {
+  onFrame: (frame: EncodedFrame) => void;
+  // The source stopped on its own, e.g. through the browser's "Stop sharing" button
+  onEnded: () => void;
+}
+
+export const canShareScreen = () => !!navigator.mediaDevices?.getDisplayMedia;
+
+export async function openVideoSource(kind: VideoSourceKind): Promise<MediaStream> {
+  try {
+    if (kind === 'screen') return await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+    return await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } } });
+  } catch (err: any) {
+    if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
+      throw new Error(kind === 'screen' ? "Screen sharing was cancelled or blocked." : "Camera access denied. Please enable permissions in your browser.");
+    }
+    throw new Error(kind === 'screen' ? "Unable to share the screen." : "Unable to access the camera. Please check your hardware.");
+  }
+}
+
+/**
+ * Samples a camera or screen stream at a fixed rate and hands each frame over as a JPEG.
+ * Takes ownership of `stream`: stop() ends its tracks.
+ */
+export class VideoCapture {
+  private readonly video = document.createElement('video');
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private rate: number;
+
+  constructor(
+    readonly stream: MediaStream,
+    private readonly handlers: VideoCaptureHandlers,
+    frameRate = DEFAULT_LIVE_FRAME_RATE,
+    private readonly encoder = new FrameEncoder()
+  ) {
+    this.rate = frameRate;
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.video.srcObject = stream;
+    this.video.play().catch(() => {});
+    stream.getVideoTracks().forEach(track => track.addEventListener('ended', () => {
+      this.stop();
+      handlers.onEnded();
+    }, { once: true }));
+    this.schedule();
+  }
+
+  get frameRate() {
+    return this.rate;
+  }
+
+  set frameRate(value: number) {
+    this.rate = value;
+    if (this.timer !== undefined) this.schedule();
+  }
+
+  private schedule() {
+    clearInterval(this.timer);
+    this.timer = setInterval(() => this.sample(), 1000 / this.rate);
+  }
+
+  private sample() {
+    if (this.video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+    const frame = this.encoder.encode(this.video, this.video.videoWidth, this.video.videoHeight);
+    if (frame) this.handlers.onFrame(frame);
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.stream.getTracks().forEach(track => track.stop());
+    this.video.srcObject = null;
+  }
+}
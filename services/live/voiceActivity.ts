@@ -0,0 +1,76 @@
+export interface VoiceActivityOptions {
+  // How far above the tracked noise floor speech has to be
+  marginDb?: number;
+  // Quieter frames never count as speech, however low the noise floor gets
+  minSpeechDb?: number;
+  // Speech must last this long to start an utterance, so clicks and bumps are ignored
+  startMs?: number;
+  // Silence that ends an utterance; short pauses between words stay inside it
+  hangoverMs?: number;
+}
+
+export type VoiceActivityEvent = 'start' | 'end' | null;
+
+// Root mean square level of a frame in dBFS
+export function levelDb(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return frame.length === 0 ? -100 : 10 * Math.log10(sum / frame.length + 1e-10);
+}
+
+/**
+ * Energy-based voice activity detector with an adaptive noise floor. Feed it consecutive
+ * frames; it reports 'start' when an utterance begins and 'end' after it falls silent.
+ */
+export class VoiceActivityDetector {
+  private readonly options: Required<VoiceActivityOptions>;
+  private noiseFloor = -60;
+  private speechMs = 0;
+  private silenceMs = 0;
+  private active = false;
+
+  constructor(private sampleRate: number, options: VoiceActivityOptions = {}) {
+    this.options = { marginDb: 12, minSpeechDb: -50, startMs: 60, hangoverMs: 700, ...options };
+  }
+
+  get speaking() {
+    return this.active;
+  }
+
+  process(frame: Float32Array): VoiceActivityEvent {
+    const db = levelDb(frame);
+    const frameMs = frame.length / this.sampleRate * 1000;
+    const isSpeech = db > Math.max(this.noiseFloor + this.options.marginDb, this.options.minSpeechDb);
+
+    // The floor drops quickly to quiet frames and rises slowly, and never learns from speech
+    if (!isSpeech) {
+      const rate = db < this.noiseFloor ? 0.3 : 0.02;
+      this.noiseFloor = Math.min(-30, Math.max(-90, this.noiseFloor + (db - this.noiseFloor) * rate));
+    }
+
+    if (isSpeech) {
+      this.speechMs += frameMs;
+      this.silenceMs = 0;
+    } else {
+      this.silenceMs += frameMs;
+      if (!this.active) this.speechMs = 0;
+    }
+
+    if (!this.active && this.speechMs >= this.options.startMs) {
+      this.active = true;
+      return 'start';
+    }
+    if (this.active && this.silenceMs >= this.options.hangoverMs) {
+      this.active = false;
+      this.speechMs = 0;
+      return 'end';
+    }
+    return null;
+  }
+
+  reset() {
+    this.active = false;
+    this.speechMs = 0;
+    this.silenceMs = 0;
+  }
+}
@@ -0,0 +1,49 @@
+import { GoogleGenAI } from '@google/genai';
+import { authHeaders } from './auth';
+
+// /api/live-token refused a token; quota and auth refusals are not worth retrying
+export class LiveTokenError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'LiveTokenError';
+  }
+}
+
+export interface LiveClient {
+  ai: GoogleGenAI;
+  model: string;
+}
+
+/**
+ * AI Studio's key picker (window.aistudio) puts a raw key in the page, so it is only
+ * used when explicitly enabled for local development with VITE_LIVE_DEV_MODE=aistudio.
+ */
+export const isAiStudioDevMode = () =>
+  import.meta.env.VITE_LIVE_DEV_MODE === 'aistudio' && !!(window as any).aistudio;
+
+export async function needsAiStudioKey(): Promise<boolean> {
+  if (!isAiStudioDevMode()) return false;
+  const hasKey = await (window as any).aistudio.hasSelectedApiKey();
+  return !hasKey && !process.env.API_KEY;
+}
+
+/**
+ * Creates a Live API client. In production the server issues a single-use ephemeral
+ * token from /api/live-token; the real API key never reaches the browser.
+ */
+export async function createLiveClient(fallbackModel: string): Promise<LiveClient> {
+  if (isAiStudioDevMode()) {
+    return { ai: new GoogleGenAI({ apiKey: process.env.API_KEY }), model: fallbackModel };
+  }
+
+  const response = await fetch('/api/live-token', { method: 'POST', headers: await authHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.token) {
+    throw new LiveTokenError(data.error || 'Unable to start a secure voice session.', response.ok || response.status >= 500 || data.retryable === true);
+  }
+  // Ephemeral tokens are only accepted by the v1alpha Live endpoint
+  return {
+    ai: new GoogleGenAI({ apiKey: data.token, httpOptions: { apiVersion: 'v1alpha' } }),
+    model: data.model || fallbackModel
+  };
+}
@@ -0,0 +1,72 @@
+const CODE_FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const MATH_FENCE = /^ {0,3}\$\$/;
+
+// Gemini often writes LaTeX with \( \) and \[ \]; remark-math only understands dollar delimiters
+function normalizeMathLine(line: string): string {
+  const trimmed = line.trim();
+  if (trimmed === '\\[' || trimmed === '\\]') return '$$';
+  return line
+    .replace(/\\\[(.+?)\\\]/g, (_, tex) => `$$${tex}$$`)
+    .replace(/\\\((.+?)\\\)/g, (_, tex) => `$${tex}$`);
+}
+
+const isClosingFence = (line: string, fence: string) => {
+  const trimmed = line.trim();
+  return trimmed[0] === fence[0] && trimmed.length >= fence.length && /^(`+|~+)$/.test(trimmed);
+};
+
+/**
+ * Splits markdown into top-level blocks separated by blank lines, never splitting inside
+ * fenced code or $$ math. Completed blocks keep the same text as more tokens stream in,
+ * so the renderer can memoise them and only re-parse the last one. An unterminated code
+ * fence or math block at the end is closed so partial replies still render correctly.
+ */
+export function splitMarkdownBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+  let inMath = false;
+  let afterBlank = false;
+
+  const flush = () => {
+    if (current.some(line => line.trim())) blocks.push(current.join('\n'));
+    current = [];
+  };
+
+  for (const raw of text.split('\n')) {
+    if (fence) {
+      current.push(raw);
+      if (isClosingFence(raw, fence)) fence = null;
+      continue;
+    }
+
+    const line = normalizeMathLine(raw);
+    if (inMath) {
+      current.push(line);
+      if (line.includes('$$')) inMath = false;
+      continue;
+    }
+
+    if (!line.trim()) {
+      afterBlank = true;
+      current.push(line);
+      continue;
+    }
+    // Indented lines after a blank continue the previous list item instead of starting a block
+    if (afterBlank && !/^[ \t]/.test(line)) flush();
+    afterBlank = false;
+    current.push(line);
+
+    const open = line.match(CODE_FENCE);
+    if (open) {
+      fence = open[1];
+    } else if (MATH_FENCE.test(line) && !line.trim().slice(2).includes('$$')) {
+      inMath = true;
+    }
+  }
+
+  if (fence) current.push(fence);
+  if (inMath) current.push('$$');
+  flush();
+  return blocks;
+}
@@ -0,0 +1,80 @@
+import { ChatSession, Message, MessageNode } from '../types';
+
+type Tree = Pick<ChatSession, 'nodes' | 'activeLeafId'>;
+
+export const createMessageId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Converts a pre-branching flat message list into a single-branch tree. Ids are derived
+ * from role and timestamp so every device migrating the same session gets the same ids.
+ */
+export function treeFromMessages<T extends Omit<Message, 'attachments'>>(messages: T[]) {
+  const nodes: (T & { id: string; parentId: string | null })[] = [];
+  const seen = new Set<string>();
+  let parentId: string | null = null;
+  for (const msg of messages) {
+    let id = msg.id || `${msg.role}:${msg.timestamp}`;
+    while (seen.has(id)) id += "'";
+    seen.add(id);
+    nodes.push({ ...msg, id, parentId });
+    parentId = id;
+  }
+  return { nodes, activeLeafId: parentId as string | null };
+}
+
+// Accepts sessions stored before branching existed (flat `messages`) as well as current ones
+export function upgradeSession(session: any): ChatSession {
+  if (Array.isArray(session.nodes)) return session;
+  const { messages, ...rest } = session;
+  return { ...rest, ...treeFromMessages(Array.isArray(messages) ? messages : []) };
+}
+
+// Root-to-leaf messages of the branch currently shown
+export function activePath({ nodes, activeLeafId }: Tree): MessageNode[] {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  let node = (activeLeafId && byId.get(activeLeafId)) || nodes[nodes.length - 1];
+  const path: MessageNode[] = [];
+  while (node && path.length < nodes.length) {
+    path.push(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+// Ids of every version of a message (including itself), oldest first
+export const siblingIds = (nodes: MessageNode[], node: MessageNode) =>
+  nodes.filter(n => n.parentId === node.parentId).map(n => n.id);
+
+// Follows the most recently created child down to a leaf
+export function latestLeaf(nodes: MessageNode[], id: string): string {
+  let current = id;
+  for (let depth = 0; depth < nodes.length; depth++) {
+    const children = nodes.filter(n => n.parentId === current);
+    if (children.length === 0) break;
+    current = children[children.length - 1].id;
+  }
+  return current;
+}
+
+/**
+ * Makes `path` the active branch. Messages whose id is already in the tree are updated in
+ * place; new ones are added under the previous message, so a changed path forks a new
+ * branch instead of discarding what came after.
+ */
+export function applyPath(tree: Tree, path: Message[]): Tree {
+  const index = new Map(tree.nodes.map((n, i) => [n.id, i]));
+  const nodes = [...tree.nodes];
+  let parentId: string | null = null;
+  for (const msg of path) {
+    const id = msg.id || createMessageId();
+    const existing = index.get(id);
+    if (existing !== undefined) {
+      nodes[existing] = { ...msg, id, parentId: nodes[existing].parentId };
+    } else {
+      index.set(id, nodes.length);
+      nodes.push({ ...msg, id, parentId });
+    }
+    parentId = id;
+  }
+  return { nodes, activeLeafId: parentId };
+}
@@ -0,0 +1,4 @@
+export {
+  BUILT_IN_PERSONAS, DEFAULT_PERSONA, DEFAULT_PERSONA_ID, PERSONA_LANGUAGES, createPersonaId, personaInstruction, validatePersona
+} from './presets';
+export { PersonaStore } from './personaStore';
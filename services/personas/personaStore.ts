@@ -0,0 +1,55 @@
+import { Persona } from '../../types';
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA, validatePersona } from './presets';
+
+const PERSONAS_KEY = 'waso_personas';
+const SELECTED_KEY = 'waso_selected_persona';
+
+/**
+ * Custom personas are kept in the given Storage (localStorage by default) next to the
+ * built-in ones. They stay on this device; synced sessions that reference a persona
+ * missing here fall back to the default.
+ */
+export class PersonaStore {
+  constructor(private storage: Storage = localStorage) {}
+
+  private custom(): Persona[] {
+    try {
+      const saved = JSON.parse(this.storage.getItem(PERSONAS_KEY) || '[]');
+      // Entries edited by hand or written by an older version are dropped rather than crashing the app
+      return Array.isArray(saved) ? saved.filter(p => p && typeof p.id === 'string' && validatePersona(p) === null) : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  list(): Persona[] {
+    return [...BUILT_IN_PERSONAS, ...this.custom()];
+  }
+
+  get(id: string | undefined): Persona {
+    return this.list().find(p => p.id === id) || DEFAULT_PERSONA;
+  }
+
+  save(persona: Persona) {
+    if (BUILT_IN_PERSONAS.some(p => p.id === persona.id)) throw new Error('Built-in personas cannot be changed.');
+    const error = validatePersona(persona);
+    if (error) throw new Error(error);
+    const { builtIn, ...stored } = persona;
+    const others = this.custom().filter(p => p.id !== persona.id);
+    this.storage.setItem(PERSONAS_KEY, JSON.stringify([...others, stored]));
+  }
+
+  delete(id: string) {
+    this.storage.setItem(PERSONAS_KEY, JSON.stringify(this.custom().filter(p => p.id !== id)));
+    if (this.selectedId() === id) this.storage.removeItem(SELECTED_KEY);
+  }
+
+  // Persona used for new chats and Live calls
+  selectedId(): string {
+    return this.get(this.storage.getItem(SELECTED_KEY) || undefined).id;
+  }
+
+  select(id: string) {
+    this.storage.setItem(SELECTED_KEY, id);
+  }
+}
@@ -0,0 +1,89 @@
+import { Persona, PersonaLanguage } from '../../types';
+import { DEFAULT_VOICE, MAX_SYSTEM_INSTRUCTION_CHARS, PERSONA_VOICES, SPEECH_RATES, WARVI_INITIAL_GREETING, WARVI_SYSTEM_PROMPT } from '../../constants';
+
+export const DEFAULT_PERSONA_ID = 'waso';
+
+export const PERSONA_LANGUAGES: { value: PersonaLanguage; label: string }[] = [
+  { value: 'auto', label: 'Match user' },
+  { value: 'en', label: 'English' },
+  { value: 'bn', label: 'Bangla' }
+];
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: DEFAULT_PERSONA_ID,
+    name: 'WASO',
+    systemInstruction: WARVI_SYSTEM_PROMPT,
+    voice: DEFAULT_VOICE,
+    language: 'auto',
+    greeting: WARVI_INITIAL_GREETING,
+    builtIn: true
+  },
+  {
+    id: 'code-reviewer',
+    name: 'Code Reviewer',
+    systemInstruction: `You are a senior software engineer reviewing code for a teammate.
+Point out bugs, security issues, unclear naming and missing tests, most important first.
+Quote the lines you mean, explain why they are a problem and show a corrected version.
+Say plainly when code is fine; do not invent problems.`,
+    voice: 'Charon',
+    language: 'en',
+    greeting: 'Paste a diff, a file or a snippet and tell me what it should do. I will review it.',
+    builtIn: true
+  },
+  {
+    id: 'bangla-tutor',
+    name: 'Bangla Tutor',
+    systemInstruction: `You are a patient Bangla language tutor.
+Teach vocabulary, grammar and pronunciation with short examples written in Bangla script, followed by a romanization and an English gloss.
+Correct the learner's mistakes gently and explain each correction.
+Adapt to the learner's level and end with a short exercise when it helps.`,
+    voice: 'Kore',
+    language: 'bn',
+    greeting: 'নমস্কার! আমি আপনার বাংলা শিক্ষক। আজ কী শিখতে চান?',
+    builtIn: true
+  },
+  {
+    id: 'formal-translator',
+    name: 'Formal Translator',
+    systemInstruction: `You are a professional translator between English and Bangla.
+Translate the user's text into the other language in a formal register, keeping names, numbers and formatting intact.
+Reply with the translation only. Add a short note after it only when a term has no exact equivalent.`,
+    voice: 'Orus',
+    language: 'auto',
+    greeting: 'Send me English or Bangla text and I will return a formal translation.',
+    builtIn: true
+  }
+];
+
+export const DEFAULT_PERSONA = BUILT_IN_PERSONAS[0];
+
+const LANGUAGE_RULES: Record<PersonaLanguage, string> = {
+  auto: '',
+  en: 'Always reply in English, even when the user writes in another language.',
+  bn: 'Always reply in Bangla (বাংলা), even when the user writes in another language.'
+};
+
+// System instruction sent to Gemini, including the persona's language preference
+export function personaInstruction(persona: Persona): string {
+  const rule = LANGUAGE_RULES[persona.language];
+  return rule ? `${persona.systemInstruction.trim()}\n\n${rule}` : persona.systemInstruction;
+}
+
+export const createPersonaId = () => `persona-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Returns an error message for an invalid persona, or null
+export function validatePersona(persona: Persona): string | null {
+  if (!persona.name.trim()) return 'Give the persona a name.';
+  if (persona.name.length > 60) return 'The name can be at most 60 characters.';
+  if (!persona.systemInstruction.trim()) return 'The system instruction cannot be empty.';
+  // Leaves room for the language rule appended by personaInstruction
+  if (persona.systemInstruction.length > MAX_SYSTEM_INSTRUCTION_CHARS - 200) {
+    return `The system instruction can be at most ${MAX_SYSTEM_INSTRUCTION_CHARS - 200} characters.`;
+  }
+  if (!PERSONA_VOICES.includes(persona.voice)) return 'Pick one of the available voices.';
+  if (persona.speechRate !== undefined && !SPEECH_RATES.includes(persona.speechRate)) return 'Pick one of the available speeds.';
+  if (!PERSONA_LANGUAGES.some(l => l.value === persona.language)) return 'Pick one of the available languages.';
+  if (!persona.greeting.trim()) return 'The greeting cannot be empty.';
+  return null;
+}
@@ -0,0 +1,38 @@
+import { RETRY_ATTEMPTS, RETRY_BASE_DELAY_MS } from '../constants';
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  // Decides whether a failed attempt is worth repeating
+  shouldRetry: (error: unknown) => boolean;
+  signal?: AbortSignal;
+}
+
+// Doubles per attempt, with jitter so clients that failed together do not retry together
+export const backoffDelay = (attempt: number, baseDelayMs = RETRY_BASE_DELAY_MS) =>
+  Math.round(baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() / 2));
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+/**
+ * Runs `task` until it succeeds, fails with an error `shouldRetry` rejects, or runs out of
+ * attempts. The last error is rethrown unchanged. Used by the browser client and the API.
+ */
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const attempts = options.attempts ?? RETRY_ATTEMPTS;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= attempts || options.signal?.aborted || !options.shouldRetry(error)) throw error;
+      await sleep(backoffDelay(attempt, options.baseDelayMs), options.signal);
+      if (options.signal?.aborted) throw error;
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { SessionStore } from '../storage';
+import { SearchIndex } from './searchIndex';
+
+export { SearchIndex } from './searchIndex';
+export type { SearchResult, SnippetPart } from './searchIndex';
+export { tokenize, normalizeTerm } from './tokenizer';
+
+// Initial build from everything already stored; later changes are applied per session
+export async function indexStoredSessions(index: SearchIndex, store: SessionStore) {
+  for (const summary of await store.listSessions()) {
+    const session = await store.loadSession(summary.id);
+    if (session) index.updateSession(session);
+  }
+}
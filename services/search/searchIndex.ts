@@ -0,0 +1,183 @@
+import { ChatSession, Message } from '../../types';
+import { messageText } from '../contextBuilder';
+import { tokenize } from './tokenizer';
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  sessionId: string;
+  messageId: string;
+  role: Message['role'];
+  timestamp: number;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+interface IndexedMessage {
+  sessionId: string;
+  messageId: string;
+  role: Message['role'];
+  timestamp: number;
+  text: string;
+  length: number;
+  terms: Map<string, number>;
+}
+
+const MAX_RESULTS = 50;
+const SNIPPET_CONTEXT = 60;
+const SNIPPET_LENGTH = 180;
+// Prefix hits also catch inflected forms (বাংলাদেশের for বাংলাদেশ, searching for search) but rank below exact hits
+const PREFIX_WEIGHT = 0.6;
+const MIN_PREFIX = 2;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const docKey = (sessionId: string, messageId: string) => `${sessionId}\u0000${messageId}`;
+
+const queryTerms = (query: string) => [...new Set(tokenize(query).map(t => t.term))];
+
+const matchWeight = (term: string, queryTerm: string) => {
+  if (term === queryTerm) return 1;
+  if (queryTerm.length >= MIN_PREFIX && term.startsWith(queryTerm)) return PREFIX_WEIGHT;
+  return 0;
+};
+
+function buildSnippet(text: string, terms: string[]): SnippetPart[] {
+  const hits = tokenize(text).filter(t => terms.some(q => matchWeight(t.term, q) > 0));
+  if (hits.length === 0) return [{ text: text.slice(0, SNIPPET_LENGTH), match: false }];
+
+  let start = Math.max(0, hits[0].start - SNIPPET_CONTEXT);
+  // Start on a word boundary so the snippet does not open with half a word
+  if (start > 0) {
+    const space = text.slice(start, hits[0].start).search(/\s/);
+    if (space >= 0) start += space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const parts: SnippetPart[] = [];
+  const push = (value: string, match: boolean) => {
+    if (value) parts.push({ text: value.replace(/\s+/g, ' '), match });
+  };
+  let cursor = start;
+  for (const hit of hits) {
+    if (hit.start < cursor || hit.end > end) continue;
+    push(text.slice(cursor, hit.start), false);
+    push(text.slice(hit.start, hit.end), true);
+    cursor = hit.end;
+  }
+  push(text.slice(cursor, end), false);
+  if (start > 0) parts.unshift({ text: '…', match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+}
+
+/**
+ * In-memory inverted index over the text of every message in every session, including
+ * messages on inactive branches. Sessions are re-indexed per message, so updating a
+ * session only touches the messages whose text changed.
+ */
+export class SearchIndex {
+  private docs = new Map<string, IndexedMessage>();
+  private postings = new Map<string, Set<string>>();
+  private sessions = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  get size() {
+    return this.docs.size;
+  }
+
+  updateSession(session: ChatSession) {
+    const previous = this.sessions.get(session.id) || new Set<string>();
+    const current = new Set<string>();
+    for (const node of session.nodes) {
+      const key = docKey(session.id, node.id);
+      const text = messageText(node);
+      current.add(key);
+      const existing = this.docs.get(key);
+      if (existing?.text === text) continue;
+      if (existing) this.removeDoc(key);
+      this.addDoc(key, { sessionId: session.id, messageId: node.id, role: node.role, timestamp: node.timestamp, text });
+    }
+    previous.forEach(key => {
+      if (!current.has(key)) this.removeDoc(key);
+    });
+    this.sessions.set(session.id, current);
+  }
+
+  removeSession(sessionId: string) {
+    this.sessions.get(sessionId)?.forEach(key => this.removeDoc(key));
+    this.sessions.delete(sessionId);
+  }
+
+  private addDoc(key: string, doc: Omit<IndexedMessage, 'length' | 'terms'>) {
+    const tokens = tokenize(doc.text);
+    const terms = new Map<string, number>();
+    tokens.forEach(t => terms.set(t.term, (terms.get(t.term) || 0) + 1));
+    this.docs.set(key, { ...doc, length: tokens.length, terms });
+    this.totalLength += tokens.length;
+    terms.forEach((_, term) => {
+      if (!this.postings.has(term)) this.postings.set(term, new Set());
+      this.postings.get(term)!.add(key);
+    });
+  }
+
+  private removeDoc(key: string) {
+    const doc = this.docs.get(key);
+    if (!doc) return;
+    doc.terms.forEach((_, term) => {
+      const keys = this.postings.get(term);
+      keys?.delete(key);
+      if (keys?.size === 0) this.postings.delete(term);
+    });
+    this.totalLength -= doc.length;
+    this.docs.delete(key);
+  }
+
+  // BM25 over exact and prefix term matches; every query word has to match
+  search(query: string, limit = MAX_RESULTS): SearchResult[] {
+    const terms = queryTerms(query);
+    if (terms.length === 0 || this.docs.size === 0) return [];
+    const avgLength = this.totalLength / this.docs.size || 1;
+
+    let scores: Map<string, number> | null = null;
+    for (const queryTerm of terms) {
+      const best = new Map<string, number>();
+      this.postings.forEach((keys, term) => {
+        const weight = matchWeight(term, queryTerm);
+        if (weight === 0) return;
+        const idf = Math.log(1 + (this.docs.size - keys.size + 0.5) / (keys.size + 0.5));
+        keys.forEach(key => {
+          const doc = this.docs.get(key)!;
+          const tf = doc.terms.get(term)!;
+          const score = weight * idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / avgLength));
+          best.set(key, Math.max(best.get(key) || 0, score));
+        });
+      });
+
+      const next = new Map<string, number>();
+      best.forEach((score, key) => {
+        if (!scores) next.set(key, score);
+        else if (scores.has(key)) next.set(key, scores.get(key)! + score);
+      });
+      scores = next;
+      if (scores.size === 0) return [];
+    }
+
+    return [...scores!.entries()]
+      .map(([key, score]) => ({ doc: this.docs.get(key)!, score }))
+      .sort((a, b) => b.score - a.score || b.doc.timestamp - a.doc.timestamp)
+      .slice(0, limit)
+      .map(({ doc, score }) => ({
+        sessionId: doc.sessionId,
+        messageId: doc.messageId,
+        role: doc.role,
+        timestamp: doc.timestamp,
+        score,
+        snippet: buildSnippet(doc.text, terms)
+      }));
+  }
+}
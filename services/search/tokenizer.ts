@@ -0,0 +1,23 @@
+// Letters, combining marks (Bangla vowel signs, virama, nukta) and digits form a word;
+// ZWJ/ZWNJ may appear inside Bangla conjuncts and must not split it
+const WORD = /[\p{L}\p{M}\p{N}\u200c\u200d]+/gu;
+
+export interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+// NFC folds alternative encodings (e.g. য় as one code point or য + nukta) to one form
+export const normalizeTerm = (word: string) =>
+  word.normalize('NFC').toLowerCase().replace(/[\u200c\u200d]/g, '');
+
+// Terms with their offsets in the original text, for highlighting
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(WORD)) {
+    const term = normalizeTerm(match[0]);
+    if (term) tokens.push({ term, start: match.index!, end: match.index! + match[0].length });
+  }
+  return tokens;
+}
@@ -0,0 +1,21 @@
+import { requestSpeech } from '../geminiClient';
+import { IndexedDbSpeechCache } from './indexedDbSpeechCache';
+import { MemorySpeechCache } from './speechCache';
+import { SpeechPlayer } from './speechPlayer';
+
+export type { SpeechCache, SpeechClip } from './speechCache';
+export type { PlaybackState, PlaybackStatus, SpeechRequest, Synthesize } from './speechPlayer';
+export type { SpeechChunkOptions } from './speechText';
+export { hashText, MemorySpeechCache, speechClipKey } from './speechCache';
+export { IndexedDbSpeechCache } from './indexedDbSpeechCache';
+export { SpeechPlayer } from './speechPlayer';
+export { speakableText, splitSpeech } from './speechText';
+export { base64ToBytes, bytesToBase64, pcmDuration, pcmToWav, SPEECH_SAMPLE_RATE } from './wav';
+
+export function createSpeechPlayer(): SpeechPlayer {
+  if (typeof indexedDB === 'undefined') {
+    console.warn('IndexedDB unavailable; read-aloud audio will not be kept.');
+    return new SpeechPlayer(requestSpeech, new MemorySpeechCache());
+  }
+  return new SpeechPlayer(requestSpeech, new IndexedDbSpeechCache());
+}
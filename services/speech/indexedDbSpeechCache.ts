@@ -0,0 +1,61 @@
+import { StorageQuotaError, isQuotaError } from '../storage/sessionStore';
+import { SpeechCache, SpeechClip } from './speechCache';
+
+// Kept apart from the session database; clearing it only costs new synthesis requests
+const DB_NAME = 'waso-speech';
+const DB_VERSION = 1;
+const CLIPS = 'clips'; // SpeechClip, keyed by key
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onabort = () => reject(tx.error);
+  tx.onerror = () => reject(tx.error);
+});
+
+export class IndexedDbSpeechCache implements SpeechCache {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          req.result.createObjectStore(CLIPS, { keyPath: 'key' }).createIndex('sessionId', 'sessionId');
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.db;
+  }
+
+  async get(key: string): Promise<SpeechClip | undefined> {
+    const db = await this.open();
+    return await request(db.transaction(CLIPS).objectStore(CLIPS).get(key)) as SpeechClip | undefined;
+  }
+
+  async put(clip: SpeechClip): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(CLIPS, 'readwrite');
+    tx.objectStore(CLIPS).put(clip);
+    try {
+      await transactionDone(tx);
+    } catch (error) {
+      if (isQuotaError(error)) throw new StorageQuotaError('Browser storage is full; the audio was not kept.');
+      throw error;
+    }
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(CLIPS, 'readwrite');
+    const keys = await request(tx.objectStore(CLIPS).index('sessionId').getAllKeys(IDBKeyRange.only(sessionId)));
+    keys.forEach(key => tx.objectStore(CLIPS).delete(key));
+    await transactionDone(tx);
+  }
+}
@@ -0,0 +1,51 @@
+// Synthesized speech for one message in one voice
+export interface SpeechClip {
+  key: string;
+  sessionId: string;
+  messageId: string;
+  voice: string;
+  // Detects a message whose text changed since it was spoken
+  textHash: string;
+  // Base64 PCM per chunk, in order
+  chunks: string[];
+  createdAt: number;
+}
+
+export interface SpeechCache {
+  get(key: string): Promise<SpeechClip | undefined>;
+  put(clip: SpeechClip): Promise<void>;
+  deleteSession(sessionId: string): Promise<void>;
+}
+
+export const speechClipKey = (messageId: string, voice: string) => `${messageId}:${voice}`;
+
+// FNV-1a; only has to tell texts of the same message apart
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Non-persistent cache used as a fallback when IndexedDB is unavailable.
+ */
+export class MemorySpeechCache implements SpeechCache {
+  private clips = new Map<string, SpeechClip>();
+
+  async get(key: string) {
+    return this.clips.get(key);
+  }
+
+  async put(clip: SpeechClip) {
+    this.clips.set(clip.key, clip);
+  }
+
+  async deleteSession(sessionId: string) {
+    for (const [key, clip] of this.clips) {
+      if (clip.sessionId === sessionId) this.clips.delete(key);
+    }
+  }
+}
@@ -0,0 +1,311 @@
+import { hashText, SpeechCache, speechClipKey } from './speechCache';
+import { speakableText, splitSpeech } from './speechText';
+import { base64ToBytes, bytesToBase64, pcmDuration, pcmToWav } from './wav';
+
+export type PlaybackState = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface PlaybackStatus {
+  messageId: string | null;
+  state: PlaybackState;
+  // Seconds into the message at normal speed
+  position: number;
+  // Seconds at normal speed; parts that are not synthesized yet are estimated
+  duration: number;
+  error?: string;
+}
+
+export interface SpeechRequest {
+  sessionId: string;
+  messageId: string;
+  text: string;
+  voice: string;
+  speed?: number;
+}
+
+// Returns base64 PCM for one chunk of text
+export type Synthesize = (text: string, voice: string) => Promise<string | undefined>;
+
+// Used for the duration estimate until a first chunk has been synthesized
+const SECONDS_PER_CHAR = 0.065;
+
+const IDLE: PlaybackStatus = { messageId: null, state: 'idle', position: 0, duration: 0 };
+
+// One message being spoken: its chunks and whatever audio exists for them so far
+interface Track {
+  request: SpeechRequest;
+  key: string;
+  textHash: string;
+  chunks: string[];
+  pcm: (Uint8Array | undefined)[];
+  pending: (Promise<Uint8Array> | undefined)[];
+  saved: boolean;
+}
+
+/**
+ * Reads messages aloud, one at a time. The text is split into sentence chunks that are
+ * synthesized just ahead of playback, so long answers start quickly. Chunks play through an
+ * audio element, which keeps the pitch when the speed changes. A fully synthesized message is
+ * cached per voice, so replaying it makes no requests.
+ */
+export class SpeechPlayer {
+  private track: Track | null = null;
+  private audio: HTMLAudioElement | null = null;
+  private audioUrl: string | null = null;
+  private index = 0;
+  private speed = 1;
+  private paused = false;
+  private status: PlaybackStatus = IDLE;
+  private listeners = new Set<(status: PlaybackStatus) => void>();
+  // Bumped by play, seek and stop so callbacks of the previous playback are ignored
+  private generation = 0;
+
+  constructor(private readonly synthesize: Synthesize, private readonly cache: SpeechCache) {}
+
+  subscribe(listener: (status: PlaybackStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.status);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit(patch: Partial<PlaybackStatus>) {
+    this.status = { ...this.status, ...patch };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+
+  private async createTrack(request: SpeechRequest): Promise<Track | null> {
+    const chunks = splitSpeech(speakableText(request.text));
+    if (chunks.length === 0) return null;
+    const track: Track = {
+      request,
+      key: speechClipKey(request.messageId, request.voice),
+      textHash: hashText(chunks.join('\n')),
+      chunks,
+      pcm: [],
+      pending: [],
+      saved: false
+    };
+    try {
+      const clip = await this.cache.get(track.key);
+      if (clip && clip.textHash === track.textHash && clip.chunks.length === chunks.length) {
+        track.pcm = clip.chunks.map(base64ToBytes);
+        track.saved = true;
+      }
+    } catch (error) {
+      console.warn('Speech cache unavailable:', error);
+    }
+    return track;
+  }
+
+  private pcmFor(track: Track, i: number): Promise<Uint8Array> {
+    const ready = track.pcm[i];
+    if (ready) return Promise.resolve(ready);
+    if (!track.pending[i]) {
+      track.pending[i] = this.synthesize(track.chunks[i], track.request.voice).then(audio => {
+        if (!audio) throw new Error('No audio came back for this message.');
+        const bytes = base64ToBytes(audio);
+        track.pcm[i] = bytes;
+        this.saveIfComplete(track);
+        return bytes;
+      }).catch(error => {
+        // Lets a later attempt ask again
+        track.pending[i] = undefined;
+        throw error;
+      });
+    }
+    return track.pending[i]!;
+  }
+
+  private saveIfComplete(track: Track) {
+    if (track.saved || track.pcm.filter(Boolean).length < track.chunks.length) return;
+    track.saved = true;
+    const { sessionId, messageId, voice } = track.request;
+    this.cache.put({
+      key: track.key, sessionId, messageId, voice,
+      textHash: track.textHash,
+      chunks: track.pcm.map(bytes => bytesToBase64(bytes!)),
+      createdAt: Date.now()
+    }).catch(error => console.warn('Speech was not cached:', error));
+  }
+
+  // Real lengths where known; the rest estimated from the speaking rate heard so far
+  private durations(track: Track): number[] {
+    let knownSeconds = 0;
+    let knownChars = 0;
+    track.chunks.forEach((chunk, i) => {
+      const pcm = track.pcm[i];
+      if (!pcm) return;
+      knownSeconds += pcmDuration(pcm.byteLength);
+      knownChars += chunk.length;
+    });
+    const perChar = knownChars ? knownSeconds / knownChars : SECONDS_PER_CHAR;
+    return track.chunks.map((chunk, i) => {
+      const pcm = track.pcm[i];
+      return pcm ? pcmDuration(pcm.byteLength) : chunk.length * perChar;
+    });
+  }
+
+  private startOf(track: Track, i: number) {
+    return this.durations(track).slice(0, i).reduce((sum, d) => sum + d, 0);
+  }
+
+  private totalDuration(track: Track) {
+    return this.durations(track).reduce((sum, d) => sum + d, 0);
+  }
+
+  private releaseAudio() {
+    if (this.audio) {
+      this.audio.onended = null;
+      this.audio.ontimeupdate = null;
+      this.audio.pause();
+      this.audio = null;
+    }
+    if (this.audioUrl) URL.revokeObjectURL(this.audioUrl);
+    this.audioUrl = null;
+  }
+
+  private async playChunk(track: Track, i: number, offset: number, generation: number) {
+    if (i >= track.chunks.length) {
+      this.stop();
+      return;
+    }
+    if (!track.pcm[i]) this.emit({ state: 'loading' });
+    let pcm: Uint8Array;
+    try {
+      pcm = await this.pcmFor(track, i);
+    } catch (error: any) {
+      if (generation !== this.generation) return;
+      this.stop();
+      this.emit({ messageId: track.request.messageId, error: error.message || 'The message could not be read aloud.' });
+      return;
+    }
+    if (generation !== this.generation) return;
+    // The next chunk is synthesized while this one plays; a failure shows when it is reached
+    if (i + 1 < track.chunks.length) this.pcmFor(track, i + 1).catch(() => {});
+
+    this.releaseAudio();
+    this.index = i;
+    this.audioUrl = URL.createObjectURL(pcmToWav([pcm]));
+    const audio = new Audio(this.audioUrl);
+    audio.preservesPitch = true;
+    // Loading resets playbackRate to the default rate
+    audio.defaultPlaybackRate = this.speed;
+    audio.playbackRate = this.speed;
+    if (offset > 0) audio.addEventListener('loadedmetadata', () => { audio.currentTime = offset; }, { once: true });
+    const start = this.startOf(track, i);
+    audio.ontimeupdate = () => this.emit({ position: start + audio.currentTime, duration: this.totalDuration(track) });
+    audio.onended = () => {
+      if (generation !== this.generation) return;
+      // Without an element, pause and resume while the next chunk synthesizes wait for it
+      this.releaseAudio();
+      this.playChunk(track, i + 1, 0, generation);
+    };
+    this.audio = audio;
+
+    this.emit({ position: start + offset, duration: this.totalDuration(track) });
+    if (this.paused) {
+      this.emit({ state: 'paused' });
+      return;
+    }
+    try {
+      await audio.play();
+      if (generation === this.generation) this.emit({ state: 'playing' });
+    } catch (error) {
+      if (generation !== this.generation) return;
+      this.stop();
+      this.emit({ messageId: track.request.messageId, error: 'The browser blocked audio playback.' });
+    }
+  }
+
+  // Stops whatever is playing and reads `request` from the start
+  async play(request: SpeechRequest): Promise<void> {
+    this.stop();
+    const generation = this.generation;
+    this.speed = request.speed ?? 1;
+    this.emit({ messageId: request.messageId, state: 'loading', error: undefined });
+    const track = await this.createTrack(request);
+    if (generation !== this.generation) return;
+    if (!track) {
+      this.stop();
+      return;
+    }
+    this.track = track;
+    this.emit({ duration: this.totalDuration(track) });
+    await this.playChunk(track, 0, 0, generation);
+  }
+
+  pause() {
+    if (!this.track) return;
+    this.paused = true;
+    this.audio?.pause();
+    this.emit({ state: 'paused' });
+  }
+
+  resume() {
+    if (!this.track) return;
+    this.paused = false;
+    // Still waiting for synthesis; the chunk starts as soon as it arrives
+    if (!this.audio) {
+      this.emit({ state: 'loading' });
+      return;
+    }
+    const generation = this.generation;
+    this.audio.play()
+      .then(() => generation === this.generation && this.emit({ state: 'playing' }))
+      .catch(() => generation === this.generation && this.emit({ error: 'The browser blocked audio playback.' }));
+  }
+
+  // Jumps to `seconds` into the message; a part that is not synthesized yet is played from its start
+  seek(seconds: number) {
+    const track = this.track;
+    if (!track) return;
+    const durations = this.durations(track);
+    let start = 0;
+    let i = 0;
+    while (i < durations.length - 1 && seconds >= start + durations[i]) {
+      start += durations[i];
+      i++;
+    }
+    const offset = track.pcm[i] ? Math.max(0, Math.min(seconds - start, durations[i])) : 0;
+    if (i === this.index && this.audio) {
+      this.audio.currentTime = offset;
+      this.emit({ position: start + offset });
+      return;
+    }
+    const generation = ++this.generation;
+    this.releaseAudio();
+    this.playChunk(track, i, offset, generation);
+  }
+
+  setSpeed(speed: number) {
+    this.speed = speed;
+    if (this.audio) {
+      this.audio.defaultPlaybackRate = speed;
+      this.audio.playbackRate = speed;
+    }
+  }
+
+  stop() {
+    this.generation++;
+    this.releaseAudio();
+    this.track = null;
+    this.paused = false;
+    this.index = 0;
+    this.emit(IDLE);
+  }
+
+  // The whole message as a WAV file, reusing audio already synthesized or cached
+  async audioFor(request: SpeechRequest): Promise<Blob> {
+    const playing = this.track;
+    const track = playing && playing.key === speechClipKey(request.messageId, request.voice) ? playing : await this.createTrack(request);
+    if (!track) throw new Error('This message has nothing to read aloud.');
+    const parts: Uint8Array[] = [];
+    // One request at a time, so a long message does not exhaust the rate limit at once
+    for (let i = 0; i < track.chunks.length; i++) parts.push(await this.pcmFor(track, i));
+    return pcmToWav(parts);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    if (this.track?.request.sessionId === sessionId) this.stop();
+    await this.cache.deleteSession(sessionId);
+  }
+}
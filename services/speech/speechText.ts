@@ -0,0 +1,67 @@
+export interface SpeechChunkOptions {
+  // The first chunk is kept short so playback starts quickly
+  firstChunkChars?: number;
+  chunkChars?: number;
+}
+
+// Sentences end in . ! ? or the Bangla danda, optionally followed by closing quotes or brackets
+const SENTENCE = /[^.!?।\n]+(?:[.!?।]+["'”’)\]]*|\n|$)/g;
+
+// Markdown reads badly aloud: code blocks are skipped, links keep their text and formatting marks go
+export function speakableText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\s*\[\d+\]/g, '')
+    .replace(/^\s*([-*_]\s*){3,}$/gm, '')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__|\*|~~)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/\|/g, ' ')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
+
+// Breaks an overlong sentence at the last comma, or else the last space, before `max`
+function splitLong(sentence: string, max: number): string[] {
+  const parts: string[] = [];
+  let rest = sentence;
+  while (rest.length > max) {
+    const window = rest.slice(0, max);
+    const cut = Math.max(window.lastIndexOf(', ') + 1, 0) || window.lastIndexOf(' ');
+    const at = cut > max / 2 ? cut : max;
+    parts.push(rest.slice(0, at).trim());
+    rest = rest.slice(at).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Groups sentences into chunks that are synthesized one by one. Chunks never split a sentence
+ * unless it is longer than a whole chunk.
+ */
+export function splitSpeech(text: string, options: SpeechChunkOptions = {}): string[] {
+  const firstChunkChars = options.firstChunkChars ?? 200;
+  const chunkChars = options.chunkChars ?? 600;
+  const sentences = (text.match(SENTENCE) || [])
+    .map(s => s.trim())
+    .filter(Boolean)
+    .flatMap(s => splitLong(s, chunkChars));
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    const limit = chunks.length === 0 ? firstChunkChars : chunkChars;
+    if (current && current.length + 1 + sentence.length > limit) {
+      chunks.push(current);
+      current = sentence;
+    } else {
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
@@ -0,0 +1,42 @@
+// Gemini speech is 24 kHz, 16-bit, mono PCM
+export const SPEECH_SAMPLE_RATE = 24000;
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so long clips do not overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Seconds of audio in a PCM buffer
+export const pcmDuration = (byteLength: number, sampleRate = SPEECH_SAMPLE_RATE) => byteLength / 2 / sampleRate;
+
+// Wraps PCM parts, in order, in a single WAV file
+export function pcmToWav(parts: Uint8Array[], sampleRate = SPEECH_SAMPLE_RATE): Blob {
+  const dataLength = parts.reduce((total, part) => total + part.byteLength, 0);
+  const header = new DataView(new ArrayBuffer(44));
+  const text = (offset: number, value: string) => [...value].forEach((c, i) => header.setUint8(offset + i, c.charCodeAt(0)));
+  text(0, 'RIFF');
+  header.setUint32(4, 36 + dataLength, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  text(36, 'data');
+  header.setUint32(40, dataLength, true);
+  return new Blob([header.buffer, ...parts.map(part => part.slice().buffer)], { type: 'audio/wav' });
+}
@@ -0,0 +1,18 @@
+import { IndexedDbSessionStore } from './indexedDbSessionStore';
+import { MemorySessionStore } from './memorySessionStore';
+import { SessionStore } from './sessionStore';
+
+export type { SessionStore, SessionSummary } from './sessionStore';
+export { StorageQuotaError } from './sessionStore';
+export { MemorySessionStore } from './memorySessionStore';
+export { IndexedDbSessionStore } from './indexedDbSessionStore';
+export { migrateLegacySessions, moveSessions } from './migration';
+
+// The history of one account, or with `null` the chats kept in this browser without one
+export function createSessionStore(uid: string | null = null): SessionStore {
+  if (typeof indexedDB === 'undefined') {
+    console.warn('IndexedDB unavailable; chat history will not persist.');
+    return new MemorySessionStore();
+  }
+  return new IndexedDbSessionStore(uid);
+}
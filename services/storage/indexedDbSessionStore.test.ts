@@ -0,0 +1,96 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Attachment, ChatSession, MessageNode } from '../../types';
+import { IndexedDbSessionStore } from './indexedDbSessionStore';
+
+// Node has no FileReader; loading attachments only needs readAsDataURL
+class BlobReader {
+  result: string | null = null;
+  error: unknown = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then(buffer => {
+      this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`;
+      this.onload?.();
+    });
+  }
+}
+
+const photo: Attachment = { data: btoa('png bytes'), mimeType: 'image/png', name: 'photo.png' };
+
+const node = (id: string, parentId: string | null, attachments?: Attachment[]): MessageNode =>
+  ({ id, parentId, role: 'user', parts: [{ text: id }], timestamp: 1, ...(attachments ? { attachments } : {}) });
+
+const session = (id: string, nodes: MessageNode[], timestamp = 1): ChatSession =>
+  ({ id, title: 'Chat', nodes, activeLeafId: nodes[nodes.length - 1]?.id ?? null, timestamp });
+
+// Every test gets its own database
+let accounts = 0;
+const newAccount = () => `u${++accounts}`;
+
+const storedRefs = (uid: string) => new Promise<string[]>((resolve, reject) => {
+  const req = indexedDB.open(`waso-user-${uid}`);
+  req.onerror = () => reject(req.error);
+  req.onsuccess = () => {
+    const keys = req.result.transaction('attachments').objectStore('attachments').getAllKeys();
+    keys.onsuccess = () => {
+      req.result.close();
+      resolve(keys.result as string[]);
+    };
+    keys.onerror = () => reject(keys.error);
+  };
+});
+
+describe('IndexedDbSessionStore', () => {
+  beforeEach(() => { vi.stubGlobal('FileReader', BlobReader); });
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  it('keeps sessions, their tree and attachments across instances', async () => {
+    const uid = newAccount();
+    const saved = session('s1', [node('m1', null, [photo]), node('m2', 'm1'), node('m3', 'm1')]);
+    saved.activeLeafId = 'm2';
+    await new IndexedDbSessionStore(uid).saveSession(saved);
+
+    const store = new IndexedDbSessionStore(uid);
+    expect(await store.listSessions()).toMatchObject([{ id: 's1', title: 'Chat' }]);
+    expect(await store.loadSession('s1')).toEqual(saved);
+  });
+
+  it('lists the newest session first and deletes sessions with their attachments', async () => {
+    const uid = newAccount();
+    const store = new IndexedDbSessionStore(uid);
+    await store.saveSession(session('old', [node('m1', null)], 1));
+    await store.saveSession(session('new', [node('m2', null, [photo])], 2));
+    expect((await store.listSessions()).map(s => s.id)).toEqual(['new', 'old']);
+
+    await store.deleteSession('new');
+    expect(await store.loadSession('new')).toBeNull();
+    expect(await storedRefs(uid)).toEqual([]);
+  });
+
+  it('reuses the stored attachment when a session is saved again', async () => {
+    const uid = newAccount();
+    const store = new IndexedDbSessionStore(uid);
+    await store.saveSession(session('s1', [node('m1', null, [photo])]));
+    const [ref] = await storedRefs(uid);
+
+    // The same content on another message shares the Blob too
+    await store.saveSession(session('s1', [node('m1', null, [photo]), node('m2', 'm1', [photo])]));
+    expect(await storedRefs(uid)).toEqual([ref]);
+    // A fresh instance finds the ref from the database instead of its cache
+    await new IndexedDbSessionStore(uid).saveSession(session('s1', [node('m1', null, [photo])]));
+    expect(await storedRefs(uid)).toEqual([ref]);
+
+    await store.saveSession(session('s1', [node('m1', null)]));
+    expect(await storedRefs(uid)).toEqual([]);
+  });
+
+  it('keeps accounts and the signed-out history apart', async () => {
+    const uid = newAccount();
+    await new IndexedDbSessionStore(uid).saveSession(session('s1', [node('m1', null)]));
+    expect(await new IndexedDbSessionStore(newAccount()).listSessions()).toEqual([]);
+    expect(await new IndexedDbSessionStore().loadSession('s1')).toBeNull();
+  });
+});
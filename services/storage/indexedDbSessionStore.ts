@@ -0,0 +1,198 @@
+import { Attachment, ChatSession, MessageNode } from '../../types';
+import { treeFromMessages } from '../messageTree';
+import { SessionStore, SessionSummary, StorageQuotaError, isQuotaError, toSummary } from './sessionStore';
+
+const DB_NAME = 'waso';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions'; // SessionSummary, keyed by id
+const MESSAGES = 'messages'; // { id, nodes: StoredMessage[], activeLeafId }, keyed by session id
+const ATTACHMENTS = 'attachments'; // { ref, sessionId, blob }, keyed by ref
+
+// Messages are stored with attachment references; the binary data lives in ATTACHMENTS as Blobs
+interface StoredAttachment {
+  ref: string;
+  mimeType: string;
+  name: string;
+}
+
+type StoredMessage = Omit<MessageNode, 'attachments'> & { attachments?: StoredAttachment[] };
+
+// Records written before branching hold a flat `messages` list instead of a tree
+type MessagesRecord = { nodes?: StoredMessage[]; activeLeafId?: string | null; messages?: StoredMessage[] };
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onabort = () => reject(tx.error);
+  tx.onerror = () => reject(tx.error);
+});
+
+const base64ToBlob = (data: string, mimeType: string) => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// SHA-256 of the whole content, so unchanged attachments keep their ref across saves.
+// crypto.subtle only exists in secure contexts; elsewhere every save gets fresh refs.
+const attachmentRef = async (sessionId: string, att: Attachment) => {
+  if (!globalThis.crypto?.subtle) {
+    return `${sessionId}:${Date.now().toString(36)}:${Math.random().toString(36).slice(2)}`;
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(att.data));
+  const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  return `${sessionId}:${hex}`;
+};
+
+/**
+ * Chat history in IndexedDB. Each account gets its own database; chats kept while signed
+ * out stay in the original `waso` database.
+ */
+export class IndexedDbSessionStore implements SessionStore {
+  private db: Promise<IDBDatabase> | null = null;
+  // Attachment refs already persisted per session, so unchanged Blobs are not rewritten
+  private storedRefs = new Map<string, Set<string>>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly uid: string | null = null) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(this.uid ? `${DB_NAME}-user-${this.uid}` : DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          db.createObjectStore(SESSIONS, { keyPath: 'id' });
+          db.createObjectStore(MESSAGES, { keyPath: 'id' });
+          db.createObjectStore(ATTACHMENTS, { keyPath: 'ref' }).createIndex('sessionId', 'sessionId');
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.db;
+  }
+
+  // Writes run one at a time so overlapping saves of a session cannot interleave
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private async refsFor(db: IDBDatabase, sessionId: string): Promise<Set<string>> {
+    let refs = this.storedRefs.get(sessionId);
+    if (!refs) {
+      const index = db.transaction(ATTACHMENTS).objectStore(ATTACHMENTS).index('sessionId');
+      const keys = await request(index.getAllKeys(IDBKeyRange.only(sessionId)));
+      refs = new Set(keys as string[]);
+      this.storedRefs.set(sessionId, refs);
+    }
+    return refs;
+  }
+
+  async listSessions(): Promise<SessionSummary[]> {
+    const db = await this.open();
+    const all = await request(db.transaction(SESSIONS).objectStore(SESSIONS).getAll()) as SessionSummary[];
+    return all.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async loadSession(id: string): Promise<ChatSession | null> {
+    const db = await this.open();
+    const tx = db.transaction([SESSIONS, MESSAGES, ATTACHMENTS]);
+    const summary = await request(tx.objectStore(SESSIONS).get(id)) as SessionSummary | undefined;
+    if (!summary) return null;
+    const record = await request(tx.objectStore(MESSAGES).get(id)) as MessagesRecord | undefined;
+    const tree = record?.nodes
+      ? { nodes: record.nodes, activeLeafId: record.activeLeafId ?? null }
+      : treeFromMessages(record?.messages || []);
+    const stored = tree.nodes;
+
+    const refs = stored.flatMap(m => m.attachments || []).map(a => a.ref);
+    const blobs = new Map<string, Blob>();
+    for (const ref of refs) {
+      const row = await request(tx.objectStore(ATTACHMENTS).get(ref)) as { blob: Blob } | undefined;
+      if (row) blobs.set(ref, row.blob);
+    }
+
+    const nodes: MessageNode[] = [];
+    for (const msg of stored) {
+      const { attachments, ...rest } = msg;
+      const restored: Attachment[] = [];
+      for (const att of attachments || []) {
+        const blob = blobs.get(att.ref);
+        if (blob) restored.push({ data: await blobToBase64(blob), mimeType: att.mimeType, name: att.name });
+      }
+      nodes.push(restored.length > 0 ? { ...rest, attachments: restored } : rest);
+    }
+    return { ...summary, nodes, activeLeafId: tree.activeLeafId };
+  }
+
+  saveSession(session: ChatSession): Promise<void> {
+    return this.serialize(async () => {
+      const db = await this.open();
+      const existing = await this.refsFor(db, session.id);
+      const used = new Set<string>();
+      const newBlobs: { ref: string; sessionId: string; blob: Blob }[] = [];
+
+      const nodes: StoredMessage[] = [];
+      for (const msg of session.nodes) {
+        if (!msg.attachments?.length) {
+          nodes.push({ ...msg, attachments: undefined });
+          continue;
+        }
+        const attachments: StoredAttachment[] = [];
+        for (const att of msg.attachments) {
+          const ref = await attachmentRef(session.id, att);
+          if (!existing.has(ref) && !used.has(ref)) {
+            newBlobs.push({ ref, sessionId: session.id, blob: base64ToBlob(att.data, att.mimeType) });
+          }
+          used.add(ref);
+          attachments.push({ ref, mimeType: att.mimeType, name: att.name });
+        }
+        nodes.push({ ...msg, attachments });
+      }
+
+      const tx = db.transaction([SESSIONS, MESSAGES, ATTACHMENTS], 'readwrite');
+      tx.objectStore(SESSIONS).put(toSummary(session));
+      tx.objectStore(MESSAGES).put({ id: session.id, nodes, activeLeafId: session.activeLeafId });
+      newBlobs.forEach(row => tx.objectStore(ATTACHMENTS).put(row));
+      existing.forEach(ref => {
+        if (!used.has(ref)) tx.objectStore(ATTACHMENTS).delete(ref);
+      });
+
+      try {
+        await transactionDone(tx);
+      } catch (error) {
+        if (isQuotaError(error)) throw new StorageQuotaError();
+        throw error;
+      }
+      this.storedRefs.set(session.id, used);
+    });
+  }
+
+  deleteSession(id: string): Promise<void> {
+    return this.serialize(async () => {
+      const db = await this.open();
+      const refs = await this.refsFor(db, id);
+      const tx = db.transaction([SESSIONS, MESSAGES, ATTACHMENTS], 'readwrite');
+      tx.objectStore(SESSIONS).delete(id);
+      tx.objectStore(MESSAGES).delete(id);
+      refs.forEach(ref => tx.objectStore(ATTACHMENTS).delete(ref));
+      await transactionDone(tx);
+      this.storedRefs.delete(id);
+    });
+  }
+}
@@ -0,0 +1,30 @@
+import { ChatSession } from '../../types';
+import { SessionStore, SessionSummary, toSummary } from './sessionStore';
+
+/**
+ * Non-persistent store used in tests and as a fallback when IndexedDB is unavailable.
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, ChatSession>();
+
+  constructor(initial: ChatSession[] = []) {
+    initial.forEach(s => this.sessions.set(s.id, structuredClone(s)));
+  }
+
+  async listSessions(): Promise<SessionSummary[]> {
+    return [...this.sessions.values()].map(toSummary).sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async loadSession(id: string): Promise<ChatSession | null> {
+    const session = this.sessions.get(id);
+    return session ? structuredClone(session) : null;
+  }
+
+  async saveSession(session: ChatSession): Promise<void> {
+    this.sessions.set(session.id, structuredClone(session));
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+}
@@ -0,0 +1,104 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatSession, MessageNode } from '../../types';
+import { IndexedDbSessionStore } from './indexedDbSessionStore';
+import { MemorySessionStore } from './memorySessionStore';
+import { LEGACY_SESSIONS_KEY, migrateLegacySessions, moveSessions } from './migration';
+
+const node = (id: string, parentId: string | null): MessageNode =>
+  ({ id, parentId, role: 'user', parts: [{ text: id }], timestamp: 1 });
+
+const session = (id: string, nodes: MessageNode[], timestamp = 1, title = 'Chat'): ChatSession =>
+  ({ id, title, nodes, activeLeafId: nodes[nodes.length - 1]?.id ?? null, timestamp });
+
+const memoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, value); }
+  };
+};
+
+let accounts = 0;
+const newStore = () => new IndexedDbSessionStore(`migration-${++accounts}`);
+
+describe('migrateLegacySessions', () => {
+  beforeEach(() => { vi.stubGlobal('localStorage', memoryStorage()); });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('copies flat v2 sessions into the store as trees and removes the legacy key', async () => {
+    const store = newStore();
+    localStorage.setItem(LEGACY_SESSIONS_KEY, JSON.stringify([
+      { id: 's1', title: 'Old chat', timestamp: 5, messages: [{ role: 'user', parts: [{ text: 'hi' }], timestamp: 1 }, { role: 'model', parts: [{ text: 'hello' }], timestamp: 2 }] }
+    ]));
+
+    expect(await migrateLegacySessions(store)).toBe(1);
+    expect(localStorage.getItem(LEGACY_SESSIONS_KEY)).toBeNull();
+    const migrated = await store.loadSession('s1');
+    expect(migrated?.nodes.map(n => n.parts[0].text)).toEqual(['hi', 'hello']);
+    expect(migrated?.nodes[1].parentId).toBe(migrated?.nodes[0].id);
+    expect(migrated?.activeLeafId).toBe(migrated?.nodes[1].id);
+  });
+
+  it('does nothing the second time, and keeps sessions the store already has', async () => {
+    const store = newStore();
+    await store.saveSession(session('s1', [node('kept', null)], 9, 'Newer'));
+    const legacy = JSON.stringify([
+      { id: 's1', title: 'Older', timestamp: 1, messages: [] },
+      { id: 's2', title: 'Only legacy', timestamp: 1, messages: [] }
+    ]);
+    localStorage.setItem(LEGACY_SESSIONS_KEY, legacy);
+
+    expect(await migrateLegacySessions(store)).toBe(1);
+    expect(await migrateLegacySessions(store)).toBe(0);
+    // A run that failed halfway leaves the key behind; repeating it adds no duplicates
+    localStorage.setItem(LEGACY_SESSIONS_KEY, legacy);
+    expect(await migrateLegacySessions(store)).toBe(0);
+
+    expect((await store.listSessions()).map(s => s.id).sort()).toEqual(['s1', 's2']);
+    expect(await store.loadSession('s1')).toMatchObject({ title: 'Newer', nodes: [{ id: 'kept' }] });
+  });
+
+  it('discards an unreadable legacy value', async () => {
+    const store = newStore();
+    localStorage.setItem(LEGACY_SESSIONS_KEY, '{not json');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await migrateLegacySessions(store)).toBe(0);
+    expect(localStorage.getItem(LEGACY_SESSIONS_KEY)).toBeNull();
+    expect(await store.listSessions()).toEqual([]);
+  });
+});
+
+describe('moveSessions', () => {
+  it('moves every session and empties the source', async () => {
+    const guest = new MemorySessionStore([session('a', [node('m1', null)]), session('b', [node('m2', null)])]);
+    const account = newStore();
+
+    expect((await moveSessions(guest, account)).sort()).toEqual(['a', 'b']);
+    expect(await guest.listSessions()).toEqual([]);
+    expect((await account.listSessions()).map(s => s.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('keeps the more recent copy when both stores hold a session', async () => {
+    const guest = new MemorySessionStore([
+      session('newer-here', [node('guest', null)], 5),
+      session('older-here', [node('guest', null)], 1)
+    ]);
+    const account = newStore();
+    await account.saveSession(session('newer-here', [node('account', null)], 2));
+    await account.saveSession(session('older-here', [node('account', null)], 3));
+
+    expect(await moveSessions(guest, account)).toEqual(['newer-here']);
+    expect((await account.loadSession('newer-here'))?.nodes.map(n => n.id)).toEqual(['guest']);
+    expect((await account.loadSession('older-here'))?.nodes.map(n => n.id)).toEqual(['account']);
+    expect(await guest.listSessions()).toEqual([]);
+  });
+});
@@ -0,0 +1,52 @@
+import { upgradeSession } from '../messageTree';
+import { SessionStore } from './sessionStore';
+
+// Sessions were serialised into this localStorage key before the IndexedDB store existed
+export const LEGACY_SESSIONS_KEY = 'waso_sessions_v2';
+
+/**
+ * One-time copy of the v2 localStorage sessions into the store. The legacy key is only
+ * removed after every session was saved, so a failed run is retried on the next load.
+ */
+export async function migrateLegacySessions(store: SessionStore): Promise<number> {
+  const raw = localStorage.getItem(LEGACY_SESSIONS_KEY);
+  if (!raw) return 0;
+
+  let legacy: any[];
+  try {
+    legacy = JSON.parse(raw);
+  } catch (e) {
+    console.warn('Discarding unreadable legacy sessions:', e);
+    localStorage.removeItem(LEGACY_SESSIONS_KEY);
+    return 0;
+  }
+  if (!Array.isArray(legacy)) legacy = [];
+
+  const existing = new Set((await store.listSessions()).map(s => s.id));
+  let migrated = 0;
+  for (const session of legacy) {
+    if (!session?.id || existing.has(session.id)) continue;
+    await store.saveSession(upgradeSession(session));
+    migrated++;
+  }
+  localStorage.removeItem(LEGACY_SESSIONS_KEY);
+  return migrated;
+}
+
+/**
+ * Moves every session from `from` into `to`, e.g. chats kept while signed out into an
+ * account. When both hold a session the more recent copy wins. Returns the moved ids.
+ */
+export async function moveSessions(from: SessionStore, to: SessionStore): Promise<string[]> {
+  const existing = new Map((await to.listSessions()).map(s => [s.id, s.timestamp]));
+  const moved: string[] = [];
+  for (const summary of await from.listSessions()) {
+    const session = await from.loadSession(summary.id);
+    if (session && (existing.get(session.id) ?? -Infinity) < session.timestamp) {
+      await to.saveSession(session);
+      moved.push(session.id);
+    }
+    await from.deleteSession(summary.id);
+  }
+  return moved;
+}
@@ -0,0 +1,24 @@
+import { ChatSession } from '../../types';
+
+// Lightweight listing entry; the message tree and attachments are only loaded on demand
+export type SessionSummary = Omit<ChatSession, 'nodes' | 'activeLeafId'>;
+
+export interface SessionStore {
+  listSessions(): Promise<SessionSummary[]>;
+  loadSession(id: string): Promise<ChatSession | null>;
+  saveSession(session: ChatSession): Promise<void>;
+  deleteSession(id: string): Promise<void>;
+}
+
+// Raised when the browser refuses to store more data; the UI surfaces it to the user
+export class StorageQuotaError extends Error {
+  constructor(message = 'Browser storage is full. Delete old sessions or large attachments to keep saving.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const toSummary = ({ nodes, activeLeafId, ...summary }: ChatSession): SessionSummary => summary;
@@ -0,0 +1,5 @@
+export { SyncManager } from './syncManager';
+export type { SyncStatus, SyncState } from './syncManager';
+export { mergeSessions, messageKeys } from './mergeSessions';
+export { httpSyncApi } from './syncApi';
+export type { SyncApi, RemoteRecord } from './syncApi';
@@ -0,0 +1,27 @@
+import { ChatSession } from '../../types';
+
+export const messageKeys = (session: ChatSession) => session.nodes.map(n => n.id);
+
+/**
+ * Three-way merge of two versions of a session. `baseKeys` are the message ids both sides
+ * agreed on at the last sync: a base message missing on one side was deleted there, a
+ * non-base message on either side was added. Messages present on both sides and the session
+ * metadata are resolved last-write-wins by session timestamp. Branches from both sides are
+ * kept; the newer side's active branch stays selected when it survived the merge.
+ */
+export function mergeSessions(local: ChatSession, remote: ChatSession, baseKeys: Set<string>): ChatSession {
+  const newer = local.timestamp >= remote.timestamp ? local : remote;
+  const older = newer === local ? remote : local;
+  const newerById = new Map(newer.nodes.map(n => [n.id, n]));
+  const olderById = new Map(older.nodes.map(n => [n.id, n]));
+
+  const merged = [...newerById.values()].filter(n => olderById.has(n.id) || !baseKeys.has(n.id));
+  for (const [id, node] of olderById) {
+    if (!newerById.has(id) && !baseKeys.has(id)) merged.push(node);
+  }
+  merged.sort((a, b) => a.timestamp - b.timestamp);
+
+  const ids = new Set(merged.map(n => n.id));
+  const activeLeafId = [newer.activeLeafId, older.activeLeafId].find(id => id && ids.has(id)) ?? null;
+  return { ...newer, nodes: merged, activeLeafId, timestamp: Math.max(local.timestamp, remote.timestamp) };
+}
@@ -0,0 +1,51 @@
+import { ChatSession } from '../../types';
+import { authHeaders } from '../auth';
+
+export interface RemoteRecord {
+  id: string;
+  revision: number;
+  deleted: boolean;
+  session: ChatSession | null;
+}
+
+export type PushResult =
+  | { ok: true; record: RemoteRecord }
+  | { ok: false; current: RemoteRecord };
+
+// Transport used by the SyncManager; swap it out to sync against another backend
+export interface SyncApi {
+  pull(since: number): Promise<{ records: RemoteRecord[]; revision: number }>;
+  push(id: string, session: ChatSession | null, baseRevision: number): Promise<PushResult>;
+}
+
+export class SyncHttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'SyncHttpError';
+  }
+}
+
+const readJson = async (response: Response) => {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok && response.status !== 409) {
+    throw new SyncHttpError(data.error || `Sync request failed (${response.status})`, response.status);
+  }
+  return data;
+};
+
+export const httpSyncApi: SyncApi = {
+  async pull(since) {
+    const response = await fetch(`/api/sessions?since=${since}`, { headers: await authHeaders() });
+    return readJson(response);
+  },
+
+  async push(id, session, baseRevision) {
+    const response = await fetch('/api/sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(session ? { id, session, baseRevision } : { id, deleted: true })
+    });
+    const data = await readJson(response);
+    return response.status === 409 ? { ok: false, current: data.current } : { ok: true, record: data.record };
+  }
+};
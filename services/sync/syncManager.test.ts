@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatSession, MessageNode } from '../../types';
+import { MemorySyncBackend } from '../../api/_lib/syncBackend';
+import { MemorySessionStore } from '../storage';
+import { SyncApi } from './syncApi';
+import { SyncManager } from './syncManager';
+
+const node = (id: string, parentId: string | null, timestamp: number): MessageNode =>
+  ({ id, parentId, role: 'user', parts: [{ text: id }], timestamp });
+
+const session = (id: string, nodes: MessageNode[], timestamp: number): ChatSession =>
+  ({ id, title: 'Chat', nodes, activeLeafId: nodes[nodes.length - 1]?.id ?? null, timestamp });
+
+const apiFor = (backend: MemorySyncBackend, uid: string): SyncApi => ({
+  pull: (since) => backend.listSince(uid, since),
+  push: async (id, value, baseRevision) => {
+    const result = await backend.put(uid, id, value, baseRevision);
+    return 'current' in result ? { ok: false, current: result.current } : { ok: true, record: result.record };
+  }
+});
+
+const memoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, value); }
+  };
+};
+
+// One browser signed in as `uid`
+const device = (backend: MemorySyncBackend, uid = 'u1', api = apiFor(backend, uid)) => {
+  const store = new MemorySessionStore();
+  const manager = new SyncManager(store, uid, () => {}, api, memoryStorage());
+  return { store, manager };
+};
+
+const edit = async (d: ReturnType<typeof device>, value: ChatSession) => {
+  await d.store.saveSession(value);
+  d.manager.markDirty(value.id);
+};
+
+describe('SyncManager', () => {
+  // markDirty schedules a debounced sync; the tests sync explicitly instead
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('pushes local sessions and pulls them on another device', async () => {
+    const backend = new MemorySyncBackend();
+    const a = device(backend);
+    const b = device(backend);
+    await edit(a, session('s1', [node('m1', null, 1)], 1));
+    await a.manager.syncNow();
+    await b.manager.syncNow();
+    expect((await b.store.loadSession('s1'))?.nodes.map(n => n.id)).toEqual(['m1']);
+  });
+
+  it('merges concurrent edits after a revision conflict', async () => {
+    const backend = new MemorySyncBackend();
+    const bApi = apiFor(backend, 'u1');
+    const a = device(backend);
+    const b = device(backend, 'u1', bApi);
+    const base = session('s1', [node('m1', null, 1)], 1);
+    await edit(a, base);
+    await a.manager.syncNow();
+    await b.manager.syncNow();
+
+    await edit(a, session('s1', [...base.nodes, node('a2', 'm1', 2)], 2));
+    // b has not pulled a's edit yet when it pushes its own
+    const pull = bApi.pull;
+    bApi.pull = async (since) => {
+      bApi.pull = pull;
+      return { records: [], revision: since };
+    };
+    await a.manager.syncNow();
+    await edit(b, session('s1', [...base.nodes, node('b2', 'm1', 3)], 3));
+    await b.manager.syncNow();
+
+    const merged = ['m1', 'a2', 'b2'];
+    expect((await b.store.loadSession('s1'))?.nodes.map(n => n.id)).toEqual(merged);
+    const stored = (await backend.listSince('u1', 0)).records.find(r => r.id === 's1');
+    expect(stored?.session?.nodes.map(n => n.id)).toEqual(merged);
+    await a.manager.syncNow();
+    expect((await a.store.loadSession('s1'))?.nodes.map(n => n.id)).toEqual(merged);
+  });
+
+  it('applies remote deletions, unless the session was edited locally since', async () => {
+    const backend = new MemorySyncBackend();
+    const a = device(backend);
+    const b = device(backend);
+    await edit(a, session('s1', [node('m1', null, 1)], 1));
+    await edit(a, session('s2', [node('m2', null, 1)], 1));
+    await a.manager.syncNow();
+    await b.manager.syncNow();
+
+    await a.store.deleteSession('s1');
+    a.manager.markDeleted('s1');
+    await a.store.deleteSession('s2');
+    a.manager.markDeleted('s2');
+    await a.manager.syncNow();
+
+    await edit(b, session('s2', [node('m2', null, 1), node('b3', 'm2', 2)], 2));
+    await b.manager.syncNow();
+    expect(await b.store.loadSession('s1')).toBeNull();
+    // The local edit resurrects s2 on the server
+    expect((await b.store.loadSession('s2'))?.nodes.map(n => n.id)).toEqual(['m2', 'b3']);
+    const records = (await backend.listSince('u1', 0)).records;
+    expect(records.find(r => r.id === 's1')).toMatchObject({ deleted: true });
+    expect(records.find(r => r.id === 's2')).toMatchObject({ deleted: false });
+  });
+
+  it('keeps a session queued when it is edited while its push is in flight', async () => {
+    const backend = new MemorySyncBackend();
+    const api = apiFor(backend, 'u1');
+    const d = device(backend, 'u1', api);
+    const later = session('s1', [node('m1', null, 1), node('m2', 'm1', 2)], 2);
+    const push = api.push;
+    api.push = async (...args) => {
+      const result = await push(...args);
+      if (!(await d.store.loadSession('s1'))?.nodes.some(n => n.id === 'm2')) await edit(d, later);
+      return result;
+    };
+
+    await edit(d, session('s1', [node('m1', null, 1)], 1));
+    await d.manager.syncNow();
+    let status = { pending: -1 };
+    d.manager.subscribe(s => { status = s; })();
+    expect(status.pending).toBe(1);
+
+    await d.manager.syncNow();
+    const stored = (await backend.listSince('u1', 0)).records.find(r => r.id === 's1');
+    expect(stored?.session?.nodes.map(n => n.id)).toEqual(['m1', 'm2']);
+  });
+});
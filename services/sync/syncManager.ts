@@ -0,0 +1,239 @@
+import { ChatSession } from '../../types';
+import { SessionStore } from '../storage';
+import { upgradeSession } from '../messageTree';
+import { mergeSessions, messageKeys } from './mergeSessions';
+import { httpSyncApi, RemoteRecord, SyncApi, SyncHttpError } from './syncApi';
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  lastSyncedAt: number | null;
+  error?: string;
+}
+
+// Persisted per user so queued changes survive reloads while offline
+interface SyncMeta {
+  revision: number;
+  versions: Record<string, number>;
+  baseKeys: Record<string, string[]>;
+  dirty: string[];
+  deleted: string[];
+  lastSyncedAt: number | null;
+}
+
+const PUSH_DEBOUNCE_MS = 2000;
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const isNetworkError = (error: unknown) =>
+  error instanceof TypeError || (typeof navigator !== 'undefined' && navigator.onLine === false);
+
+/**
+ * Keeps the local SessionStore in sync with the user's server copy. Local changes are
+ * queued and pushed with optimistic concurrency; conflicts are merged per message.
+ */
+export class SyncManager {
+  private meta: SyncMeta;
+  private status: SyncStatus;
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private running: Promise<void> | null = null;
+  private rerun = false;
+  private debounce: ReturnType<typeof setTimeout> | null = null;
+  private poll: ReturnType<typeof setInterval> | null = null;
+  // Local edits per session, so an edit made while its push is in flight stays queued
+  private edits = new Map<string, number>();
+  private handleOnline = () => this.syncNow();
+
+  constructor(
+    private store: SessionStore,
+    private uid: string,
+    // Called with the ids of sessions that changed locally because of remote updates
+    private onRemoteChange: (ids: string[]) => void,
+    private api: SyncApi = httpSyncApi,
+    private storage: Storage = localStorage
+  ) {
+    const saved = storage.getItem(this.metaKey);
+    this.meta = saved ? JSON.parse(saved) : { revision: 0, versions: {}, baseKeys: {}, dirty: [], deleted: [], lastSyncedAt: null };
+    this.status = { state: 'idle', pending: this.pendingCount(), lastSyncedAt: this.meta.lastSyncedAt };
+  }
+
+  private get metaKey() {
+    return `waso_sync_${this.uid}`;
+  }
+
+  private pendingCount() {
+    return this.meta.dirty.length + this.meta.deleted.length;
+  }
+
+  private saveMeta() {
+    this.storage.setItem(this.metaKey, JSON.stringify(this.meta));
+  }
+
+  private setStatus(next: Partial<SyncStatus>) {
+    this.status = { ...this.status, pending: this.pendingCount(), ...next };
+    this.listeners.forEach(l => l(this.status));
+  }
+
+  subscribe(listener: (status: SyncStatus) => void) {
+    this.listeners.add(listener);
+    listener(this.status);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  async start() {
+    // First sync for this user on this device: upload what is already in their local store
+    if (!this.storage.getItem(this.metaKey)) {
+      const local = await this.store.listSessions();
+      this.meta.dirty = local.map(s => s.id);
+      this.saveMeta();
+    }
+    window.addEventListener('online', this.handleOnline);
+    this.poll = setInterval(() => this.syncNow(), POLL_INTERVAL_MS);
+    await this.syncNow();
+  }
+
+  stop() {
+    window.removeEventListener('online', this.handleOnline);
+    if (this.poll) clearInterval(this.poll);
+    if (this.debounce) clearTimeout(this.debounce);
+  }
+
+  markDirty(id: string) {
+    this.edits.set(id, (this.edits.get(id) || 0) + 1);
+    if (!this.meta.dirty.includes(id)) this.meta.dirty.push(id);
+    this.meta.deleted = this.meta.deleted.filter(d => d !== id);
+    this.saveMeta();
+    this.setStatus({});
+    this.scheduleSync();
+  }
+
+  markDeleted(id: string) {
+    this.meta.dirty = this.meta.dirty.filter(d => d !== id);
+    if (!this.meta.deleted.includes(id)) this.meta.deleted.push(id);
+    this.saveMeta();
+    this.setStatus({});
+    this.scheduleSync();
+  }
+
+  private scheduleSync() {
+    if (this.debounce) clearTimeout(this.debounce);
+    this.debounce = setTimeout(() => this.syncNow(), PUSH_DEBOUNCE_MS);
+  }
+
+  syncNow(): Promise<void> {
+    if (this.running) {
+      this.rerun = true;
+      return this.running;
+    }
+    this.running = this.run().finally(() => {
+      this.running = null;
+      if (this.rerun) {
+        this.rerun = false;
+        this.syncNow();
+      }
+    });
+    return this.running;
+  }
+
+  private async run() {
+    this.setStatus({ state: 'syncing', error: undefined });
+    try {
+      const changed = await this.pull();
+      changed.push(...await this.push());
+      this.meta.lastSyncedAt = Date.now();
+      this.saveMeta();
+      this.setStatus({ state: 'idle', lastSyncedAt: this.meta.lastSyncedAt });
+      if (changed.length > 0) this.onRemoteChange([...new Set(changed)]);
+    } catch (error: any) {
+      this.saveMeta();
+      if (isNetworkError(error)) {
+        this.setStatus({ state: 'offline' });
+      } else {
+        console.error('Session sync failed:', error);
+        this.setStatus({ state: 'error', error: error instanceof SyncHttpError ? error.message : 'Sync failed.' });
+      }
+    }
+  }
+
+  private remember(record: RemoteRecord, session: ChatSession | null) {
+    this.meta.versions[record.id] = record.revision;
+    if (session) this.meta.baseKeys[record.id] = messageKeys(session);
+    else delete this.meta.baseKeys[record.id];
+  }
+
+  // Applies a remote version locally; returns true when the local copy changed
+  private async applyRemote(record: RemoteRecord): Promise<boolean> {
+    const isDirty = this.meta.dirty.includes(record.id);
+    if (record.deleted || !record.session) {
+      this.meta.versions[record.id] = record.revision;
+      // A local edit made after the remote delete resurrects the session on the next push
+      if (isDirty) return false;
+      await this.store.deleteSession(record.id);
+      delete this.meta.baseKeys[record.id];
+      return true;
+    }
+
+    const local = isDirty ? await this.store.loadSession(record.id) : null;
+    if (local) {
+      const base = new Set(this.meta.baseKeys[record.id] || []);
+      const merged = mergeSessions(local, record.session, base);
+      await this.store.saveSession(merged);
+      this.meta.versions[record.id] = record.revision;
+      this.meta.baseKeys[record.id] = messageKeys(record.session);
+    } else {
+      await this.store.saveSession(record.session);
+      this.remember(record, record.session);
+    }
+    return true;
+  }
+
+  private async pull(): Promise<string[]> {
+    const { records, revision } = await this.api.pull(this.meta.revision);
+    const changed: string[] = [];
+    for (const record of records) {
+      // Skip echoes of our own pushes
+      if (this.meta.versions[record.id] === record.revision) continue;
+      // Records pushed before branching existed hold flat message lists
+      const session = record.session && upgradeSession(record.session);
+      if (await this.applyRemote({ ...record, session })) changed.push(record.id);
+    }
+    this.meta.revision = Math.max(this.meta.revision, revision);
+    return changed;
+  }
+
+  private async push(): Promise<string[]> {
+    const changed: string[] = [];
+    for (const id of [...this.meta.deleted]) {
+      const result = await this.api.push(id, null, this.meta.versions[id] || 0);
+      if ('record' in result) this.remember(result.record, null);
+      this.meta.deleted = this.meta.deleted.filter(d => d !== id);
+      this.saveMeta();
+    }
+
+    for (const id of [...this.meta.dirty]) {
+      const edit = this.edits.get(id);
+      let session = await this.store.loadSession(id);
+      if (session) {
+        let result = await this.api.push(id, session, this.meta.versions[id] || 0);
+        if ('current' in result) {
+          // Someone else wrote first: merge their version in and retry once on top of it
+          const current = result.current;
+          if (current.session) {
+            session = mergeSessions(session, upgradeSession(current.session), new Set(this.meta.baseKeys[id] || []));
+            await this.store.saveSession(session);
+            changed.push(id);
+          }
+          result = await this.api.push(id, session, current.revision);
+          if ('current' in result) continue; // Still racing; stays dirty for the next run
+        }
+        this.remember(result.record, session);
+      }
+      // Edited again during the push: the newer copy goes up on the rerun
+      if (this.edits.get(id) !== edit) continue;
+      this.meta.dirty = this.meta.dirty.filter(d => d !== id);
+      this.saveMeta();
+    }
+    return changed;
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './calculator';
+import { ToolError } from './toolRegistry';
+
+describe('evaluateExpression', () => {
+  it('follows operator precedence and associativity', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluateExpression('-2^2')).toBe(-4);
+    expect(evaluateExpression('10 % 4 + 5!')).toBe(122);
+    expect(evaluateExpression('2 ** 10 × 3 ÷ 6')).toBe(512);
+  });
+
+  it('hides floating point noise', () => {
+    expect(evaluateExpression('0.1 + 0.2')).toBe(0.3);
+  });
+
+  it('knows constants and functions', () => {
+    expect(evaluateExpression('sqrt(16) + abs(-3)')).toBe(7);
+    expect(evaluateExpression('log(1000) + ln(e)')).toBe(4);
+    expect(evaluateExpression('round(2 * pi)')).toBe(6);
+  });
+
+  it('treats commas in function calls as argument separators', () => {
+    expect(evaluateExpression('max(10,200)')).toBe(200);
+    expect(evaluateExpression('min(2,500)')).toBe(2);
+    expect(evaluateExpression('max(1,234)')).toBe(234);
+    expect(evaluateExpression('pow(2,100)')).toBe(1.26765060022823e30);
+    expect(evaluateExpression('min(3, 1, 2) + max(1,000, 2)')).toBe(3);
+  });
+
+  it('reads thousands separators outside function calls', () => {
+    expect(evaluateExpression('1,234 + 1')).toBe(1235);
+    expect(evaluateExpression('1,234,567.5 * 2')).toBe(2469135);
+    expect(evaluateExpression('(1,000) + max(1,000)')).toBe(1001);
+  });
+
+  it('reports malformed expressions', () => {
+    expect(() => evaluateExpression('')).toThrow(ToolError);
+    expect(() => evaluateExpression('2 +')).toThrow('The expression ended unexpectedly.');
+    expect(() => evaluateExpression('(2 + 3')).toThrow('Expected ")"');
+    expect(() => evaluateExpression('foo(2)')).toThrow('Unknown symbol "foo"');
+    expect(() => evaluateExpression('1,23')).toThrow('Unexpected ","');
+    expect(() => evaluateExpression('1 / 0')).toThrow('not a finite number');
+    expect(() => evaluateExpression('171!')).toThrow('Factorial');
+  });
+});
@@ -0,0 +1,139 @@
+import { Type } from '@google/genai';
+import { ToolDefinition, ToolError } from './toolRegistry';
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E, tau: 2 * Math.PI };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt, cbrt: Math.cbrt, abs: Math.abs, exp: Math.exp,
+  round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  log: Math.log10, ln: Math.log, log2: Math.log2,
+  min: Math.min, max: Math.max, pow: Math.pow
+};
+
+const factorial = (n: number) => {
+  if (!Number.isInteger(n) || n < 0 || n > 170) throw new ToolError('Factorial needs a whole number between 0 and 170.');
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+};
+
+/**
+ * Evaluates an arithmetic expression without eval: + - * / % ^ and ! operators, parentheses,
+ * the constants pi, e and tau, and common Math functions (log is base 10, ln is natural).
+ */
+export function evaluateExpression(input: string): number {
+  if (input.length > MAX_EXPRESSION_LENGTH) throw new ToolError(`Expressions can be at most ${MAX_EXPRESSION_LENGTH} characters.`);
+  const source = input.replace(/\*\*/g, '^').replace(/×/g, '*').replace(/÷/g, '/');
+  const tokens = source.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|\S/gi) || [];
+  let pos = 0;
+  // Inside function arguments a comma separates arguments, so "max(1,234)" is two numbers
+  let argDepth = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new ToolError(`Expected "${token}" in the expression.`);
+  };
+
+  const primary = (): number => {
+    const token = next();
+    if (token === undefined) throw new ToolError('The expression ended unexpectedly.');
+    if (token === '(') {
+      const value = expression();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) {
+      let digits = token;
+      // Elsewhere "1,234,567.5" is one number with thousands separators
+      while (argDepth === 0 && /^\d+$/.test(digits.replace(/,/g, '')) && peek() === ',' && /^\d{3}(\.\d*)?$/.test(tokens[pos + 1] || '')) {
+        next();
+        digits += next();
+      }
+      return Number(digits.replace(/,/g, ''));
+    }
+    const name = token.toLowerCase();
+    if (FUNCTIONS[name]) {
+      expect('(');
+      argDepth++;
+      const args = [expression()];
+      while (peek() === ',') {
+        next();
+        args.push(expression());
+      }
+      argDepth--;
+      expect(')');
+      return FUNCTIONS[name](...args);
+    }
+    if (name in CONSTANTS) return CONSTANTS[name];
+    throw new ToolError(`Unknown symbol "${token}".`);
+  };
+
+  const postfix = (): number => {
+    let value = primary();
+    while (peek() === '!') {
+      next();
+      value = factorial(value);
+    }
+    return value;
+  };
+
+  // ^ binds tighter than unary minus on its left (-2^2 = -4) and is right associative
+  const power = (): number => {
+    const base = postfix();
+    if (peek() !== '^') return base;
+    next();
+    return Math.pow(base, unary());
+  };
+
+  const unary = (): number => {
+    if (peek() === '-') { next(); return -unary(); }
+    if (peek() === '+') { next(); return unary(); }
+    return power();
+  };
+
+  const term = (): number => {
+    let value = unary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = next();
+      const right = unary();
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const expression = (): number => {
+    let value = term();
+    while (peek() === '+' || peek() === '-') {
+      const op = next();
+      const right = term();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  if (tokens.length === 0) throw new ToolError('The expression is empty.');
+  const result = expression();
+  if (pos < tokens.length) throw new ToolError(`Unexpected "${tokens[pos]}" in the expression.`);
+  if (!Number.isFinite(result)) throw new ToolError('The result is not a finite number.');
+  // Hide floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+  return Number(result.toPrecision(15));
+}
+
+export const calculatorTool: ToolDefinition = {
+  name: 'calculator',
+  description: 'Evaluates an arithmetic expression exactly. Use it for any calculation instead of doing math in your head. '
+    + 'Supports + - * / % ^ !, parentheses, pi, e and functions such as sqrt, abs, round, sin, cos, tan, log (base 10), ln, min and max. Commas separate function arguments, so write numbers without thousands separators.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      expression: { type: Type.STRING, description: 'Expression to evaluate, e.g. "(12.5 * 4) ^ 2 / sqrt(16)"' }
+    },
+    required: ['expression']
+  },
+  runsOn: 'server',
+  execute: ({ expression }) => ({ expression, result: evaluateExpression(expression) })
+};
@@ -0,0 +1,30 @@
+// Browser only: runs tool calls for chat continuations and Live sessions.
+import { ToolCall, ToolStep } from '../../types';
+import { authHeaders } from '../auth';
+import { ToolContext } from './toolRegistry';
+import { toolRegistry } from '.';
+
+async function runOnServer(call: ToolCall, signal?: AbortSignal): Promise<ToolStep> {
+  const response = await fetch('/api/tools', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify(call),
+    signal
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) return { ...call, runsOn: 'server', error: data.error || 'The tool could not be reached.' };
+  return data.step;
+}
+
+/**
+ * Client tools run here; server tools are sent to /api/tools. Failures come back as step errors.
+ * `signal` cancels a server call that is still in flight; client tools finish at once anyway.
+ */
+export async function runToolCall(call: ToolCall, context: ToolContext, signal?: AbortSignal): Promise<ToolStep> {
+  if (toolRegistry.get(call.name)?.runsOn !== 'server') return toolRegistry.execute(call, context);
+  try {
+    return await runOnServer(call, signal);
+  } catch (error) {
+    return { ...call, runsOn: 'server', error: signal?.aborted ? 'Cancelled.' : 'The tool could not be reached.' };
+  }
+}
@@ -0,0 +1,27 @@
+import { Type } from '@google/genai';
+import { ToolDefinition, ToolError } from './toolRegistry';
+
+const MAX_TITLE_LENGTH = 80;
+
+export const createChatTool: ToolDefinition = {
+  name: 'create_chat',
+  description: 'Starts a new, empty chat session with the given title, for example when the user says '
+    + '"start a new chat titled Trip plans". The chat opens in the chat screen; this call keeps running.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING, description: `Title of the new chat, at most ${MAX_TITLE_LENGTH} characters` }
+    },
+    required: ['title']
+  },
+  runsOn: 'client',
+  // In a typed chat the user can start one themselves, and switching away would cut off the answer
+  surfaces: ['live'],
+  execute: ({ title }, context) => {
+    if (!context.createSession) throw new ToolError('Chats cannot be created here.');
+    const trimmed = title.trim().replace(/\s+/g, ' ');
+    if (!trimmed) throw new ToolError('The title is empty.');
+    if (trimmed.length > MAX_TITLE_LENGTH) throw new ToolError(`The title is longer than ${MAX_TITLE_LENGTH} characters.`);
+    return context.createSession(trimmed);
+  }
+};
@@ -0,0 +1,31 @@
+import { Type } from '@google/genai';
+import { ToolDefinition, ToolError } from './toolRegistry';
+
+// Date and time in a time zone; defaults to the zone of the device running the tool
+export function describeNow(now: Date, timeZone?: string) {
+  const zone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  let formatted: string;
+  try {
+    formatted = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone, dateStyle: 'full', timeStyle: 'long'
+    }).format(now);
+  } catch (e) {
+    throw new ToolError(`Unknown time zone "${timeZone}". Use an IANA name such as "Asia/Dhaka".`);
+  }
+  return { iso: now.toISOString(), timeZone: zone, local: formatted };
+}
+
+export const dateTimeTool: ToolDefinition = {
+  name: 'get_current_datetime',
+  description: 'Returns the current date and time. Without a time zone it uses the user\'s own time zone. '
+    + 'Call it whenever the answer depends on today\'s date or the current time.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      timeZone: { type: Type.STRING, description: 'Optional IANA time zone, e.g. "Asia/Dhaka" or "Europe/London"' }
+    }
+  },
+  // Runs in the browser so the default zone is the user's, not the server's
+  runsOn: 'client',
+  execute: ({ timeZone }) => describeNow(new Date(), timeZone)
+};
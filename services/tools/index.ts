@@ -0,0 +1,19 @@
+import { calculatorTool } from './calculator';
+import { createChatTool } from './createChat';
+import { dateTimeTool } from './dateTime';
+import { sessionSearchTool } from './sessionSearch';
+import { ToolRegistry } from './toolRegistry';
+import { unitConversionTool } from './unitConversion';
+
+export type { SessionSearchHit, ToolContext, ToolDefinition, ToolSurface } from './toolRegistry';
+export { ToolError, ToolRegistry, toolResponsePart } from './toolRegistry';
+export { evaluateExpression } from './calculator';
+export { convertUnits } from './unitConversion';
+
+// Shared by the browser and the API; both sides must register the same tools
+export const toolRegistry = new ToolRegistry()
+  .register(calculatorTool)
+  .register(unitConversionTool)
+  .register(dateTimeTool)
+  .register(sessionSearchTool)
+  .register(createChatTool);
@@ -0,0 +1,29 @@
+import { Type } from '@google/genai';
+import { ToolDefinition, ToolError } from './toolRegistry';
+
+const MAX_RESULTS = 10;
+
+export const sessionSearchTool: ToolDefinition = {
+  name: 'search_sessions',
+  description: 'Full-text search over the user\'s saved chat sessions with WASO. Use it when the user refers to '
+    + 'something discussed in an earlier chat. Returns matching messages with their chat title and date.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      query: { type: Type.STRING, description: 'Words to look for; every word must appear in a message' },
+      limit: { type: Type.INTEGER, description: `Maximum number of results, 1 to ${MAX_RESULTS} (default 5)` }
+    },
+    required: ['query']
+  },
+  // The search index lives in the browser
+  runsOn: 'client',
+  execute: ({ query, limit = 5 }, context) => {
+    if (!context.searchSessions) throw new ToolError('Chat search is not available here.');
+    if (!query.trim()) throw new ToolError('The query is empty.');
+    const hits = context.searchSessions(query, Math.min(MAX_RESULTS, Math.max(1, limit)));
+    return {
+      query,
+      results: hits.map(hit => ({ ...hit, date: new Date(hit.timestamp).toISOString() }))
+    };
+  }
+};
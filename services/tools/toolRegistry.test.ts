@@ -0,0 +1,54 @@
+import { Type } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { ToolDefinition, ToolError, ToolRegistry } from './toolRegistry';
+
+const echo: ToolDefinition = {
+  name: 'echo',
+  description: 'Repeats its input',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING },
+      times: { type: Type.INTEGER },
+      loud: { type: Type.BOOLEAN }
+    },
+    required: ['text']
+  },
+  runsOn: 'server',
+  execute: ({ text, times = 1 }) => {
+    if (times > 3) throw new ToolError('At most 3 times.');
+    return text.repeat(times);
+  }
+};
+
+const registry = () => new ToolRegistry().register(echo);
+
+describe('ToolRegistry', () => {
+  it('runs a call with valid arguments', async () => {
+    expect(await registry().execute({ id: 'c1', name: 'echo', args: { text: 'hi', times: 2 } }))
+      .toEqual({ id: 'c1', name: 'echo', args: { text: 'hi', times: 2 }, runsOn: 'server', output: 'hihi' });
+  });
+
+  it.each([
+    [{}, 'Missing argument "text".'],
+    [{ text: 'hi', extra: 1 }, 'Unknown argument "extra".'],
+    [{ text: 3 }, 'Argument "text" must be of type string.'],
+    [{ text: 'hi', times: 1.5 }, 'Argument "times" must be of type integer.'],
+    [{ text: 'hi', loud: 'yes' }, 'Argument "loud" must be of type boolean.']
+  ])('reports invalid arguments %j without running the tool', async (args, error) => {
+    expect((await registry().execute({ name: 'echo', args })).error).toBe(error);
+  });
+
+  it('turns failures into step errors', async () => {
+    const reg = registry();
+    expect((await reg.execute({ name: 'echo', args: { text: 'hi', times: 4 } })).error).toBe('At most 3 times.');
+    expect((await reg.execute({ name: 'nope', args: {} })).error).toBe('Unknown tool "nope".');
+  });
+
+  it('refuses duplicate names and filters by surface', () => {
+    const reg = registry().register({ ...echo, name: 'live_only', surfaces: ['live'] });
+    expect(() => reg.register(echo)).toThrow('already registered');
+    expect(reg.names('chat')).toEqual(['echo']);
+    expect(reg.names('live')).toEqual(['echo', 'live_only']);
+  });
+});
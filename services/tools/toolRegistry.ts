@@ -0,0 +1,115 @@
+import { FunctionDeclaration, Schema, Type } from '@google/genai';
+import { ToolCall, ToolStep } from '../../types';
+
+export interface SessionSearchHit {
+  sessionId: string;
+  title: string;
+  role: 'user' | 'model';
+  timestamp: number;
+  snippet: string;
+}
+
+// Browser state client tools may use; the server runs its tools without any
+export interface ToolContext {
+  searchSessions?: (query: string, limit: number) => SessionSearchHit[];
+  // Creates and selects an empty chat without leaving the current screen
+  createSession?: (title: string) => { sessionId: string; title: string };
+}
+
+// Where a tool is offered: typed chats or Live calls
+export type ToolSurface = 'chat' | 'live';
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Schema;
+  // Server tools run inside /api/gemini (or /api/tools for Live); client tools run in the browser
+  runsOn: 'client' | 'server';
+  // Defaults to every surface
+  surfaces?: ToolSurface[];
+  execute: (args: Record<string, any>, context: ToolContext) => unknown | Promise<unknown>;
+}
+
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+const TYPE_CHECKS: Partial<Record<Type, (value: unknown) => boolean>> = {
+  [Type.STRING]: v => typeof v === 'string',
+  [Type.NUMBER]: v => typeof v === 'number' && Number.isFinite(v),
+  [Type.INTEGER]: v => Number.isInteger(v),
+  [Type.BOOLEAN]: v => typeof v === 'boolean'
+};
+
+// Checks the top-level arguments against the declared schema
+function checkArgs(tool: ToolDefinition, args: Record<string, unknown>): string | null {
+  for (const key of tool.parameters.required || []) {
+    if (args[key] === undefined) return `Missing argument "${key}".`;
+  }
+  for (const [key, value] of Object.entries(args)) {
+    const schema = tool.parameters.properties?.[key];
+    if (!schema) return `Unknown argument "${key}".`;
+    const check = schema.type && TYPE_CHECKS[schema.type];
+    if (check && !check(value)) return `Argument "${key}" must be of type ${schema.type?.toLowerCase()}.`;
+  }
+  return null;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register(tool: ToolDefinition) {
+    if (this.tools.has(tool.name)) throw new Error(`Tool "${tool.name}" is already registered.`);
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  get(name: string) {
+    return this.tools.get(name);
+  }
+
+  // Every tool, or only those offered on `surface`
+  names(surface?: ToolSurface) {
+    return [...this.tools.values()].filter(t => !surface || !t.surfaces || t.surfaces.includes(surface)).map(t => t.name);
+  }
+
+  // Declarations for Gemini's `tools` config, optionally limited to some tools
+  declarations(names = this.names()): FunctionDeclaration[] {
+    return names.map(name => this.tools.get(name)).filter((t): t is ToolDefinition => !!t).map(t => ({
+      name: t.name,
+      description: t.description,
+      parameters: t.parameters
+    }));
+  }
+
+  /**
+   * Runs a call and reports the outcome as a step. Failures become the step's error so
+   * the model can read them and recover; this never throws.
+   */
+  async execute(call: ToolCall, context: ToolContext = {}): Promise<ToolStep> {
+    const tool = this.tools.get(call.name);
+    const args = call.args || {};
+    const step: ToolStep = { ...call, args, runsOn: tool?.runsOn || 'server' };
+    if (!tool) return { ...step, error: `Unknown tool "${call.name}".` };
+    const invalid = checkArgs(tool, args);
+    if (invalid) return { ...step, error: invalid };
+    try {
+      return { ...step, output: await tool.execute(args, context) };
+    } catch (error: any) {
+      if (!(error instanceof ToolError)) console.error(`Tool ${call.name} failed:`, error);
+      return { ...step, error: error instanceof ToolError ? error.message : 'The tool failed unexpectedly.' };
+    }
+  }
+}
+
+// Function response part that reports a step back to Gemini
+export const toolResponsePart = (step: ToolStep) => ({
+  functionResponse: {
+    ...(step.id ? { id: step.id } : {}),
+    name: step.name,
+    response: step.error !== undefined ? { error: step.error } : { output: step.output }
+  }
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { convertUnits } from './unitConversion';
+
+describe('convertUnits', () => {
+  it('converts through the base unit of a category', () => {
+    expect(convertUnits(1, 'mi', 'km')).toBe(1.609344);
+    expect(convertUnits(10, 'pounds', 'kg')).toBe(4.5359237);
+    expect(convertUnits(1, 'GB', 'MiB')).toBe(953.674316406);
+    expect(convertUnits(90, 'km/h', 'm/s')).toBe(25);
+  });
+
+  it('accepts aliases regardless of case and spacing', () => {
+    expect(convertUnits(2, ' Fluid  Ounces ', 'ml')).toBe(59.147059125);
+  });
+
+  it('converts temperatures with offsets', () => {
+    expect(convertUnits(212, '°F', 'celsius')).toBe(100);
+    expect(convertUnits(0, 'c', 'k')).toBe(273.15);
+    expect(convertUnits(-40, 'c', 'f')).toBe(-40);
+  });
+
+  it('rejects unknown units and mixed categories', () => {
+    expect(() => convertUnits(1, 'furlong', 'm')).toThrow('Unknown unit "furlong"');
+    expect(() => convertUnits(1, 'kg', 'm')).toThrow('Cannot convert mass (kg) to length (m).');
+  });
+});
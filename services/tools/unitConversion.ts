@@ -0,0 +1,107 @@
+import { Type } from '@google/genai';
+import { ToolDefinition, ToolError } from './toolRegistry';
+
+interface Unit {
+  category: string;
+  // Factor to the category's base unit; temperatures use offsets instead
+  factor: number;
+  aliases: string[];
+}
+
+const unit = (category: string, factor: number, ...aliases: string[]): Unit => ({ category, factor, aliases });
+
+const UNITS: Unit[] = [
+  unit('length', 1, 'm', 'meter', 'meters', 'metre', 'metres'),
+  unit('length', 1000, 'km', 'kilometer', 'kilometers', 'kilometre', 'kilometres'),
+  unit('length', 0.01, 'cm', 'centimeter', 'centimeters', 'centimetre', 'centimetres'),
+  unit('length', 0.001, 'mm', 'millimeter', 'millimeters', 'millimetre', 'millimetres'),
+  unit('length', 1609.344, 'mi', 'mile', 'miles'),
+  unit('length', 0.9144, 'yd', 'yard', 'yards'),
+  unit('length', 0.3048, 'ft', 'foot', 'feet'),
+  unit('length', 0.0254, 'in', 'inch', 'inches'),
+  unit('length', 1852, 'nmi', 'nautical mile', 'nautical miles'),
+  unit('mass', 1, 'kg', 'kilogram', 'kilograms'),
+  unit('mass', 0.001, 'g', 'gram', 'grams'),
+  unit('mass', 0.000001, 'mg', 'milligram', 'milligrams'),
+  unit('mass', 1000, 't', 'tonne', 'tonnes', 'metric ton'),
+  unit('mass', 0.45359237, 'lb', 'lbs', 'pound', 'pounds'),
+  unit('mass', 0.028349523125, 'oz', 'ounce', 'ounces'),
+  unit('mass', 6.35029318, 'st', 'stone'),
+  unit('volume', 1, 'l', 'liter', 'liters', 'litre', 'litres'),
+  unit('volume', 0.001, 'ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres'),
+  unit('volume', 1000, 'm3', 'cubic meter', 'cubic meters'),
+  unit('volume', 3.785411784, 'gal', 'gallon', 'gallons'),
+  unit('volume', 0.946352946, 'qt', 'quart', 'quarts'),
+  unit('volume', 0.473176473, 'pt', 'pint', 'pints'),
+  unit('volume', 0.2365882365, 'cup', 'cups'),
+  unit('volume', 0.0295735295625, 'fl oz', 'floz', 'fluid ounce', 'fluid ounces'),
+  unit('area', 1, 'm2', 'sq m', 'square meter', 'square meters'),
+  unit('area', 1e6, 'km2', 'sq km', 'square kilometer', 'square kilometers'),
+  unit('area', 10000, 'ha', 'hectare', 'hectares'),
+  unit('area', 4046.8564224, 'acre', 'acres'),
+  unit('area', 0.09290304, 'ft2', 'sq ft', 'square foot', 'square feet'),
+  unit('speed', 1, 'm/s', 'mps', 'meters per second'),
+  unit('speed', 1 / 3.6, 'km/h', 'kph', 'kmh', 'kilometers per hour'),
+  unit('speed', 0.44704, 'mph', 'miles per hour'),
+  unit('speed', 1852 / 3600, 'kn', 'knot', 'knots'),
+  unit('time', 1, 's', 'sec', 'second', 'seconds'),
+  unit('time', 0.001, 'ms', 'millisecond', 'milliseconds'),
+  unit('time', 60, 'min', 'minute', 'minutes'),
+  unit('time', 3600, 'h', 'hr', 'hour', 'hours'),
+  unit('time', 86400, 'day', 'days'),
+  unit('time', 604800, 'week', 'weeks'),
+  unit('data', 1, 'b', 'byte', 'bytes'),
+  unit('data', 1e3, 'kb', 'kilobyte', 'kilobytes'),
+  unit('data', 1e6, 'mb', 'megabyte', 'megabytes'),
+  unit('data', 1e9, 'gb', 'gigabyte', 'gigabytes'),
+  unit('data', 1e12, 'tb', 'terabyte', 'terabytes'),
+  unit('data', 1024, 'kib', 'kibibyte', 'kibibytes'),
+  unit('data', 1024 ** 2, 'mib', 'mebibyte', 'mebibytes'),
+  unit('data', 1024 ** 3, 'gib', 'gibibyte', 'gibibytes'),
+  unit('temperature', 1, 'c', '°c', 'celsius'),
+  unit('temperature', 1, 'f', '°f', 'fahrenheit'),
+  unit('temperature', 1, 'k', 'kelvin')
+];
+
+const BY_ALIAS = new Map(UNITS.flatMap(u => u.aliases.map(alias => [alias, u] as [string, Unit])));
+
+const findUnit = (name: string) => {
+  const found = BY_ALIAS.get(name.trim().toLowerCase().replace(/\s+/g, ' '));
+  if (!found) throw new ToolError(`Unknown unit "${name}".`);
+  return found;
+};
+
+const toKelvin = (value: number, scale: string) =>
+  scale === 'c' ? value + 273.15 : scale === 'f' ? (value - 32) * 5 / 9 + 273.15 : value;
+
+const fromKelvin = (kelvin: number, scale: string) =>
+  scale === 'c' ? kelvin - 273.15 : scale === 'f' ? (kelvin - 273.15) * 9 / 5 + 32 : kelvin;
+
+export function convertUnits(value: number, from: string, to: string): number {
+  const source = findUnit(from);
+  const target = findUnit(to);
+  if (source.category !== target.category) {
+    throw new ToolError(`Cannot convert ${source.category} (${from}) to ${target.category} (${to}).`);
+  }
+  const result = source.category === 'temperature'
+    ? fromKelvin(toKelvin(value, source.aliases[0]), target.aliases[0])
+    : value * source.factor / target.factor;
+  return Number(result.toPrecision(12));
+}
+
+export const unitConversionTool: ToolDefinition = {
+  name: 'convert_units',
+  description: 'Converts a value between units of length, mass, volume (US customary), area, speed, time, data size or temperature, '
+    + 'e.g. km to mi, lb to kg, °F to °C, GB to MiB.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      value: { type: Type.NUMBER, description: 'Amount to convert' },
+      from: { type: Type.STRING, description: 'Unit of the value, e.g. "km", "pounds", "fahrenheit"' },
+      to: { type: Type.STRING, description: 'Unit to convert to' }
+    },
+    required: ['value', 'from', 'to']
+  },
+  runsOn: 'server',
+  execute: ({ value, from, to }) => ({ value, from, to, result: convertUnits(value, from, to) })
+};
@@ -0,0 +1,141 @@
+import { ChatSession } from '../../types';
+import { upgradeSession } from '../messageTree';
+import { validateGenerationSettings } from '../generationConfig';
+
+export const EXPORT_FORMAT = 'waso-sessions';
+/**
+ * Export schema versions:
+ * 1 - sessions with a flat `messages` list (before branching); a bare array of sessions,
+ *     as stored in the old localStorage key, is read as version 1 too
+ * 2 - sessions with a message tree (`nodes` + `activeLeafId`)
+ */
+export const EXPORT_VERSION = 2;
+
+export interface SessionExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  sessions: ChatSession[];
+}
+
+export class SessionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionImportError';
+  }
+}
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+
+// Each step lifts the sessions of one version to the next; malformed entries are left for validation
+const UPGRADES: Record<number, (sessions: any[]) => any[]> = {
+  1: sessions => sessions.map(s => isObject(s) ? upgradeSession(s) : s)
+};
+
+export const createExport = (sessions: ChatSession[]): SessionExport => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exportedAt: Date.now(),
+  sessions
+});
+
+function validateSession(session: any, index: number): ChatSession {
+  const where = `Session ${index + 1}`;
+  if (!isObject(session)) throw new SessionImportError(`${where} is not an object.`);
+  if (typeof session.id !== 'string' || !session.id) throw new SessionImportError(`${where} has no id.`);
+  if (typeof session.title !== 'string') throw new SessionImportError(`${where} has no title.`);
+  if (typeof session.timestamp !== 'number') throw new SessionImportError(`${where} has no timestamp.`);
+  if (!Array.isArray(session.nodes)) throw new SessionImportError(`${where} has no messages.`);
+
+  const ids = new Set<string>();
+  session.nodes.forEach((node: any, i: number) => {
+    const at = `${where}, message ${i + 1}`;
+    if (!isObject(node) || typeof node.id !== 'string' || ids.has(node.id)) throw new SessionImportError(`${at} has a missing or duplicate id.`);
+    ids.add(node.id);
+    if (node.parentId !== null && typeof node.parentId !== 'string') throw new SessionImportError(`${at} has an invalid parent.`);
+    if (node.role !== 'user' && node.role !== 'model') throw new SessionImportError(`${at} has an invalid role.`);
+    if (typeof node.timestamp !== 'number') throw new SessionImportError(`${at} has no timestamp.`);
+    if (!Array.isArray(node.parts) || !node.parts.every((p: any) => isObject(p) && typeof p.text === 'string')) {
+      throw new SessionImportError(`${at} has invalid text.`);
+    }
+    if (node.attachments !== undefined) {
+      const valid = Array.isArray(node.attachments) && node.attachments.every((a: any) =>
+        isObject(a) && typeof a.name === 'string' && typeof a.mimeType === 'string' && typeof a.data === 'string' && BASE64.test(a.data));
+      if (!valid) throw new SessionImportError(`${at} has an invalid attachment.`);
+    }
+    if (node.toolSteps !== undefined) {
+      const valid = Array.isArray(node.toolSteps) && node.toolSteps.every((t: any) =>
+        isObject(t) && typeof t.name === 'string' && (t.runsOn === 'client' || t.runsOn === 'server'));
+      if (!valid) throw new SessionImportError(`${at} has an invalid tool step.`);
+    }
+    if (node.citations !== undefined) {
+      const valid = Array.isArray(node.citations) && node.citations.every((c: any) =>
+        isObject(c) && Number.isInteger(c.index) && typeof c.fileName === 'string' && typeof c.text === 'string'
+        && (c.page === undefined || Number.isInteger(c.page)));
+      if (!valid) throw new SessionImportError(`${at} has an invalid citation.`);
+    }
+  });
+  if (session.activeLeafId !== null && !ids.has(session.activeLeafId)) {
+    throw new SessionImportError(`${where} points at a message that does not exist.`);
+  }
+  if (session.origin !== undefined && session.origin !== 'chat' && session.origin !== 'live') {
+    throw new SessionImportError(`${where} has an invalid origin.`);
+  }
+  if (session.personaId !== undefined && typeof session.personaId !== 'string') {
+    throw new SessionImportError(`${where} has an invalid persona.`);
+  }
+  const { settings, error } = validateGenerationSettings(session.settings);
+  if (session.settings !== undefined && !settings) throw new SessionImportError(`${where} has invalid settings: ${error}`);
+
+  return {
+    id: session.id,
+    title: session.title,
+    nodes: session.nodes,
+    activeLeafId: session.activeLeafId,
+    timestamp: session.timestamp,
+    ...(session.origin ? { origin: session.origin } : {}),
+    ...(session.settings !== undefined ? { settings } : {}),
+    ...(session.personaId ? { personaId: session.personaId } : {})
+  };
+}
+
+/**
+ * Parses an export file, upgrading older versions to the current schema. Sessions that
+ * appear more than once in the file are deduplicated by id, keeping the newest copy.
+ */
+export function parseExport(text: string): ChatSession[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new SessionImportError('The file is not valid JSON.');
+  }
+
+  let version: number;
+  let sessions: any[];
+  if (Array.isArray(data)) {
+    version = 1;
+    sessions = data;
+  } else if (isObject(data) && data.format === EXPORT_FORMAT && Array.isArray(data.sessions)) {
+    version = data.version;
+    sessions = data.sessions;
+  } else {
+    throw new SessionImportError('The file is not a WASO chat export.');
+  }
+  if (!Number.isInteger(version) || version < 1) throw new SessionImportError('The export has an invalid version.');
+  if (version > EXPORT_VERSION) throw new SessionImportError('The export was made by a newer version of WASO.');
+
+  try {
+    for (let v = version; v < EXPORT_VERSION; v++) sessions = UPGRADES[v](sessions);
+  } catch (e) {
+    throw new SessionImportError(`The version ${version} export could not be upgraded.`);
+  }
+
+  const byId = new Map<string, ChatSession>();
+  sessions.map(validateSession).forEach(session => {
+    const existing = byId.get(session.id);
+    if (!existing || session.timestamp > existing.timestamp) byId.set(session.id, session);
+  });
+  return [...byId.values()];
+}
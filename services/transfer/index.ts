@@ -0,0 +1,57 @@
+import { ChatSession } from '../../types';
+import { slugify } from '../documents';
+import { SessionStore } from '../storage';
+import { mergeSessions } from '../sync';
+import { createExport, parseExport } from './exportFormat';
+import { sessionsToMarkdown } from './markdownTranscript';
+import { renderTranscriptPdf } from './pdfTranscript';
+
+export { EXPORT_VERSION, SessionImportError, parseExport, createExport } from './exportFormat';
+export type { SessionExport } from './exportFormat';
+export { sessionsToMarkdown } from './markdownTranscript';
+export { renderTranscriptPdf } from './pdfTranscript';
+
+export type ExportFormat = 'json' | 'markdown' | 'pdf';
+
+const EXTENSIONS: Record<ExportFormat, string> = { json: 'json', markdown: 'md', pdf: 'pdf' };
+
+export async function exportSessions(sessions: ChatSession[], format: ExportFormat): Promise<{ blob: Blob; name: string }> {
+  const base = sessions.length === 1
+    ? slugify(sessions[0].title) || 'waso_chat'
+    : `waso_chats_${new Date().toISOString().slice(0, 10)}`;
+  const name = `${base}.${EXTENSIONS[format]}`;
+
+  if (format === 'pdf') return { blob: await renderTranscriptPdf(sessions), name };
+  if (format === 'markdown') return { blob: new Blob([sessionsToMarkdown(sessions)], { type: 'text/markdown' }), name };
+  return { blob: new Blob([JSON.stringify(createExport(sessions))], { type: 'application/json' }), name };
+}
+
+export function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Saves the sessions of an export file into the store. A session whose id already exists
+ * is merged with the local copy, so re-importing a backup never duplicates messages.
+ */
+export async function importSessions(store: SessionStore, text: string): Promise<{ added: string[]; merged: string[] }> {
+  const incoming = parseExport(text);
+  const added: string[] = [];
+  const merged: string[] = [];
+  for (const session of incoming) {
+    const local = await store.loadSession(session.id);
+    if (local) {
+      await store.saveSession(mergeSessions(local, session, new Set()));
+      merged.push(session.id);
+    } else {
+      await store.saveSession(session);
+      added.push(session.id);
+    }
+  }
+  return { added, merged };
+}
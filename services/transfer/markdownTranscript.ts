@@ -0,0 +1,31 @@
+import { Attachment, ChatSession } from '../../types';
+import { messageText } from '../contextBuilder';
+import { activePath } from '../messageTree';
+
+export const speakerName = (role: 'user' | 'model') => role === 'user' ? 'You' : 'WASO';
+
+// Attachments are embedded as data URIs so the file stays self-contained
+const attachmentMarkdown = (att: Attachment) => {
+  const uri = `data:${att.mimeType};base64,${att.data}`;
+  const label = att.name.replace(/[[\]]/g, '');
+  return att.mimeType.startsWith('image/') ? `![${label}](${uri})` : `[📎 ${label}](${uri})`;
+};
+
+// Readable transcript of the branch currently shown in each session
+export function sessionsToMarkdown(sessions: ChatSession[]): string {
+  return sessions.map(session => {
+    const lines = [`# ${session.title}`, '', `_Exported from WASO on ${new Date().toLocaleString()}_`, ''];
+    for (const msg of activePath(session)) {
+      lines.push(`**${speakerName(msg.role)}** · ${new Date(msg.timestamp).toLocaleString()}`, '');
+      msg.toolSteps?.forEach(step => lines.push(`> 🔧 \`${step.name}\` ${step.error ? `failed: ${step.error}` : `→ \`${JSON.stringify(step.output)}\``}`, ''));
+      const text = messageText(msg).trim();
+      if (text) lines.push(text, '');
+      msg.attachments?.forEach(att => lines.push(attachmentMarkdown(att), ''));
+      if (msg.citations?.length) {
+        lines.push(...msg.citations.map(c => `> [${c.index}] ${c.fileName}${c.page ? `, p. ${c.page}` : ''}`), '');
+      }
+      lines.push('---', '');
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+}
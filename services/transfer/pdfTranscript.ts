@@ -0,0 +1,49 @@
+import { jsPDF } from 'jspdf';
+import { ChatSession } from '../../types';
+import { messageText } from '../contextBuilder';
+import { activePath } from '../messageTree';
+import { BANGLA_FONT, containsBangla, registerBanglaFont } from '../documents/banglaFont';
+import { PdfWriter } from '../documents/pdfRenderer';
+import { speakerName } from './markdownTranscript';
+
+// One session per page run, following the branch currently shown; images are drawn inline
+export async function renderTranscriptPdf(sessions: ChatSession[]): Promise<Blob> {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const paths = sessions.map(session => ({ session, path: activePath(session) }));
+  let fontName = 'helvetica';
+  if (paths.some(({ session, path }) => containsBangla(session.title) || path.some(m => containsBangla(messageText(m))))) {
+    await registerBanglaFont(doc);
+    fontName = BANGLA_FONT;
+  }
+
+  paths.forEach(({ session, path }, i) => {
+    if (i > 0) doc.addPage();
+    const writer = new PdfWriter(doc, fontName);
+    writer.text(session.title, 20, 'bold');
+    writer.text(`Exported from WASO on ${new Date().toLocaleString()}`, 10, 'normal', 0, 110);
+    writer.gap(6);
+
+    for (const msg of path) {
+      writer.text(`${speakerName(msg.role)}  ·  ${new Date(msg.timestamp).toLocaleString()}`, 10, 'bold', 0, msg.role === 'user' ? 40 : 90);
+      writer.gap(1);
+      const text = messageText(msg).trim();
+      if (text) writer.text(text, 11);
+      for (const att of msg.attachments || []) {
+        writer.gap(2);
+        let drawn = false;
+        if (att.mimeType.startsWith('image/')) {
+          try {
+            writer.image(att.data, att.mimeType);
+            drawn = true;
+          } catch (e) {
+            console.warn('Image could not be added to the PDF:', e);
+          }
+        }
+        if (!drawn) writer.text(`Attachment: ${att.name}`, 10, 'normal', 0, 90);
+      }
+      writer.gap(5);
+    }
+  });
+
+  return doc.output('blob');
+}
@@ -6,21 +6,156 @@ export interface Attachment {
 }
 
 export interface Message {
+  id?: string; // Stable within a session; assigned when the message is created
   role: 'user' | 'model';
   parts: { text: string }[];
   timestamp: number;
   attachments?: Attachment[];
   isImage?: boolean; // To flag if the model response is an generated image
+  isPartial?: boolean; // Streaming ended before the model finished
+  partialReason?: 'stopped' | 'failed'; // Why a partial answer ended; older messages without it were stopped
+  toolSteps?: ToolStep[]; // Tools called while producing this answer, in order
+  citations?: Citation[]; // Knowledge base excerpts the answer cites, numbered as in the prompt
+}
+
+// An excerpt from a file in the session's knowledge base
+export interface Citation {
+  index: number;
+  documentId: string;
+  fileName: string;
+  page?: number; // 1-based; absent for plain text files
+  text: string;
+}
+
+export interface ToolCall {
+  id?: string; // Set by Gemini to pair the call with its response
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// A tool call together with its outcome, shown as a collapsible step in the chat
+export interface ToolStep extends ToolCall {
+  runsOn: 'client' | 'server';
+  output?: unknown;
+  error?: string;
+}
+
+// Edits and regenerations add a sibling under the same parent instead of replacing later turns
+export interface MessageNode extends Message {
+  id: string;
+  parentId: string | null;
+}
+
+export interface GeminiPart {
+  text?: string;
+  inlineData?: { data: string; mimeType: string };
+  functionCall?: ToolCall;
+  functionResponse?: { id?: string; name: string; response: Record<string, unknown> };
+  thoughtSignature?: string; // Must be sent back unchanged with the part it arrived on
+}
+
+// A single turn in the multi-turn payload sent to /api/gemini
+export interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+// Explicit request types understood by /api/gemini; 'auto' lets the server route the prompt
+export type RequestType = 'chat' | 'image' | 'tts' | 'document' | 'embed';
+
+export interface ImageOptions {
+  aspectRatio: string;
+  count: number;
+}
+
+export type DocumentFormat = 'pdf' | 'pptx';
+
+export interface DocumentTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface DocumentSection {
+  heading: string;
+  paragraphs?: string[];
+  bullets?: string[];
+  table?: DocumentTable;
+}
+
+// Structured document returned by the model and rendered client-side to PDF/PPTX
+export interface DocumentSpec {
+  title: string;
+  subtitle?: string;
+  sections: DocumentSection[];
+}
+
+export type SafetyCategory = 'harassment' | 'hateSpeech' | 'sexuallyExplicit' | 'dangerousContent';
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+// Per-session generation settings; defaults and allowed values live in services/generationConfig
+export interface GenerationSettings {
+  model: string;
+  temperature: number;
+  topP: number;
+  maxOutputTokens: number;
+  safety: Record<SafetyCategory, SafetyThreshold>;
+  thinkingBudget: number; // -1 lets the model decide, 0 turns thinking off where supported
+}
+
+export type PersonaLanguage = 'auto' | 'en' | 'bn';
+
+// A system prompt profile used by chat and Live; built-in personas cannot be edited or deleted
+export interface Persona {
+  id: string;
+  name: string;
+  systemInstruction: string;
+  voice: string; // Prebuilt Gemini voice for Live and read-aloud
+  speechRate?: number; // Read-aloud speed, one of SPEECH_RATES; Live calls always run at 1
+  language: PersonaLanguage; // 'auto' answers in the user's language
+  greeting: string; // First message of a new chat
+  builtIn?: boolean;
 }
 
 export interface ChatSession {
   id: string;
   title: string;
-  messages: Message[];
+  nodes: MessageNode[]; // Every version of every message, in creation order
+  activeLeafId: string | null; // Last message of the branch currently shown
   timestamp: number;
+  origin?: 'chat' | 'live'; // Live sessions are saved voice-call transcripts
+  settings?: GenerationSettings; // Falls back to the defaults when unset
+  personaId?: string; // Falls back to the default persona when unset or not found on this device
+}
+
+export type OAuthProviderId = 'google' | 'github';
+
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  photoURL: string | null;
 }
 
 export enum AppMode {
   CHAT = 'CHAT',
   LIVE = 'LIVE'
 }
+
+// Error codes returned by /api/gemini as `{ error, code, retryable? }`
+export type ApiErrorCode =
+  | 'safety_blocked'
+  | 'quota_exceeded'
+  | 'invalid_input'
+  | 'upstream_timeout'
+  | 'upstream_error'
+  | 'missing_api_key'
+  | 'unauthorized'
+  | 'internal';
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  // Transient failures that may succeed when sent again
+  retryable?: boolean;
+  retryAfter?: number;
+}